@@ -1,15 +1,23 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { Container, Row, Col } from 'react-bootstrap';
-import { VideoFile, EventType, Timestamp, VideoState, SessionData } from './types';
-import { generateId, getVideoColors, calculateRealWorldTime, createSessionData, exportSessionData } from './utils';
+import { VideoFile, EventType, Movement, PendingChord, Timestamp, VideoState, SessionData, AttributeValue, CountTemplate, ClockAnchor, Camera, NormalizedPoint, Trajectory, SpeedMeasurement, FilenamePattern, ActivitySegment, CandidateEvent } from './types';
+import { generateId, getCandidatePosition, findZoneAtPoint, getFrameIndex, getFrameStepTime, getReactionOffset, calculateVideoDateTime, recalculateTimestampTimes, recalculateTrajectoryTimes, calculateTotalDuration, createCamera, createSessionData, exportSessionData, createDefaultEventTypes, getHotkeyFromEvent, getAttributeHotkeyValue } from './utils';
 import Header, { TabType } from './components/Header';
 import VideoUpload from './components/VideoUpload';
 import VideoPlayer from './components/VideoPlayer';
 import TimestampTable, { TimestampTableRef } from './components/TimestampTable';
+import TrajectoryTable from './components/TrajectoryTable';
 import Analysis from './components/Analysis';
 import NoteModal from './components/NoteModal';
 import SettingsModal from './components/SettingsModal';
 import HelpModal from './components/HelpModal';
+import EventTypesModal from './components/EventTypesModal';
+import { getTemplateEventTypes } from './templates';
+import { checkSessionIntegrity, repairSessionIntegrity } from './integrity';
+import { saveThumbnail, loadThumbnails, deleteThumbnails, pruneThumbnails } from './thumbnails';
+import IntegrityModal from './components/IntegrityModal';
+import RelinkModal from './components/RelinkModal';
+import { VideoLink, restoreSessionVideo, relinkSessionVideos } from './relink';
 
 const App: React.FC = () => {
   // State management
@@ -19,6 +27,7 @@ const App: React.FC = () => {
   });
 
   const [videos, setVideos] = useState<VideoFile[]>([]);
+  const [cameras, setCameras] = useState<Camera[]>(() => [createCamera([])]);
   const [videoState, setVideoState] = useState<VideoState>({
     currentTime: 0,
     currentVideoIndex: 0,
@@ -29,31 +38,39 @@ const App: React.FC = () => {
     totalDuration: 0
   });
 
-  const [eventTypes, setEventTypes] = useState<EventType[]>(() => {
-    const colors = getVideoColors();
-    return Array.from({ length: 5 }, (_, i) => ({
-      id: i + 1,
-      name: `Unnamed ${i + 1}`,
-      color: colors[i],
-      count: 0
-    }));
-  });
+  const [eventTypes, setEventTypes] = useState<EventType[]>(createDefaultEventTypes);
+  const [movements, setMovements] = useState<Movement[]>([]);
+  const [chordMode, setChordMode] = useState<boolean>(false);
+  const [chordTimeoutMs, setChordTimeoutMs] = useState<number>(2000);
+  const [pendingChord, setPendingChord] = useState<PendingChord | null>(null);
 
   const [timestamps, setTimestamps] = useState<Timestamp[]>([]);
+  const [trajectories, setTrajectories] = useState<Trajectory[]>([]);
+  const [activitySegments, setActivitySegments] = useState<ActivitySegment[]>([]); // stretches reviewed with motion fast-forward
+  const [candidates, setCandidates] = useState<CandidateEvent[]>([]); // line crossings found by the detector
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({}); // frame snapshots by timestamp id
+  const [lastMarkedTimestampId, setLastMarkedTimestampId] = useState<string | null>(null);
   const [leftPanelWidth, setLeftPanelWidth] = useState<number>(60); // percentage
   const [showNoteModal, setShowNoteModal] = useState<boolean>(false);
   const [editingTimestamp, setEditingTimestamp] = useState<Timestamp | null>(null);
   const [activeTab, setActiveTab] = useState<TabType>('video-selection');
   const [showSettingsModal, setShowSettingsModal] = useState<boolean>(false);
   const [showHelpModal, setShowHelpModal] = useState<boolean>(false);
+  const [showEventTypesModal, setShowEventTypesModal] = useState<boolean>(false);
+  const [showIntegrityModal, setShowIntegrityModal] = useState<boolean>(false);
   const [seekSeconds, setSeekSeconds] = useState<number>(1);
   const [seekSecondsShift, setSeekSecondsShift] = useState<number>(10);
-  const [expectedVideoFiles, setExpectedVideoFiles] = useState<{name: string; startTime: string; duration: number}[]>([]);
+  const [expectedVideoFiles, setExpectedVideoFiles] = useState<SessionData['videoFiles']>([]);
+  const [linkedVideoIds, setLinkedVideoIds] = useState<string[]>([]); // added files already linked to session videos
+  const [showRelinkModal, setShowRelinkModal] = useState<boolean>(false);
+  const [filenamePatterns, setFilenamePatterns] = useState<FilenamePattern[]>([]);
 
   const resizeRef = useRef<boolean>(false);
   const pressedKeysRef = useRef<Set<string>>(new Set());
   const annotationTableRef = useRef<TimestampTableRef>(null);
   const resultsTableRef = useRef<TimestampTableRef>(null);
+  // Latest save handler for the keyboard shortcut; it reads most of the state, which the key handler need not depend on
+  const saveSessionRef = useRef<() => void>(() => {});
 
   // Dark mode effect
   useEffect(() => {
@@ -61,17 +78,270 @@ const App: React.FC = () => {
     sessionStorage.setItem('darkMode', JSON.stringify(darkMode));
   }, [darkMode]);
 
+  // Create a timestamp for an event at the given playback position; returns its id
+  const addTimestamp = useCallback((eventId: number, position: PendingChord['position'], movementId?: number, point?: NormalizedPoint, speed?: SpeedMeasurement, candidateId?: string): string | undefined => {
+    const currentVideo = videos[position.currentVideoIndex];
+    if (!currentVideo) return undefined;
+
+    const eventType = eventTypes.find(e => e.id === eventId);
+    if (!eventType) return undefined;
+
+    const movement = movements.find(m => m.id === movementId);
+    const camera = cameras.find(c => c.id === currentVideo.cameraId);
+    const zone = point && camera ? findZoneAtPoint(camera.overlays, point) : undefined;
+
+    // The key is pressed a moment after the event; the raw key press time is kept for re-tuning.
+    // Speed measurements and detector candidates are set on the crossing frames themselves.
+    const reactionOffset = speed || candidateId ? 0 : Math.min(getReactionOffset(eventType, position.playbackRate), position.currentVideoTime);
+    const videoTime = position.currentVideoTime - reactionOffset;
+    const wallTime = calculateVideoDateTime(currentVideo, videoTime);
+
+    const newTimestamp: Timestamp = {
+      id: generateId(),
+      eventId,
+      eventName: eventType.name,
+      atSecondFirst: position.currentTime - reactionOffset,
+      atSecondCurrent: videoTime,
+      frameIndex: getFrameIndex(videoTime, currentVideo.frameRate),
+      rawSecondCurrent: position.currentVideoTime,
+      rawPlaybackRate: position.playbackRate,
+      timeHHMMSS: wallTime.time,
+      dateTime: wallTime.iso,
+      videoId: currentVideo.id,
+      videoName: currentVideo.name,
+      cameraId: camera?.id,
+      cameraName: camera?.name,
+      ...(point ? { point, zoneId: zone?.id, zoneName: zone?.name } : {}),
+      ...(speed ? { speed } : {}),
+      ...(candidateId ? { candidateId } : {}),
+      note: '',
+      movementId: movement?.id,
+      movementName: movement?.name,
+      ...(eventType.kind === 'interval' ? { endSecondFirst: null } : {})
+    };
+
+    setTimestamps(prev => [...prev, newTimestamp].sort((a, b) => a.atSecondFirst - b.atSecondFirst));
+    setLastMarkedTimestampId(newTimestamp.id);
+    
+    // Update event count
+    setEventTypes(prev => prev.map(e => 
+      e.id === eventId ? { ...e, count: e.count + 1 } : e
+    ));
+    return newTimestamp.id;
+  }, [videos, cameras, eventTypes, movements]);
+
+  // Close an open interval at the given playback position
+  const closeInterval = useCallback((openTimestamp: Timestamp, position: PendingChord['position']) => {
+    const currentVideo = videos[position.currentVideoIndex];
+    if (!currentVideo) return;
+
+    const eventType = eventTypes.find(e => e.id === openTimestamp.eventId);
+    const reactionOffset = Math.min(getReactionOffset(eventType, position.playbackRate), position.currentVideoTime);
+    const videoTime = position.currentVideoTime - reactionOffset;
+    const wallTime = calculateVideoDateTime(currentVideo, videoTime);
+    const boundary = {
+      second: position.currentTime - reactionOffset,
+      secondCurrent: videoTime,
+      frameIndex: getFrameIndex(videoTime, currentVideo.frameRate),
+      rawSecondCurrent: position.currentVideoTime,
+      rawPlaybackRate: position.playbackRate,
+      timeHHMMSS: wallTime.time,
+      dateTime: wallTime.iso,
+      videoId: currentVideo.id,
+      videoName: currentVideo.name
+    };
+    const start = {
+      second: openTimestamp.atSecondFirst,
+      secondCurrent: openTimestamp.atSecondCurrent,
+      frameIndex: openTimestamp.frameIndex,
+      rawSecondCurrent: openTimestamp.rawSecondCurrent,
+      rawPlaybackRate: openTimestamp.rawPlaybackRate,
+      timeHHMMSS: openTimestamp.timeHHMMSS,
+      dateTime: openTimestamp.dateTime,
+      videoId: openTimestamp.videoId,
+      videoName: openTimestamp.videoName
+    };
+    // Closing before the start (after seeking back) turns the interval around
+    const [first, last] = boundary.second < start.second ? [boundary, start] : [start, boundary];
+
+    setTimestamps(prev => prev.map(t => t.id === openTimestamp.id ? {
+      ...t,
+      atSecondFirst: first.second,
+      atSecondCurrent: first.secondCurrent,
+      frameIndex: first.frameIndex,
+      rawSecondCurrent: first.rawSecondCurrent,
+      rawPlaybackRate: first.rawPlaybackRate,
+      timeHHMMSS: first.timeHHMMSS,
+      dateTime: first.dateTime,
+      videoId: first.videoId,
+      videoName: first.videoName,
+      endSecondFirst: last.second,
+      endSecondCurrent: last.secondCurrent,
+      endFrameIndex: last.frameIndex,
+      rawEndSecondCurrent: last.rawSecondCurrent,
+      rawEndPlaybackRate: last.rawPlaybackRate,
+      endTimeHHMMSS: last.timeHHMMSS,
+      endDateTime: last.dateTime,
+      endVideoId: last.videoId
+    } : t).sort((a, b) => a.atSecondFirst - b.atSecondFirst));
+    setLastMarkedTimestampId(openTimestamp.id);
+  }, [videos, eventTypes]);
+
+  // Keep the snapshot of a newly marked event
+  const handleThumbnailCapture = useCallback((timestampId: string, dataUrl: string) => {
+    setThumbnails(prev => ({ ...prev, [timestampId]: dataUrl }));
+    saveThumbnail(timestampId, dataUrl).catch(console.error);
+  }, []);
+
+  // Snapshots of removed annotations are dropped, also from the browser storage; clearing all annotations empties it
+  useEffect(() => {
+    const timestampIds = new Set(timestamps.map(t => t.id));
+    const removedIds = Object.keys(thumbnails).filter(id => !timestampIds.has(id));
+    if (removedIds.length === 0) return;
+
+    setThumbnails(prev => Object.keys(prev).reduce((kept, id) => (
+      timestampIds.has(id) ? { ...kept, [id]: prev[id] } : kept
+    ), {} as Record<string, string>));
+    (timestamps.length === 0 ? pruneThumbnails([]) : deleteThumbnails(removedIds)).catch(console.error);
+  }, [timestamps, thumbnails]);
+
+  // Set an attribute value on a timestamp
+  const handleAttributeChange = useCallback((timestampId: string, attributeId: string, value: AttributeValue) => {
+    setTimestamps(prev => prev.map(t => 
+      t.id === timestampId ? { ...t, attributes: { ...t.attributes, [attributeId]: value } } : t
+    ));
+  }, []);
+
+  // Event marking; events marked by clicking on the video carry the clicked point
+  const handleEventMark = useCallback((eventId: number, point?: NormalizedPoint) => {
+    if (videos.length === 0) return;
+
+    const position = {
+      currentTime: videoState.currentTime,
+      currentVideoIndex: videoState.currentVideoIndex,
+      currentVideoTime: videoState.currentVideoTime,
+      playbackRate: videoState.playbackRate
+    };
+
+    // Pressing the key of an interval event a second time closes its open interval
+    const openInterval = timestamps.find(t => t.eventId === eventId && t.endSecondFirst === null);
+    if (openInterval) {
+      closeInterval(openInterval, position);
+      return;
+    }
+
+    if (chordMode && movements.length > 0) {
+      // A second event key before the movement key keeps the first event without a movement
+      if (pendingChord) {
+        addTimestamp(pendingChord.eventId, pendingChord.position, undefined, pendingChord.point);
+      }
+      setPendingChord({ eventId, position, startedAt: Date.now(), point });
+      return;
+    }
+
+    addTimestamp(eventId, position, undefined, point);
+  }, [videos, videoState, timestamps, chordMode, movements, pendingChord, addTimestamp, closeInterval]);
+
+  // Record a vehicle of a speed study at its entry crossing
+  const handleSpeedMark = useCallback((eventId: number, entry: PendingChord['position'], speed: SpeedMeasurement) => {
+    addTimestamp(eventId, entry, undefined, undefined, speed);
+  }, [addTimestamp]);
+
+  // Confirm a detector candidate as an event of the chosen class, at the crossing point
+  const handleCandidateConfirm = useCallback((candidate: CandidateEvent, eventId: number) => {
+    const position = getCandidatePosition(videos, candidate);
+    if (!position) return;
+
+    const timestampId = addTimestamp(eventId, {
+      currentTime: position.currentTime,
+      currentVideoIndex: position.videoIndex,
+      currentVideoTime: candidate.time,
+      playbackRate: 1
+    }, undefined, candidate.point, undefined, candidate.id);
+    if (!timestampId) return;
+    setCandidates(prev => prev.map((c): CandidateEvent => c.id === candidate.id ? { ...c, status: 'confirmed', eventId, timestampId } : c));
+  }, [videos, addTimestamp]);
+
+  // Take back the decision on a candidate; the event created when it was confirmed is removed again
+  const handleCandidateReopen = useCallback((candidate: CandidateEvent) => {
+    const timestamp = timestamps.find(t => t.id === candidate.timestampId);
+    if (timestamp) {
+      setTimestamps(prev => prev.filter(t => t.id !== timestamp.id));
+      setEventTypes(prev => prev.map(e => 
+        e.id === timestamp.eventId ? { ...e, count: Math.max(0, e.count - 1) } : e
+      ));
+    }
+    setCandidates(prev => prev.map((c): CandidateEvent => c.id === candidate.id ? { ...c, status: 'pending', eventId: undefined, timestampId: undefined } : c));
+  }, [timestamps]);
+
+  // Complete a pending chord with the chosen movement
+  const handleMovementMark = useCallback((movementId: number) => {
+    if (!pendingChord) return;
+    addTimestamp(pendingChord.eventId, pendingChord.position, movementId, pendingChord.point);
+    setPendingChord(null);
+  }, [pendingChord, addTimestamp]);
+
+  // Keep the event without a movement when no movement key follows in time
+  useEffect(() => {
+    if (!pendingChord) return;
+
+    const timer = setTimeout(() => {
+      addTimestamp(pendingChord.eventId, pendingChord.position, undefined, pendingChord.point);
+      setPendingChord(null);
+    }, Math.max(0, pendingChord.startedAt + chordTimeoutMs - Date.now()));
+
+    return () => clearTimeout(timer);
+  }, [pendingChord, chordTimeoutMs, addTimestamp]);
+
   // Keyboard event handlers
   const handleKeyPress = useCallback((event: KeyboardEvent) => {
     const targetTag = (event.target as HTMLElement)?.tagName?.toLowerCase();
     const targetType = (event.target as HTMLInputElement)?.type?.toLowerCase();
     
-    // Prevent key repeat for event marking keys
-    if (['1', '2', '3', '4', '5'].includes(event.key)) {
-      if (pressedKeysRef.current.has(event.key)) {
+    const hotkey = getHotkeyFromEvent(event);
+    const isTyping = (targetTag === 'input' && (targetType === 'text' || targetType === 'password' || targetType === 'email')) || targetTag === 'textarea';
+
+    // While a chord is pending, movement keys take precedence over event keys
+    if (pendingChord) {
+      if (hotkey === 'Escape') {
+        event.preventDefault();
+        setPendingChord(null);
+        return;
+      }
+
+      const hotkeyMovement = movements.find(m => m.hotkey && m.hotkey === hotkey);
+      if (hotkeyMovement && !isTyping) {
+        if (pressedKeysRef.current.has(event.code)) {
+          return;
+        }
+        pressedKeysRef.current.add(event.code);
+        event.preventDefault();
+        handleMovementMark(hotkeyMovement.id);
+        return;
+      }
+    }
+
+    // Attribute hotkeys set values on the last marked event
+    const lastMarked = timestamps.find(t => t.id === lastMarkedTimestampId);
+    const lastMarkedEventType = lastMarked && eventTypes.find(e => e.id === lastMarked.eventId);
+    if (lastMarked && lastMarkedEventType && activeTab === 'annotation' && !isTyping) {
+      for (const attribute of lastMarkedEventType.attributes) {
+        const value = getAttributeHotkeyValue(attribute, hotkey, lastMarked.attributes?.[attribute.id]);
+        if (value !== undefined) {
+          event.preventDefault();
+          handleAttributeChange(lastMarked.id, attribute.id, value);
+          return;
+        }
+      }
+    }
+
+    const hotkeyEventType = eventTypes.find(e => e.hotkey && e.hotkey === hotkey);
+    if (hotkeyEventType) {
+      // Prevent key repeat for event marking keys
+      if (pressedKeysRef.current.has(event.code)) {
         return; // Key is already pressed, ignore repeat
       }
-      pressedKeysRef.current.add(event.key);
+      pressedKeysRef.current.add(event.code);
       
       // Only work in annotation tab
       if (activeTab !== 'annotation') {
@@ -86,29 +356,7 @@ const App: React.FC = () => {
         return;
       }
       event.preventDefault();
-      // Inline event marking logic
-      if (videos.length === 0) return;
-      const currentVideo = videos[videoState.currentVideoIndex];
-      if (!currentVideo) return;
-      const eventType = eventTypes.find(e => e.id === parseInt(event.key));
-      if (!eventType) return;
-
-      const newTimestamp = {
-        id: Math.random().toString(36).substr(2, 9),
-        eventId: parseInt(event.key),
-        eventName: eventType.name,
-        atSecondFirst: videoState.currentTime,
-        atSecondCurrent: videoState.currentVideoTime,
-        timeHHMMSS: calculateRealWorldTime(videos, videoState.currentTime),
-        videoId: currentVideo.id,
-        videoName: currentVideo.name,
-        note: ''
-      };
-
-      setTimestamps(prev => [...prev, newTimestamp].sort((a, b) => a.atSecondFirst - b.atSecondFirst));
-      setEventTypes(prev => prev.map(e => 
-        e.id === parseInt(event.key) ? { ...e, count: e.count + 1 } : e
-      ));
+      handleEventMark(hotkeyEventType.id);
       return;
     }
 
@@ -143,7 +391,7 @@ const App: React.FC = () => {
       case 's':
       case 'S':
         event.preventDefault();
-        handleSaveSession();
+        saveSessionRef.current();
         break;
       case 'a':
       case 'A':
@@ -242,6 +490,14 @@ const App: React.FC = () => {
         const newTimeRight = Math.max(0, Math.min(videoState.totalDuration, videoState.currentTime + seekAmountRight));
         setVideoState(prev => ({ ...prev, currentTime: newTimeRight, isPlaying: false }));
         break;
+      case ',':
+      case '.':
+        // Only work in annotation tab - step one frame backward/forward
+        if (activeTab !== 'annotation') return;
+        event.preventDefault();
+        const newTimeFrame = getFrameStepTime(videos, videoState, event.key === ',' ? -1 : 1);
+        setVideoState(prev => ({ ...prev, currentTime: newTimeFrame, isPlaying: false }));
+        break;
       case 'Backspace':
         // Only work in annotation tab
         if (activeTab !== 'annotation') return;
@@ -260,13 +516,11 @@ const App: React.FC = () => {
         }
         break;
     }
-  }, [videoState, seekSeconds, seekSecondsShift, videos, eventTypes, timestamps, activeTab]);
+  }, [videos, videoState, seekSeconds, seekSecondsShift, eventTypes, movements, pendingChord, timestamps, lastMarkedTimestampId, activeTab, handleEventMark, handleMovementMark, handleAttributeChange]);
 
   // Handle key up to clear pressed keys
   const handleKeyUp = useCallback((event: KeyboardEvent) => {
-    if (['1', '2', '3', '4', '5'].includes(event.key)) {
-      pressedKeysRef.current.delete(event.key);
-    }
+    pressedKeysRef.current.delete(event.code);
   }, []);
 
   useEffect(() => {
@@ -282,7 +536,7 @@ const App: React.FC = () => {
   useEffect(() => {
     const handleBeforeUnload = (event: BeforeUnloadEvent) => {
       // Only show warning if there's progress that could be lost
-      const hasProgress = videos.length > 0 || timestamps.length > 0;
+      const hasProgress = videos.length > 0 || timestamps.length > 0 || trajectories.length > 0;
       
       if (hasProgress) {
         // Standard way to trigger browser warning dialog
@@ -297,37 +551,7 @@ const App: React.FC = () => {
     return () => {
       window.removeEventListener('beforeunload', handleBeforeUnload);
     };
-  }, [videos, timestamps]);
-
-  // Event marking
-  const handleEventMark = (eventId: number) => {
-    if (videos.length === 0) return;
-
-    const currentVideo = videos[videoState.currentVideoIndex];
-    if (!currentVideo) return;
-
-    const eventType = eventTypes.find(e => e.id === eventId);
-    if (!eventType) return;
-
-    const newTimestamp: Timestamp = {
-      id: generateId(),
-      eventId,
-      eventName: eventType.name,
-      atSecondFirst: videoState.currentTime,
-      atSecondCurrent: videoState.currentVideoTime,
-      timeHHMMSS: calculateRealWorldTime(videos, videoState.currentTime),
-      videoId: currentVideo.id,
-      videoName: currentVideo.name,
-      note: ''
-    };
-
-    setTimestamps(prev => [...prev, newTimestamp].sort((a, b) => a.atSecondFirst - b.atSecondFirst));
-    
-    // Update event count
-    setEventTypes(prev => prev.map(e => 
-      e.id === eventId ? { ...e, count: e.count + 1 } : e
-    ));
-  };
+  }, [videos, timestamps, trajectories]);
 
   // Save session
   const handleSaveSession = () => {
@@ -346,14 +570,23 @@ const App: React.FC = () => {
     const sessionData = createSessionData(
       darkMode,
       eventTypes,
+      movements,
+      chordMode,
+      chordTimeoutMs,
       timestamps,
       leftPanelWidth,
       seekSeconds,
       seekSecondsShift,
-      videos
+      videos,
+      cameras,
+      trajectories,
+      filenamePatterns,
+      activitySegments,
+      candidates
     );
     exportSessionData(sessionData, filename);
   };
+  saveSessionRef.current = handleSaveSession;
 
   // Load session
   const handleLoadSession = (sessionData: SessionData) => {
@@ -361,10 +594,27 @@ const App: React.FC = () => {
       // Update all state from session data
       setDarkMode(sessionData.darkMode);
       setEventTypes(sessionData.eventTypes);
+      setMovements(sessionData.movements || []);
+      setChordMode(sessionData.chordMode || false);
+      setChordTimeoutMs(sessionData.chordTimeoutMs || 2000);
+      setPendingChord(null);
       setTimestamps(sessionData.timestamps);
+      setTrajectories(sessionData.trajectories || []);
+      setActivitySegments(sessionData.activitySegments || []);
+      setCandidates(sessionData.candidates || []);
+      // Snapshots are not part of the session file; they are restored if this browser took them, and those of other sessions are dropped
+      const timestampIds = sessionData.timestamps.map(t => t.id);
+      setThumbnails({});
+      pruneThumbnails(timestampIds)
+        .then(() => loadThumbnails(timestampIds))
+        .then(loaded => setThumbnails(prev => ({ ...loaded, ...prev })))
+        .catch(console.error);
+      setLastMarkedTimestampId(null);
       setLeftPanelWidth(sessionData.leftPanelWidth || 60);
       setSeekSeconds(sessionData.seekSeconds || 1);
       setSeekSecondsShift(sessionData.seekSecondsShift || 10);
+      setCameras(sessionData.cameras || [createCamera([])]);
+      setFilenamePatterns(sessionData.filenamePatterns || []);
       
       // Clear current videos (user will need to re-add them)
       setVideos([]);
@@ -382,26 +632,110 @@ const App: React.FC = () => {
       if (sessionData.videoFiles.length > 0) {
         setExpectedVideoFiles(sessionData.videoFiles);
       }
+      setLinkedVideoIds([]);
+
+      // Report inconsistencies in the loaded data
+      const content = {
+        eventTypes: sessionData.eventTypes,
+        movements: sessionData.movements || [],
+        timestamps: sessionData.timestamps,
+        trajectories: sessionData.trajectories || [],
+        activitySegments: sessionData.activitySegments || [],
+        candidates: sessionData.candidates || []
+      };
+      if (checkSessionIntegrity(content, []).length > 0) {
+        setShowIntegrityModal(true);
+      }
     } catch (error) {
       console.error('Error loading session:', error);
       alert('Failed to load session data. Please try again with a valid session file.');
     }
   };
 
-  // Check if current videos match expected files
+  // Repair all inconsistencies found by the integrity checker
+  const handleRepairSession = () => {
+    const repaired = repairSessionIntegrity({ eventTypes, movements, timestamps, trajectories, activitySegments, candidates }, videos);
+    setEventTypes(repaired.eventTypes);
+    setMovements(repaired.movements);
+    setTimestamps(repaired.timestamps);
+    setTrajectories(repaired.trajectories);
+    setActivitySegments(repaired.activitySegments);
+    setCandidates(repaired.candidates);
+  };
+
+  // Update the clock anchors of a video and recompute the wall times of its annotations
+  const handleClockAnchorsChange = (videoId: string, clockAnchors: ClockAnchor[]) => {
+    const updatedVideos = videos.map(v => v.id === videoId ? { ...v, clockAnchors } : v);
+    setVideos(updatedVideos);
+    setTimestamps(prev => recalculateTimestampTimes(updatedVideos, prev));
+    setTrajectories(prev => recalculateTrajectoryTimes(updatedVideos, prev));
+  };
+
+  // Update the cameras; sync offsets move their videos on the timeline, names are copied to annotations
+  const handleCamerasChange = (updatedCameras: Camera[]) => {
+    const updatedVideos = videos.map(v => ({ ...v, syncOffset: updatedCameras.find(c => c.id === v.cameraId)?.syncOffset || 0 }));
+    setCameras(updatedCameras);
+    setVideos(updatedVideos);
+    setVideoState(prev => ({ ...prev, totalDuration: calculateTotalDuration(updatedVideos) }));
+    setTimestamps(prev => recalculateTimestampTimes(updatedVideos, prev).map(t => {
+      const camera = updatedCameras.find(c => c.id === t.cameraId);
+      return camera ? { ...t, cameraName: camera.name } : t;
+    }));
+    setTrajectories(prev => recalculateTrajectoryTimes(updatedVideos, prev).map(t => {
+      const camera = updatedCameras.find(c => c.id === t.cameraId);
+      return camera ? { ...t, cameraName: camera.name } : t;
+    }));
+  };
+
+  // Apply a count template (only offered while there are no annotations)
+  const handleApplyTemplate = (template: CountTemplate) => {
+    setEventTypes(getTemplateEventTypes(template));
+    setMovements(template.movements);
+    setChordMode(template.chordMode);
+    // Templates without filename patterns keep the current ones
+    if (template.filenamePatterns && template.filenamePatterns.length > 0) {
+      setFilenamePatterns(template.filenamePatterns);
+    }
+    setPendingChord(null);
+    setLastMarkedTimestampId(null);
+  };
+
+  // Offer to link the added files to the session's videos once as many files as expected have been added
   const checkExpectedVideos = (currentVideos: VideoFile[]) => {
-    if (expectedVideoFiles.length === 0) return;
-    
-    // Check if all expected videos are present in the right order
-    if (currentVideos.length >= expectedVideoFiles.length) {
-      const allMatch = expectedVideoFiles.every((expected, index) => {
-        const current = currentVideos[index];
-        return current && current.name === expected.name;
-      });
-      
-      if (allMatch) {
-        setExpectedVideoFiles([]); // Clear expected files when they match
-      }
+    if (expectedVideoFiles.length === 0 || currentVideos.length <= videos.length) return;
+
+    const unlinkedCount = currentVideos.filter(v => !linkedVideoIds.includes(v.id)).length;
+    if (unlinkedCount >= expectedVideoFiles.length) {
+      setShowRelinkModal(true);
+    }
+  };
+
+  // Added files not linked to a session video yet; kept stable so the relink dialog keeps its assignments
+  const unlinkedVideos = useMemo(() => videos.filter(v => !linkedVideoIds.includes(v.id)), [videos, linkedVideoIds]);
+
+  // Give the linked files the camera and start of their session video and move everything that referred to it
+  const handleRelinkVideos = (links: VideoLink[]) => {
+    const updatedVideos = videos.map(v => {
+      const link = links.find(l => l.video.id === v.id);
+      return link ? restoreSessionVideo(v, link.sessionVideo, cameras) : v;
+    });
+    const relinked = relinkSessionVideos({ timestamps, trajectories, activitySegments, candidates }, links);
+    const updatedTimestamps = recalculateTimestampTimes(updatedVideos, relinked.timestamps);
+    const remainingVideoFiles = expectedVideoFiles.filter(f => !links.some(l => l.sessionVideo === f));
+
+    setVideos(updatedVideos);
+    setVideoState(prev => ({ ...prev, totalDuration: calculateTotalDuration(updatedVideos) }));
+    setTimestamps(updatedTimestamps);
+    setTrajectories(recalculateTrajectoryTimes(updatedVideos, relinked.trajectories));
+    setActivitySegments(relinked.activitySegments);
+    setCandidates(relinked.candidates);
+    setLinkedVideoIds(prev => [...prev, ...links.map(l => l.video.id)]);
+    setExpectedVideoFiles(remainingVideoFiles);
+    setShowRelinkModal(false);
+
+    // Annotations of session videos that were not linked are reported once all are done
+    if (remainingVideoFiles.length === 0 && checkSessionIntegrity({ ...relinked, eventTypes, movements, timestamps: updatedTimestamps }, updatedVideos).length > 0) {
+      setShowIntegrityModal(true);
     }
   };
 
@@ -444,10 +778,22 @@ const App: React.FC = () => {
                 checkExpectedVideos(newVideos);
               }}
               onVideoStateChange={setVideoState}
+              cameras={cameras}
+              onCamerasChange={handleCamerasChange}
               timestamps={timestamps}
               onTimestampsChange={setTimestamps}
+              trajectories={trajectories}
+              onTrajectoriesChange={setTrajectories}
               onLoadSession={handleLoadSession}
               expectedVideoFiles={expectedVideoFiles}
+              eventTypes={eventTypes}
+              movements={movements}
+              chordMode={chordMode}
+              onApplyTemplate={handleApplyTemplate}
+              onClockAnchorsChange={handleClockAnchorsChange}
+              filenamePatterns={filenamePatterns}
+              onFilenamePatternsChange={setFilenamePatterns}
+              onRelinkVideos={() => setShowRelinkModal(true)}
             />
           </Container>
         );
@@ -459,13 +805,35 @@ const App: React.FC = () => {
               <Col style={{ width: `${leftPanelWidth}%`, maxWidth: `${leftPanelWidth}%` }}>
                 <VideoPlayer
                   videos={videos}
+                  cameras={cameras}
+                  onCamerasChange={handleCamerasChange}
                   videoState={videoState}
                   onVideoStateChange={setVideoState}
                   eventTypes={eventTypes}
                   onEventTypesChange={setEventTypes}
                   onEventMark={handleEventMark}
+                  movements={movements}
+                  chordMode={chordMode}
+                  chordTimeoutMs={chordTimeoutMs}
+                  pendingChord={pendingChord}
+                  onMovementMark={handleMovementMark}
+                  lastMarkedTimestamp={timestamps.find(t => t.id === lastMarkedTimestampId)}
+                  onAttributeChange={handleAttributeChange}
+                  onEditEventTypes={() => setShowEventTypesModal(true)}
+                  onClockAnchorsChange={handleClockAnchorsChange}
                   timestamps={timestamps}
                   onTimestampsChange={setTimestamps}
+                  trajectories={trajectories}
+                  onTrajectoriesChange={setTrajectories}
+                  onSpeedMark={handleSpeedMark}
+                  thumbnails={thumbnails}
+                  onThumbnailCapture={handleThumbnailCapture}
+                  activitySegments={activitySegments}
+                  onActivitySegmentsChange={setActivitySegments}
+                  candidates={candidates}
+                  onCandidatesChange={setCandidates}
+                  onCandidateConfirm={handleCandidateConfirm}
+                  onCandidateReopen={handleCandidateReopen}
                 />
               </Col>
               
@@ -480,8 +848,10 @@ const App: React.FC = () => {
                   ref={annotationTableRef}
                   timestamps={timestamps}
                   onTimestampsChange={setTimestamps}
+                  thumbnails={thumbnails}
                   eventTypes={eventTypes}
                   onEventTypesChange={setEventTypes}
+                  movements={movements}
                   currentTime={videoState.currentTime}
                   onSeekTo={(time: number) => {
                     setVideoState(prev => ({ ...prev, currentTime: time }));
@@ -504,8 +874,10 @@ const App: React.FC = () => {
               ref={resultsTableRef}
               timestamps={timestamps}
               onTimestampsChange={setTimestamps}
+              thumbnails={thumbnails}
               eventTypes={eventTypes}
               onEventTypesChange={setEventTypes}
+              movements={movements}
               currentTime={videoState.currentTime}
               onSeekTo={(time: number) => {
                 setVideoState(prev => ({ ...prev, currentTime: time }));
@@ -517,6 +889,17 @@ const App: React.FC = () => {
               }}
               isFullscreen={true}
             />
+            {trajectories.length > 0 && (
+              <TrajectoryTable
+                trajectories={trajectories}
+                onTrajectoriesChange={setTrajectories}
+                eventTypes={eventTypes}
+                onSeekTo={(time: number) => {
+                  setVideoState(prev => ({ ...prev, currentTime: time }));
+                  setActiveTab('annotation');
+                }}
+              />
+            )}
           </Container>
         );
       
@@ -524,7 +907,9 @@ const App: React.FC = () => {
         return (
           <Analysis
             timestamps={timestamps}
+            cameras={cameras}
             eventTypes={eventTypes}
+            movements={movements}
             videoState={videoState}
           />
         );
@@ -543,6 +928,8 @@ const App: React.FC = () => {
         onTabChange={setActiveTab}
         onShowSettings={() => setShowSettingsModal(true)}
         onShowHelp={() => setShowHelpModal(true)}
+        onShowEventTypes={() => setShowEventTypesModal(true)}
+        onShowIntegrity={() => setShowIntegrityModal(true)}
         onSaveSession={handleSaveSession}
       />
       
@@ -573,11 +960,52 @@ const App: React.FC = () => {
         seekSecondsShift={seekSecondsShift}
         onSeekSecondsChange={setSeekSeconds}
         onSeekSecondsShiftChange={setSeekSecondsShift}
+        chordMode={chordMode}
+        chordTimeoutMs={chordTimeoutMs}
+        onChordModeChange={setChordMode}
+        onChordTimeoutMsChange={setChordTimeoutMs}
       />
 
       <HelpModal
         show={showHelpModal}
         onHide={() => setShowHelpModal(false)}
+        eventTypes={eventTypes}
+        movements={movements}
+        chordMode={chordMode}
+      />
+
+      <EventTypesModal
+        show={showEventTypesModal}
+        onHide={() => setShowEventTypesModal(false)}
+        eventTypes={eventTypes}
+        onEventTypesChange={setEventTypes}
+        movements={movements}
+        onMovementsChange={setMovements}
+        timestamps={timestamps}
+        onTimestampsChange={setTimestamps}
+        videos={videos}
+        candidates={candidates}
+        onCandidatesChange={setCandidates}
+        trajectories={trajectories}
+        onTrajectoriesChange={setTrajectories}
+        cameras={cameras}
+        onCamerasChange={handleCamerasChange}
+      />
+
+      <IntegrityModal
+        show={showIntegrityModal}
+        onHide={() => setShowIntegrityModal(false)}
+        issues={showIntegrityModal ? checkSessionIntegrity({ eventTypes, movements, timestamps, trajectories, activitySegments, candidates }, videos) : []}
+        onRepair={handleRepairSession}
+      />
+
+      <RelinkModal
+        show={showRelinkModal}
+        onHide={() => setShowRelinkModal(false)}
+        sessionVideos={expectedVideoFiles}
+        videos={unlinkedVideos}
+        timestamps={timestamps}
+        onRelink={handleRelinkVideos}
       />
     </div>
   );
@@ -0,0 +1,113 @@
+import React from 'react';
+import { Button, Form } from 'react-bootstrap';
+import { Camera } from '../types';
+import { formatTime } from '../utils';
+
+interface ActivityPanelProps {
+  camera: Camera;
+  regionId: string; // zone watched for motion, '' for the whole frame
+  onRegionIdChange: (regionId: string) => void;
+  normalRate: number;
+  onNormalRateChange: (rate: number) => void;
+  idleRate: number;
+  onIdleRateChange: (rate: number) => void;
+  sensitivity: number; // percent of the region's pixels that must change
+  onSensitivityChange: (sensitivity: number) => void;
+  motionActive: boolean | null; // null until the first frames are compared
+  skippedCount: number;
+  skippedSeconds: number;
+  onNextSkipped: () => void;
+  onClearSegments: () => void;
+  onClose: () => void;
+}
+
+const renderNumberInput = (value: number, min: number, max: number, step: number, onChange: (value: number) => void, title: string) => (
+  <Form.Control
+    key={value}
+    type="number"
+    size="sm"
+    min={min}
+    max={max}
+    step={step}
+    defaultValue={value}
+    onBlur={(e: React.FocusEvent<HTMLInputElement>) => {
+      const number = Number(e.target.value);
+      if (number >= min && number <= max) onChange(number);
+      else e.target.value = `${value}`;
+    }}
+    onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+      if (e.key === 'Enter') e.currentTarget.blur();
+    }}
+    style={{ width: '70px' }}
+    title={title}
+  />
+);
+
+const ActivityPanel: React.FC<ActivityPanelProps> = ({
+  camera,
+  regionId,
+  onRegionIdChange,
+  normalRate,
+  onNormalRateChange,
+  idleRate,
+  onIdleRateChange,
+  sensitivity,
+  onSensitivityChange,
+  motionActive,
+  skippedCount,
+  skippedSeconds,
+  onNextSkipped,
+  onClearSegments,
+  onClose
+}) => {
+  const zones = camera.overlays.filter(s => s.kind === 'zone');
+
+  return (
+    <div className="overlay-editor mb-2 p-2 border rounded">
+      <div className="d-flex flex-wrap align-items-center gap-1 mb-1">
+        <small className="text-muted me-1"><strong>Motion fast-forward in {camera.name}:</strong></small>
+        <Form.Select
+          size="sm"
+          className="w-auto py-0"
+          value={regionId}
+          onChange={(e: React.ChangeEvent<HTMLSelectElement>) => onRegionIdChange(e.target.value)}
+          title="Region watched for motion; draw zones with 📐 Overlays"
+        >
+          <option value="">Whole frame</option>
+          {zones.map(zone => (
+            <option key={zone.id} value={zone.id}>{zone.name}</option>
+          ))}
+        </Form.Select>
+        <small className="text-muted ms-2">Motion</small>
+        {renderNumberInput(normalRate, 0.1, 4, 0.1, onNormalRateChange, 'Playback speed while there is motion in the region')}
+        <small className="text-muted">x, idle</small>
+        {renderNumberInput(idleRate, 1, 16, 1, onIdleRateChange, 'Playback speed while the region is idle')}
+        <small className="text-muted">x, sensitivity</small>
+        {renderNumberInput(sensitivity, 0.05, 20, 0.05, onSensitivityChange, 'Share of the region that must change between samples to count as motion')}
+        <small className="text-muted">%</small>
+        <Button size="sm" variant="outline-secondary" className="py-0 ms-auto" onClick={onClose}>
+          Done
+        </Button>
+      </div>
+
+      <div className="d-flex flex-wrap align-items-center gap-1">
+        <small className="me-2">
+          {motionActive === null ? 'Play the video to start watching the region for motion.'
+            : motionActive ? <><strong className="text-success">● Motion</strong> – playing at {normalRate}x</>
+            : <><strong className="text-info">● Idle</strong> – fast-forwarding at {idleRate}x</>}
+        </small>
+        <small className="text-muted ms-auto">
+          Fast-forwarded: {skippedCount} stretch(es), {formatTime(skippedSeconds)}
+        </small>
+        <Button size="sm" variant="outline-secondary" className="py-0" onClick={onNextSkipped} disabled={skippedCount === 0} title="Go to the next fast-forwarded stretch to check it">
+          ⏭️ Next skipped
+        </Button>
+        <Button size="sm" variant="outline-danger" className="py-0" onClick={onClearSegments} title="Forget the recorded idle and motion stretches">
+          🗑️
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ActivityPanel;
@@ -1,13 +1,23 @@
 import React, { useState, useMemo } from 'react';
 import { Container, Row, Col, Card, Form, Table, Alert } from 'react-bootstrap';
-import { Timestamp, EventType, VideoState } from '../types';
+import { Timestamp, EventType, Movement, VideoState, Camera } from '../types';
+import { calculateIntervalCoverage, formatAttributeValue, parseTime } from '../utils';
+import SpatialAnalysis from './SpatialAnalysis';
+import SpeedAnalysis from './SpeedAnalysis';
 
 interface AnalysisProps {
   timestamps: Timestamp[];
   eventTypes: EventType[];
+  movements: Movement[];
   videoState: VideoState;
+  cameras: Camera[];
 }
 
+type BreakdownType = 'event' | 'movement' | 'both';
+
+// Elapsed time on the timeline, calendar days, or time of day aggregated over all days
+type HistogramBinning = 'timeline' | 'day' | 'time-of-day';
+
 interface HistogramBin {
   startTime: number;
   endTime: number;
@@ -15,16 +25,25 @@ interface HistogramBin {
   label: string;
 }
 
-const Analysis: React.FC<AnalysisProps> = ({ timestamps, eventTypes, videoState }) => {
+const Analysis: React.FC<AnalysisProps> = ({ timestamps, eventTypes, movements, videoState, cameras }) => {
   // Simple Counter state
   const [timeRangeStart, setTimeRangeStart] = useState<number>(0);
   const [timeRangeEnd, setTimeRangeEnd] = useState<number>(videoState.totalDuration || 0);
+  const [breakdown, setBreakdown] = useState<BreakdownType>('event');
   
   // Histogram state
   const [histogramTimeStart, setHistogramTimeStart] = useState<number>(0);
   const [histogramTimeEnd, setHistogramTimeEnd] = useState<number>(videoState.totalDuration || 0);
   const [binSizeMinutes, setBinSizeMinutes] = useState<number>(5);
-  const [selectedEventId, setSelectedEventId] = useState<number>(1);
+  const [selectedEventId, setSelectedEventId] = useState<number>(eventTypes[0]?.id ?? 1);
+  const [selectedMovementId, setSelectedMovementId] = useState<string>('all');
+  const [histogramBinning, setHistogramBinning] = useState<HistogramBinning>('timeline');
+
+  // Attribute breakdown state
+  const [attributeEventId, setAttributeEventId] = useState<number | null>(null);
+  const [breakdownAttributeId, setBreakdownAttributeId] = useState<string>('');
+  const [filterAttributeId, setFilterAttributeId] = useState<string>('');
+  const [filterValue, setFilterValue] = useState<string>('');
 
   // Update range ends when total duration changes
   React.useEffect(() => {
@@ -34,45 +53,175 @@ const Analysis: React.FC<AnalysisProps> = ({ timestamps, eventTypes, videoState
     }
   }, [videoState.totalDuration]);
 
+  // Fall back to the first event type if the selected one was removed
+  React.useEffect(() => {
+    if (eventTypes.length > 0 && !eventTypes.some(e => e.id === selectedEventId)) {
+      setSelectedEventId(eventTypes[0].id);
+    }
+  }, [eventTypes, selectedEventId]);
+
   // Simple Counter calculations
-  const simpleCounterData = useMemo(() => {
-    const filteredTimestamps = timestamps.filter(
-      t => t.atSecondFirst >= timeRangeStart && t.atSecondFirst <= timeRangeEnd
-    );
+  const rangeTimestamps = useMemo(() => timestamps.filter(
+    t => t.atSecondFirst >= timeRangeStart && t.atSecondFirst <= timeRangeEnd
+  ), [timestamps, timeRangeStart, timeRangeEnd]);
 
+  const simpleCounterData = useMemo(() => {
     return eventTypes.map(eventType => {
-      const count = filteredTimestamps.filter(t => t.eventId === eventType.id).length;
+      const count = rangeTimestamps.filter(t => t.eventId === eventType.id).length;
       return {
         ...eventType,
         count
       };
     });
+  }, [rangeTimestamps, eventTypes]);
+
+  // Movement rows include timestamps recorded without a movement
+  const movementRows = useMemo(() => [
+    ...movements.map(movement => ({ id: movement.id as number | undefined, name: movement.name, color: movement.color })),
+    { id: undefined, name: 'No movement', color: '#6c757d' }
+  ], [movements]);
+
+  const movementCounterData = useMemo(() => {
+    return movementRows.map(row => ({
+      ...row,
+      count: rangeTimestamps.filter(t => t.movementId === row.id).length
+    }));
+  }, [rangeTimestamps, movementRows]);
+
+  // Interval events: total (overlap-free) time and share of the Simple Counter range
+  const intervalCoverageData = useMemo(() => {
+    const rangeDuration = timeRangeEnd - timeRangeStart;
+
+    return eventTypes.filter(e => e.kind === 'interval').map(eventType => {
+      const intervals = timestamps.filter(t => t.eventId === eventType.id && t.endSecondFirst !== undefined);
+      const closedIntervals = intervals
+        .filter(t => typeof t.endSecondFirst === 'number')
+        .map(t => [t.atSecondFirst, t.endSecondFirst as number] as [number, number]);
+      const totalTime = calculateIntervalCoverage(closedIntervals, timeRangeStart, timeRangeEnd);
+
+      return {
+        ...eventType,
+        intervalCount: closedIntervals.filter(([start, end]) => end > timeRangeStart && start < timeRangeEnd).length,
+        openCount: intervals.filter(t => t.endSecondFirst === null).length,
+        totalTime,
+        percentage: rangeDuration > 0 ? (totalTime / rangeDuration) * 100 : 0
+      };
+    });
   }, [timestamps, eventTypes, timeRangeStart, timeRangeEnd]);
 
+  // Attribute breakdown calculations (within the Simple Counter range)
+  const attributeEventTypes = eventTypes.filter(e => e.attributes.length > 0);
+  const attributeEventType = attributeEventTypes.find(e => e.id === attributeEventId) || attributeEventTypes[0];
+  const breakdownAttribute = attributeEventType?.attributes.find(a => a.id === breakdownAttributeId) || attributeEventType?.attributes[0];
+  const filterAttribute = attributeEventType?.attributes.find(a => a.id === filterAttributeId);
+
+  // Possible values of an attribute: the defined choices plus every recorded value, '-' if not set
+  const getAttributeValues = (attributeId: string): string[] => {
+    const attribute = attributeEventType?.attributes.find(a => a.id === attributeId);
+    if (!attribute || !attributeEventType) return [];
+
+    const recorded = timestamps
+      .filter(t => t.eventId === attributeEventType.id)
+      .map(t => formatAttributeValue(t.attributes?.[attribute.id]));
+    const defined = attribute.type === 'enum' ? attribute.options.map(o => o.value) : attribute.type === 'boolean' ? ['yes', 'no'] : [];
+    const extra = recorded
+      .filter((value, index) => !defined.includes(value) && recorded.indexOf(value) === index)
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+
+    return [...defined, ...extra];
+  };
+
+  const getAttributeBreakdownData = () => {
+    if (!attributeEventType || !breakdownAttribute) return [];
+
+    const filtered = rangeTimestamps.filter(t => 
+      t.eventId === attributeEventType.id &&
+      (!filterAttribute || formatAttributeValue(t.attributes?.[filterAttribute.id]) === filterValue)
+    );
+
+    return getAttributeValues(breakdownAttribute.id).map(value => {
+      const count = filtered.filter(t => formatAttributeValue(t.attributes?.[breakdownAttribute.id]) === value).length;
+      return {
+        value,
+        count,
+        percentage: filtered.length > 0 ? (count / filtered.length) * 100 : 0
+      };
+    });
+  };
+
+  const countByEventAndMovement = (eventId: number, movementId?: number) => {
+    return rangeTimestamps.filter(t => t.eventId === eventId && t.movementId === movementId).length;
+  };
+
   // Histogram calculations
   const histogramData = useMemo(() => {
     const binSizeSeconds = binSizeMinutes * 60;
-    const timeRange = histogramTimeEnd - histogramTimeStart;
-    const numBins = Math.ceil(timeRange / binSizeSeconds);
+    const formatTime = (totalSeconds: number) => {
+      const hours = Math.floor(totalSeconds / 3600);
+      const minutes = Math.floor((totalSeconds % 3600) / 60);
+      const seconds = Math.floor(totalSeconds % 60);
+      return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+    };
+
+    // All binning modes only count events within the selected range
+    const selectedTimestamps = timestamps.filter(
+      t => t.eventId === selectedEventId && 
+           (selectedMovementId === 'all' || `${t.movementId ?? ''}` === selectedMovementId) &&
+           t.atSecondFirst >= histogramTimeStart &&
+           t.atSecondFirst < histogramTimeEnd
+    );
     
     const bins: HistogramBin[] = [];
+
+    if (histogramBinning === 'day') {
+      // One bin per calendar day, in the local time of the recording
+      const days = selectedTimestamps
+        .filter(t => t.dateTime)
+        .map(t => t.dateTime.slice(0, 10))
+        .filter((day, index, all) => all.indexOf(day) === index)
+        .sort();
+      days.forEach((day, i) => {
+        bins.push({
+          startTime: i,
+          endTime: i + 1,
+          count: selectedTimestamps.filter(t => t.dateTime.startsWith(day)).length,
+          label: day
+        });
+      });
+      return bins;
+    }
+
+    if (histogramBinning === 'time-of-day') {
+      // Bins over 00:00-24:00 summing up all days, e.g. to compare peak hours
+      const numBins = Math.ceil(86400 / binSizeSeconds);
+      for (let i = 0; i < numBins; i++) {
+        const startTime = i * binSizeSeconds;
+        const endTime = Math.min((i + 1) * binSizeSeconds, 86400);
+        bins.push({
+          startTime,
+          endTime,
+          count: selectedTimestamps.filter(t => {
+            if (!t.dateTime) return false;
+            const timeOfDay = parseTime(t.dateTime.slice(11, 19));
+            return timeOfDay >= startTime && timeOfDay < endTime;
+          }).length,
+          label: `${formatTime(startTime)} - ${formatTime(endTime)}`
+        });
+      }
+      return bins;
+    }
+
+    const timeRange = histogramTimeEnd - histogramTimeStart;
+    const numBins = Math.ceil(timeRange / binSizeSeconds);
     
     for (let i = 0; i < numBins; i++) {
       const startTime = histogramTimeStart + (i * binSizeSeconds);
       const endTime = Math.min(histogramTimeStart + ((i + 1) * binSizeSeconds), histogramTimeEnd);
       
-      const formatTime = (totalSeconds: number) => {
-        const hours = Math.floor(totalSeconds / 3600);
-        const minutes = Math.floor((totalSeconds % 3600) / 60);
-        const seconds = Math.floor(totalSeconds % 60);
-        return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
-      };
-      
       const label = `${formatTime(startTime)} - ${formatTime(endTime)}`;
       
-      const count = timestamps.filter(
-        t => t.eventId === selectedEventId && 
-             t.atSecondFirst >= startTime && 
+      const count = selectedTimestamps.filter(
+        t => t.atSecondFirst >= startTime && 
              t.atSecondFirst < endTime
       ).length;
       
@@ -85,7 +234,7 @@ const Analysis: React.FC<AnalysisProps> = ({ timestamps, eventTypes, videoState
     }
     
     return bins;
-  }, [timestamps, histogramTimeStart, histogramTimeEnd, binSizeMinutes, selectedEventId]);
+  }, [timestamps, histogramTimeStart, histogramTimeEnd, binSizeMinutes, selectedEventId, selectedMovementId, histogramBinning]);
 
   const maxHistogramCount = Math.max(...histogramData.map(bin => bin.count), 1);
   const selectedEvent = eventTypes.find(e => e.id === selectedEventId);
@@ -151,30 +300,112 @@ const Analysis: React.FC<AnalysisProps> = ({ timestamps, eventTypes, videoState
                     />
                   </Col>
                 </Row>
+                {movements.length > 0 && (
+                  <Row className="g-3 mt-0">
+                    <Col>
+                      <Form.Label>Break Down By</Form.Label>
+                      <Form.Select
+                        value={breakdown}
+                        onChange={(e) => setBreakdown(e.target.value as BreakdownType)}
+                      >
+                        <option value="event">Event type</option>
+                        <option value="movement">Movement</option>
+                        <option value="both">Event type × Movement</option>
+                      </Form.Select>
+                    </Col>
+                  </Row>
+                )}
               </Form>
 
-              <Table striped bordered hover size="sm">
-                <thead>
-                  <tr>
-                    <th>Event</th>
-                    <th>Count</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {simpleCounterData.map(event => (
-                    <tr key={event.id}>
-                      <td>
-                        <span style={{ color: event.color, fontWeight: 'bold' }}>
-                          {event.name}
-                        </span>
-                      </td>
-                      <td>
-                        <strong>{event.count}</strong>
-                      </td>
+              {(breakdown === 'event' || movements.length === 0) && (
+                <Table striped bordered hover size="sm">
+                  <thead>
+                    <tr>
+                      <th>Event</th>
+                      <th>Count</th>
                     </tr>
-                  ))}
-                </tbody>
-              </Table>
+                  </thead>
+                  <tbody>
+                    {simpleCounterData.map(event => (
+                      <tr key={event.id}>
+                        <td>
+                          <span style={{ color: event.color, fontWeight: 'bold' }}>
+                            {event.name}
+                          </span>
+                        </td>
+                        <td>
+                          <strong>{event.count}</strong>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </Table>
+              )}
+
+              {breakdown === 'movement' && movements.length > 0 && (
+                <Table striped bordered hover size="sm">
+                  <thead>
+                    <tr>
+                      <th>Movement</th>
+                      <th>Count</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {movementCounterData.map(movement => (
+                      <tr key={movement.id ?? 'none'}>
+                        <td>
+                          <span style={{ color: movement.color, fontWeight: 'bold' }}>
+                            {movement.name}
+                          </span>
+                        </td>
+                        <td>
+                          <strong>{movement.count}</strong>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </Table>
+              )}
+
+              {breakdown === 'both' && movements.length > 0 && (
+                <div style={{ overflowX: 'auto' }}>
+                  <Table striped bordered hover size="sm">
+                    <thead>
+                      <tr>
+                        <th>Event \ Movement</th>
+                        {movementRows.map(movement => (
+                          <th key={movement.id ?? 'none'} style={{ color: movement.color }}>{movement.name}</th>
+                        ))}
+                        <th>Total</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {simpleCounterData.map(event => (
+                        <tr key={event.id}>
+                          <td>
+                            <span style={{ color: event.color, fontWeight: 'bold' }}>
+                              {event.name}
+                            </span>
+                          </td>
+                          {movementRows.map(movement => (
+                            <td key={movement.id ?? 'none'}>{countByEventAndMovement(event.id, movement.id)}</td>
+                          ))}
+                          <td>
+                            <strong>{event.count}</strong>
+                          </td>
+                        </tr>
+                      ))}
+                      <tr>
+                        <td><strong>Total</strong></td>
+                        {movementCounterData.map(movement => (
+                          <td key={movement.id ?? 'none'}><strong>{movement.count}</strong></td>
+                        ))}
+                        <td><strong>{rangeTimestamps.length}</strong></td>
+                      </tr>
+                    </tbody>
+                  </Table>
+                </div>
+              )}
 
               <div className="mt-3">
                 <small className="text-muted">
@@ -224,6 +455,17 @@ const Analysis: React.FC<AnalysisProps> = ({ timestamps, eventTypes, videoState
                       }}
                     />
                   </Col>
+                  <Col md={6}>
+                    <Form.Label>Bin By</Form.Label>
+                    <Form.Select
+                      value={histogramBinning}
+                      onChange={(e) => setHistogramBinning(e.target.value as HistogramBinning)}
+                    >
+                      <option value="timeline">Elapsed time</option>
+                      <option value="day">Calendar day</option>
+                      <option value="time-of-day">Time of day (all days)</option>
+                    </Form.Select>
+                  </Col>
                   <Col md={6}>
                     <Form.Label>Bin Size (minutes)</Form.Label>
                     <Form.Control
@@ -232,6 +474,7 @@ const Analysis: React.FC<AnalysisProps> = ({ timestamps, eventTypes, videoState
                       max={60}
                       value={binSizeMinutes}
                       onChange={(e) => setBinSizeMinutes(Number(e.target.value))}
+                      disabled={histogramBinning === 'day'}
                     />
                   </Col>
                   <Col md={6}>
@@ -247,6 +490,23 @@ const Analysis: React.FC<AnalysisProps> = ({ timestamps, eventTypes, videoState
                       ))}
                     </Form.Select>
                   </Col>
+                  {movements.length > 0 && (
+                    <Col md={6}>
+                      <Form.Label>Movement</Form.Label>
+                      <Form.Select
+                        value={selectedMovementId}
+                        onChange={(e) => setSelectedMovementId(e.target.value)}
+                      >
+                        <option value="all">All movements</option>
+                        {movements.map(movement => (
+                          <option key={movement.id} value={movement.id}>
+                            {movement.name}
+                          </option>
+                        ))}
+                        <option value="">No movement</option>
+                      </Form.Select>
+                    </Col>
+                  )}
                 </Row>
               </Form>
 
@@ -376,7 +636,7 @@ const Analysis: React.FC<AnalysisProps> = ({ timestamps, eventTypes, videoState
                 <Table striped bordered hover size="sm">
                   <thead>
                     <tr>
-                      <th>Time Range</th>
+                      <th>{histogramBinning === 'day' ? 'Day' : 'Time Range'}</th>
                       <th>Count</th>
                     </tr>
                   </thead>
@@ -404,6 +664,184 @@ const Analysis: React.FC<AnalysisProps> = ({ timestamps, eventTypes, videoState
             </Card.Body>
           </Card>
         </Col>
+
+        {/* Attribute breakdown */}
+        {attributeEventType && breakdownAttribute && (
+          <Col lg={6}>
+            <Card>
+              <Card.Header>
+                <h5 className="mb-0">🏷️ Attribute Breakdown</h5>
+              </Card.Header>
+              <Card.Body>
+                <Form className="mb-3">
+                  <Row className="g-3">
+                    <Col md={6}>
+                      <Form.Label>Event Type</Form.Label>
+                      <Form.Select
+                        value={attributeEventType.id}
+                        onChange={(e) => {
+                          setAttributeEventId(Number(e.target.value));
+                          setBreakdownAttributeId('');
+                          setFilterAttributeId('');
+                        }}
+                      >
+                        {attributeEventTypes.map(event => (
+                          <option key={event.id} value={event.id}>
+                            {event.name}
+                          </option>
+                        ))}
+                      </Form.Select>
+                    </Col>
+                    <Col md={6}>
+                      <Form.Label>Break Down By</Form.Label>
+                      <Form.Select
+                        value={breakdownAttribute.id}
+                        onChange={(e) => setBreakdownAttributeId(e.target.value)}
+                      >
+                        {attributeEventType.attributes.map(attribute => (
+                          <option key={attribute.id} value={attribute.id}>
+                            {attribute.name}
+                          </option>
+                        ))}
+                      </Form.Select>
+                    </Col>
+                    <Col md={6}>
+                      <Form.Label>Filter</Form.Label>
+                      <Form.Select
+                        value={filterAttributeId}
+                        onChange={(e) => {
+                          setFilterAttributeId(e.target.value);
+                          setFilterValue(getAttributeValues(e.target.value)[0] || '');
+                        }}
+                      >
+                        <option value="">No filter</option>
+                        {attributeEventType.attributes.map(attribute => (
+                          <option key={attribute.id} value={attribute.id}>
+                            {attribute.name}
+                          </option>
+                        ))}
+                      </Form.Select>
+                    </Col>
+                    {filterAttribute && (
+                      <Col md={6}>
+                        <Form.Label>{filterAttribute.name} =</Form.Label>
+                        <Form.Select
+                          value={filterValue}
+                          onChange={(e) => setFilterValue(e.target.value)}
+                        >
+                          {getAttributeValues(filterAttribute.id).map(value => (
+                            <option key={value} value={value}>
+                              {value}
+                            </option>
+                          ))}
+                        </Form.Select>
+                      </Col>
+                    )}
+                  </Row>
+                </Form>
+
+                <Table striped bordered hover size="sm">
+                  <thead>
+                    <tr>
+                      <th>{breakdownAttribute.name}</th>
+                      <th>Count</th>
+                      <th>Share</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {getAttributeBreakdownData().map(row => (
+                      <tr key={row.value}>
+                        <td>{row.value}</td>
+                        <td>
+                          <strong>{row.count}</strong>
+                        </td>
+                        <td>{row.percentage.toFixed(1)}%</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </Table>
+
+                <small className="text-muted">
+                  Uses the Simple Counter time range. "-" means the attribute was not set.
+                </small>
+              </Card.Body>
+            </Card>
+          </Col>
+        )}
+
+        {/* Interval time */}
+        {intervalCoverageData.length > 0 && (
+          <Col lg={6}>
+            <Card>
+              <Card.Header>
+                <h5 className="mb-0">⏱️ Interval Time</h5>
+              </Card.Header>
+              <Card.Body>
+                <p className="small text-muted">
+                  Total time covered by interval events within the Simple Counter time range
+                  ({formatTimeForSlider(timeRangeStart)} - {formatTimeForSlider(timeRangeEnd)}). Overlapping intervals are counted once.
+                </p>
+                <Table striped bordered hover size="sm">
+                  <thead>
+                    <tr>
+                      <th>Event</th>
+                      <th>Intervals</th>
+                      <th>Total Time</th>
+                      <th>% of Time</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {intervalCoverageData.map(event => (
+                      <tr key={event.id}>
+                        <td>
+                          <span style={{ color: event.color, fontWeight: 'bold' }}>
+                            {event.name}
+                          </span>
+                        </td>
+                        <td>
+                          {event.intervalCount}
+                          {event.openCount > 0 && <small className="text-muted"> (+{event.openCount} open, not counted)</small>}
+                        </td>
+                        <td>{formatTimeForSlider(event.totalTime)}</td>
+                        <td>
+                          <strong>{event.percentage.toFixed(1)}%</strong>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </Table>
+              </Card.Body>
+            </Card>
+          </Col>
+        )}
+
+        {/* Spot speeds */}
+        {timestamps.some(t => t.speed) && (
+          <Col lg={6}>
+            <Card>
+              <Card.Header>
+                <h5 className="mb-0">🚗 Spot Speed</h5>
+              </Card.Header>
+              <Card.Body>
+                <SpeedAnalysis timestamps={rangeTimestamps} eventTypes={eventTypes} />
+              </Card.Body>
+            </Card>
+          </Col>
+        )}
+
+        {/* Spatial distribution */}
+        {timestamps.some(t => t.point) && (
+          <Col lg={6}>
+            <Card>
+              <Card.Header>
+                <h5 className="mb-0">🎯 Spatial Distribution</h5>
+              </Card.Header>
+              <Card.Body>
+                <SpatialAnalysis timestamps={rangeTimestamps} eventTypes={eventTypes} cameras={cameras} />
+              </Card.Body>
+            </Card>
+          </Col>
+        )}
       </Row>
     </Container>
   );
@@ -0,0 +1,148 @@
+import React from 'react';
+import { Button, Form, Row, Col } from 'react-bootstrap';
+import { AttributeDefinition, AttributeType, EventType } from '../types';
+import { createAttribute, getAttributeHotkeys } from '../utils';
+import HotkeyInput from './HotkeyInput';
+
+interface AttributeEditorProps {
+  eventType: EventType;
+  onAttributesChange: (attributes: AttributeDefinition[]) => void;
+  bindings: { name: string; hotkey: string }[]; // event type hotkeys
+  onError: (error: string) => void;
+}
+
+const AttributeEditor: React.FC<AttributeEditorProps> = ({ eventType, onAttributesChange, bindings, onError }) => {
+  const { attributes } = eventType;
+
+  const updateAttribute = (attributeId: string, changes: Partial<AttributeDefinition>) => {
+    onAttributesChange(attributes.map(a => a.id === attributeId ? { ...a, ...changes } : a));
+  };
+
+  // Hotkeys must be unique among the event type hotkeys and the other attribute hotkeys of this event type
+  const getBindings = (ownHotkey: string) => [
+    ...bindings,
+    ...getAttributeHotkeys(eventType).filter(b => b.hotkey !== ownHotkey)
+  ];
+
+  return (
+    <div className="ps-4">
+      {attributes.map(attribute => (
+        <div key={attribute.id} className="mb-2 p-2 border rounded">
+          <Row className="g-2 align-items-center">
+            <Col>
+              <Form.Control
+                type="text"
+                size="sm"
+                value={attribute.name}
+                onChange={(e) => updateAttribute(attribute.id, { name: e.target.value })}
+                placeholder="Attribute name"
+              />
+            </Col>
+            <Col xs="auto">
+              <Form.Select
+                size="sm"
+                value={attribute.type}
+                onChange={(e) => updateAttribute(attribute.id, { type: e.target.value as AttributeType })}
+              >
+                <option value="enum">Choice</option>
+                <option value="number">Number</option>
+                <option value="boolean">Yes/No</option>
+                <option value="text">Text</option>
+              </Form.Select>
+            </Col>
+            <Col xs="auto" style={{ width: '140px' }}>
+              {(attribute.type === 'boolean' || attribute.type === 'number') && (
+                <HotkeyInput
+                  value={attribute.hotkey}
+                  onChange={(hotkey) => updateAttribute(attribute.id, { hotkey })}
+                  bindings={getBindings(attribute.hotkey)}
+                  onError={onError}
+                />
+              )}
+            </Col>
+            <Col xs="auto">
+              <Button
+                variant="outline-danger"
+                size="sm"
+                onClick={() => onAttributesChange(attributes.filter(a => a.id !== attribute.id))}
+                title="Remove attribute"
+              >
+                🗑️
+              </Button>
+            </Col>
+          </Row>
+
+          {attribute.type === 'enum' && (
+            <div className="mt-2">
+              {attribute.options.map((option, index) => (
+                <Row key={index} className="g-2 mb-1 align-items-center">
+                  <Col>
+                    <Form.Control
+                      type="text"
+                      size="sm"
+                      value={option.value}
+                      onChange={(e) => updateAttribute(attribute.id, {
+                        options: attribute.options.map((o, i) => i === index ? { ...o, value: e.target.value } : o)
+                      })}
+                      placeholder="Value"
+                    />
+                  </Col>
+                  <Col xs="auto" style={{ width: '140px' }}>
+                    <HotkeyInput
+                      value={option.hotkey}
+                      onChange={(hotkey) => updateAttribute(attribute.id, {
+                        options: attribute.options.map((o, i) => i === index ? { ...o, hotkey } : o)
+                      })}
+                      bindings={getBindings(option.hotkey)}
+                      onError={onError}
+                    />
+                  </Col>
+                  <Col xs="auto">
+                    <Button
+                      variant="outline-secondary"
+                      size="sm"
+                      onClick={() => updateAttribute(attribute.id, {
+                        options: attribute.options.filter((_, i) => i !== index)
+                      })}
+                      title="Remove value"
+                    >
+                      ✕
+                    </Button>
+                  </Col>
+                </Row>
+              ))}
+              <Button
+                variant="link"
+                size="sm"
+                className="p-0"
+                onClick={() => updateAttribute(attribute.id, {
+                  options: [...attribute.options, { value: `${attribute.options.length + 1}`, hotkey: '' }]
+                })}
+              >
+                + Add value
+              </Button>
+            </div>
+          )}
+
+          <Form.Text className="text-muted">
+            {attribute.type === 'enum' && 'The hotkey of a value sets it on the last marked event.'}
+            {attribute.type === 'number' && 'The hotkey increments the value of the last marked event.'}
+            {attribute.type === 'boolean' && 'The hotkey toggles the value of the last marked event.'}
+            {attribute.type === 'text' && 'Text values are edited in the results table.'}
+          </Form.Text>
+        </div>
+      ))}
+
+      <Button
+        variant="outline-primary"
+        size="sm"
+        className="mb-2"
+        onClick={() => onAttributesChange([...attributes, createAttribute(attributes)])}
+      >
+        ➕ Add Attribute
+      </Button>
+    </div>
+  );
+};
+
+export default AttributeEditor;
@@ -0,0 +1,114 @@
+import React from 'react';
+import { Button, Form, Row, Col } from 'react-bootstrap';
+import { Camera, VideoFile } from '../types';
+import { createCamera } from '../utils';
+
+interface CameraListProps {
+  cameras: Camera[];
+  videos: VideoFile[];
+  onCamerasChange: (cameras: Camera[]) => void;
+  onError: (error: string) => void;
+}
+
+const CameraList: React.FC<CameraListProps> = ({ cameras, videos, onCamerasChange, onError }) => {
+  const updateCamera = (cameraId: string, changes: Partial<Camera>) => {
+    onCamerasChange(cameras.map(c => c.id === cameraId ? { ...c, ...changes } : c));
+  };
+
+  const handleNameChange = (camera: Camera, value: string) => {
+    const name = value.trim();
+    if (!name) {
+      onError('Camera name cannot be empty.');
+      return;
+    }
+    if (name !== camera.name) {
+      updateCamera(camera.id, { name });
+    }
+  };
+
+  const handleSyncOffsetChange = (camera: Camera, value: string) => {
+    const syncOffset = Number(value);
+    if (value.trim() === '' || isNaN(syncOffset)) {
+      onError(`Invalid sync offset "${value}". Please enter a number of seconds.`);
+      return;
+    }
+    if (syncOffset !== camera.syncOffset) {
+      updateCamera(camera.id, { syncOffset });
+    }
+  };
+
+  const handleRemoveCamera = (camera: Camera) => {
+    if (videos.some(v => v.cameraId === camera.id)) {
+      onError(`Cannot remove ${camera.name}: it still has videos. Please move or remove its videos first.`);
+      return;
+    }
+    onCamerasChange(cameras.filter(c => c.id !== camera.id));
+  };
+
+  return (
+    <div className="mb-4 p-3 border rounded">
+      <h6 className="mb-2">🎥 Cameras</h6>
+      {cameras.map(camera => (
+        <Row key={camera.id} className="g-2 align-items-center mb-1">
+          <Col xs="auto">
+            <span style={{ color: camera.color, fontSize: '1.2em' }}>●</span>
+          </Col>
+          <Col md={4}>
+            <Form.Control
+              key={camera.name}
+              type="text"
+              size="sm"
+              defaultValue={camera.name}
+              onBlur={(e: React.FocusEvent<HTMLInputElement>) => handleNameChange(camera, e.target.value)}
+              onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+                if (e.key === 'Enter') e.currentTarget.blur();
+              }}
+              title="Camera name"
+            />
+          </Col>
+          <Col xs="auto" className="d-flex align-items-center gap-1">
+            <small className="text-muted">Sync offset</small>
+            <Form.Control
+              key={camera.syncOffset}
+              type="number"
+              size="sm"
+              step={0.1}
+              defaultValue={camera.syncOffset}
+              onBlur={(e: React.FocusEvent<HTMLInputElement>) => handleSyncOffsetChange(camera, e.target.value)}
+              onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+                if (e.key === 'Enter') e.currentTarget.blur();
+              }}
+              style={{ width: '90px' }}
+              title="Seconds added to the wall-clock times of this camera's videos to line them up with the other cameras"
+            />
+            <small className="text-muted">s</small>
+          </Col>
+          <Col xs="auto">
+            <small className="text-muted">{videos.filter(v => v.cameraId === camera.id).length} video(s)</small>
+          </Col>
+          <Col xs="auto">
+            <Button
+              variant="outline-danger"
+              size="sm"
+              onClick={() => handleRemoveCamera(camera)}
+              disabled={cameras.length <= 1}
+            >
+              Remove
+            </Button>
+          </Col>
+        </Row>
+      ))}
+      <Button variant="outline-secondary" size="sm" className="mt-1" onClick={() => onCamerasChange([...cameras, createCamera(cameras)])}>
+        + Add camera
+      </Button>
+      {cameras.length > 1 && (
+        <small className="text-muted d-block mt-2">
+          Videos of different cameras play side by side in multi-view. Use the sync offset to line up a camera whose clock is off;
+          marked events record the camera view they were marked in.
+        </small>
+      )}
+    </div>
+  );
+};
+
+export default CameraList;
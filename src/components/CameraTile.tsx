@@ -0,0 +1,78 @@
+import React, { useRef, useEffect } from 'react';
+import { Camera, VideoFile } from '../types';
+import { findCameraVideoAtTime, getFrameIndex, getFrameTime } from '../utils';
+import VideoOverlay from './VideoOverlay';
+
+interface CameraTileProps {
+  camera: Camera;
+  videos: VideoFile[];
+  currentTime: number;
+  isPlaying: boolean;
+  playbackRate: number;
+  showOverlays: boolean;
+  onSelect: () => void;
+}
+
+// A muted view of one camera that follows the main player on the shared wall-clock timeline
+const CameraTile: React.FC<CameraTileProps> = ({ camera, videos, currentTime, isPlaying, playbackRate, showOverlays, onSelect }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const position = findCameraVideoAtTime(videos, camera.id, currentTime);
+  const currentVideo = position ? videos[position.videoIndex] : undefined;
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !currentVideo || !position) return;
+
+    // Switch video source when the camera moves on to its next video
+    if (video.dataset.videoId !== currentVideo.id) {
+      video.dataset.videoId = currentVideo.id;
+      video.src = currentVideo.url;
+      video.load();
+    }
+
+    // Only correct noticeable drift, so playing tiles are not seeked on every time update; paused tiles show the exact frame
+    const frameIndex = getFrameIndex(position.videoTime, currentVideo.frameRate);
+    const isPaused = !isPlaying && video.paused;
+    if (Math.abs(video.currentTime - position.videoTime) > 0.3 || (isPaused && getFrameIndex(video.currentTime, currentVideo.frameRate) !== frameIndex)) {
+      video.currentTime = getFrameTime(frameIndex, currentVideo.frameRate);
+    }
+
+    if (isPlaying && video.paused) {
+      video.play().catch(console.error);
+    } else if (!isPlaying && !video.paused) {
+      video.pause();
+    }
+
+    video.playbackRate = playbackRate;
+  }, [currentVideo, position, isPlaying, playbackRate]);
+
+  return (
+    <div
+      className="camera-tile"
+      style={{ borderColor: camera.color }}
+      onClick={onSelect}
+      title={currentVideo ? `Switch to ${camera.name}` : `${camera.name} has no video at this time`}
+    >
+      <div className="camera-tile-label" style={{ backgroundColor: camera.color }}>
+        {camera.name}
+      </div>
+      <video
+        ref={videoRef}
+        width="100%"
+        muted
+        style={{ display: currentVideo ? 'block' : 'none' }}
+        onLoadedMetadata={() => {
+          if (videoRef.current && position) {
+            videoRef.current.currentTime = position.videoTime;
+          }
+        }}
+      />
+      {currentVideo && showOverlays && <VideoOverlay videoRef={videoRef} shapes={camera.overlays} />}
+      {!currentVideo && (
+        <div className="camera-tile-empty text-muted small">No video at this time</div>
+      )}
+    </div>
+  );
+};
+
+export default CameraTile;
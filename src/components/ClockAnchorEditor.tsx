@@ -0,0 +1,119 @@
+import React from 'react';
+import { Button, Form, Row, Col } from 'react-bootstrap';
+import { ClockAnchor, VideoFile } from '../types';
+import { generateId, formatTime, parseTime, getClockCorrection, getVideoStartEpoch } from '../utils';
+
+interface ClockAnchorEditorProps {
+  video: VideoFile;
+  onClockAnchorsChange: (clockAnchors: ClockAnchor[]) => void;
+  onError: (error: string) => void;
+}
+
+const ClockAnchorEditor: React.FC<ClockAnchorEditorProps> = ({ video, onClockAnchorsChange, onError }) => {
+  const anchors = video.clockAnchors || [];
+  const correction = getClockCorrection(video);
+
+  const updateAnchor = (anchorId: string, changes: Partial<ClockAnchor>) => {
+    onClockAnchorsChange(anchors.map(a => a.id === anchorId ? { ...a, ...changes } : a));
+  };
+
+  const handleVideoTimeChange = (anchor: ClockAnchor, value: string) => {
+    const videoSecond = /^\d{2}:\d{2}:\d{2}$/.test(value) ? parseTime(value) : Number(value);
+    if (isNaN(videoSecond) || videoSecond < 0 || videoSecond > video.duration) {
+      onError(`Invalid video time "${value}". Please use HH:MM:SS or seconds within the video.`);
+      return;
+    }
+    if (videoSecond !== anchor.videoSecond) {
+      updateAnchor(anchor.id, { videoSecond });
+    }
+  };
+
+  const handleClockTimeChange = (anchor: ClockAnchor, value: string) => {
+    if (!/^\d{2}:\d{2}:\d{2}$/.test(value)) {
+      onError(`Invalid clock reading "${value}". Please use the HH:MM:SS format.`);
+      return;
+    }
+    if (value !== anchor.clockTime) {
+      updateAnchor(anchor.id, { clockTime: value });
+    }
+  };
+
+  const handleAdd = () => {
+    // Default to the end of the video, where drift is largest
+    const videoSecond = anchors.length === 0 ? 0 : Math.floor(video.duration);
+    const clockTime = formatTime((parseTime(video.startTime) + videoSecond) % 86400);
+    onClockAnchorsChange([...anchors, { id: generateId(), videoSecond, clockTime }]);
+  };
+
+  const commitOnEnter = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') e.currentTarget.blur();
+  };
+
+  return (
+    <div className="ps-4 pt-2">
+      {anchors.map(anchor => (
+        <Row key={anchor.id} className="g-2 mb-1 align-items-center">
+          <Col xs="auto">
+            <small className="text-muted">At video time</small>
+          </Col>
+          <Col xs="auto">
+            <Form.Control
+              key={anchor.videoSecond}
+              type="text"
+              size="sm"
+              defaultValue={formatTime(anchor.videoSecond)}
+              onBlur={(e: React.FocusEvent<HTMLInputElement>) => handleVideoTimeChange(anchor, e.target.value)}
+              onKeyDown={commitOnEnter}
+              style={{ width: '100px' }}
+              title="Position in the video (HH:MM:SS or seconds)"
+            />
+          </Col>
+          <Col xs="auto">
+            <small className="text-muted">the clock read</small>
+          </Col>
+          <Col xs="auto">
+            <Form.Control
+              key={anchor.clockTime}
+              type="text"
+              size="sm"
+              defaultValue={anchor.clockTime}
+              onBlur={(e: React.FocusEvent<HTMLInputElement>) => handleClockTimeChange(anchor, e.target.value)}
+              onKeyDown={commitOnEnter}
+              style={{ width: '100px' }}
+              title="Real time at this position (HH:MM:SS), e.g. read off the burned-in OSD"
+            />
+          </Col>
+          <Col xs="auto">
+            <Button
+              variant="outline-secondary"
+              size="sm"
+              onClick={() => onClockAnchorsChange(anchors.filter(a => a.id !== anchor.id))}
+              title="Remove anchor"
+            >
+              ✕
+            </Button>
+          </Col>
+        </Row>
+      ))}
+
+      <div className="d-flex align-items-center gap-3">
+        <Button variant="link" size="sm" className="p-0" onClick={handleAdd}>
+          + Add clock anchor
+        </Button>
+        {correction && (
+          <small className="text-muted">
+            Start corrected by {(correction.intercept - getVideoStartEpoch(video)).toFixed(1)}s
+            {anchors.length > 1 && <>, drift {((correction.slope - 1) * 3600).toFixed(1)}s per hour</>}
+          </small>
+        )}
+      </div>
+      {anchors.length === 1 && (
+        <Form.Text className="text-muted d-block">
+          Add a second anchor, ideally near the end of the video, to correct clock drift as well.
+        </Form.Text>
+      )}
+    </div>
+  );
+};
+
+export default ClockAnchorEditor;
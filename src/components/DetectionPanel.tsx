@@ -0,0 +1,242 @@
+import React from 'react';
+import { Button, Form, ProgressBar, Table } from 'react-bootstrap';
+import { Camera, CandidateEvent, EventType } from '../types';
+import { getCandidateReport } from '../utils';
+
+interface DetectionPanelProps {
+  camera: Camera;
+  eventTypes: EventType[]; // point event types; candidates cannot be confirmed as intervals
+  lineId: string | null;
+  onLineIdChange: (lineId: string) => void;
+  samplesPerSecond: number;
+  onSamplesPerSecondChange: (samplesPerSecond: number) => void;
+  minBlobPercent: number; // smallest moving blob followed, in percent of the frame area
+  onMinBlobPercentChange: (minBlobPercent: number) => void;
+  scanProgress: number | null; // share of the video scanned, null when not scanning
+  lastScanCount: number | null; // crossings found by the last scan
+  onScan: () => void;
+  onCancelScan: () => void;
+  candidates: CandidateEvent[]; // this camera's candidates
+  reviewing: boolean;
+  reviewCandidate?: CandidateEvent;
+  reviewCandidateTime: string; // wall time of the reviewed candidate
+  onStartReview: () => void;
+  onStopReview: () => void;
+  onConfirm: (eventId: number) => void;
+  onReject: () => void;
+  onSkip: () => void;
+  onUndo: () => void;
+  canUndo: boolean;
+  onClearPending: () => void;
+  onClose: () => void;
+}
+
+const formatPrecision = (precision: number | null): string => precision === null ? '-' : `${(precision * 100).toFixed(1)}%`;
+
+const DetectionPanel: React.FC<DetectionPanelProps> = ({
+  camera,
+  eventTypes,
+  lineId,
+  onLineIdChange,
+  samplesPerSecond,
+  onSamplesPerSecondChange,
+  minBlobPercent,
+  onMinBlobPercentChange,
+  scanProgress,
+  lastScanCount,
+  onScan,
+  onCancelScan,
+  candidates,
+  reviewing,
+  reviewCandidate,
+  reviewCandidateTime,
+  onStartReview,
+  onStopReview,
+  onConfirm,
+  onReject,
+  onSkip,
+  onUndo,
+  canUndo,
+  onClearPending,
+  onClose
+}) => {
+  const lines = camera.overlays.filter(s => s.kind === 'line');
+  const pendingCount = candidates.filter(c => c.status === 'pending').length;
+  const report = getCandidateReport(candidates);
+  const total = getCandidateReport(candidates.map(c => ({ ...c, lineId: '', lineName: 'All lines' })))[0];
+  const suggestedEventType = reviewCandidate ? eventTypes.find(e => e.id === reviewCandidate.suggestedEventId) : undefined;
+  const isScanning = scanProgress !== null;
+
+  return (
+    <div className="overlay-editor mb-2 p-2 border rounded">
+      <div className="d-flex flex-wrap align-items-center gap-1 mb-1">
+        <small className="text-muted me-1"><strong>Line-crossing detection in {camera.name}:</strong></small>
+        <Form.Select
+          size="sm"
+          className="w-auto py-0"
+          value={lineId ?? ''}
+          onChange={(e: React.ChangeEvent<HTMLSelectElement>) => onLineIdChange(e.target.value)}
+          disabled={isScanning}
+          title="Count line the detector watches; the first event type linked to it is suggested"
+        >
+          {lines.length === 0 && <option value="">No lines – draw one with 📐 Overlays</option>}
+          {lines.map(line => (
+            <option key={line.id} value={line.id}>{line.name}</option>
+          ))}
+        </Form.Select>
+        <Form.Select
+          size="sm"
+          className="w-auto py-0"
+          value={samplesPerSecond}
+          onChange={(e: React.ChangeEvent<HTMLSelectElement>) => onSamplesPerSecondChange(Number(e.target.value))}
+          disabled={isScanning}
+          title="Frames looked at per second of video; more finds fast vehicles more reliably but scans slower"
+        >
+          {[2, 5, 10].map(rate => (
+            <option key={rate} value={rate}>{rate} frames/s</option>
+          ))}
+        </Form.Select>
+        <small className="text-muted ms-1">Min. size</small>
+        <Form.Control
+          key={minBlobPercent}
+          type="number"
+          size="sm"
+          min={0.01}
+          max={10}
+          step={0.05}
+          defaultValue={minBlobPercent}
+          disabled={isScanning}
+          onBlur={(e: React.FocusEvent<HTMLInputElement>) => {
+            const number = Number(e.target.value);
+            if (number >= 0.01 && number <= 10) onMinBlobPercentChange(number);
+            else e.target.value = `${minBlobPercent}`;
+          }}
+          onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+            if (e.key === 'Enter') e.currentTarget.blur();
+          }}
+          style={{ width: '70px' }}
+          title="Smallest moving blob followed, in percent of the frame; raise it to ignore pedestrians and noise"
+        />
+        <small className="text-muted">%</small>
+        {isScanning ? (
+          <Button size="sm" variant="outline-danger" className="py-0" onClick={onCancelScan}>
+            Stop
+          </Button>
+        ) : (
+          <Button size="sm" variant="outline-primary" className="py-0" onClick={onScan} disabled={!lineId} title="Scan the current video in the background; the video is not sent anywhere">
+            🔍 Scan video
+          </Button>
+        )}
+        <Button size="sm" variant="outline-secondary" className="py-0 ms-auto" onClick={onClose}>
+          Done
+        </Button>
+      </div>
+
+      {isScanning && (
+        <ProgressBar now={scanProgress * 100} label={`${Math.round(scanProgress * 100)}%`} className="mb-1" />
+      )}
+      {!isScanning && lastScanCount !== null && (
+        <small className="text-muted d-block mb-1">Last scan: {lastScanCount} crossing(s) found.</small>
+      )}
+
+      <div className="d-flex flex-wrap align-items-center gap-1 mb-1">
+        {reviewing && reviewCandidate ? (
+          <>
+            <small className="me-2">
+              <strong>{reviewCandidateTime}</strong> at {reviewCandidate.lineName}, crossing to the {reviewCandidate.direction === 1 ? 'right' : 'left'}
+              {suggestedEventType && <> – suggested <strong style={{ color: suggestedEventType.color }}>{suggestedEventType.name}</strong></>}
+            </small>
+            <Button size="sm" variant="success" className="py-0" onClick={() => suggestedEventType && onConfirm(suggestedEventType.id)} disabled={!suggestedEventType} title="Confirm as suggested (Enter)">
+              ✓ Confirm
+            </Button>
+            {eventTypes.map(eventType => (
+              <Button
+                key={eventType.id}
+                size="sm"
+                variant="outline-secondary"
+                className="py-0 px-1"
+                style={{ borderColor: eventType.color }}
+                onClick={() => onConfirm(eventType.id)}
+                title={`Confirm as ${eventType.name}${eventType.hotkey ? ` (${eventType.hotkey})` : ''}`}
+              >
+                {eventType.name}{eventType.hotkey && <small className="opacity-75"> [{eventType.hotkey}]</small>}
+              </Button>
+            ))}
+            <Button size="sm" variant="outline-danger" className="py-0" onClick={onReject} title="Not a vehicle crossing (Delete or Backspace)">
+              ✗ Reject
+            </Button>
+            <Button size="sm" variant="outline-secondary" className="py-0" onClick={onSkip} title="Decide later (↓)">
+              ⏭️ Skip
+            </Button>
+          </>
+        ) : (
+          <small className="text-muted me-2">
+            {pendingCount > 0 ? `${pendingCount} candidate(s) waiting for review.` : 'No candidates waiting for review.'}
+          </small>
+        )}
+        <Button size="sm" variant="outline-secondary" className="py-0" onClick={onUndo} disabled={!canUndo} title="Take back the last decision (Ctrl+Z)">
+          ↩️ Undo
+        </Button>
+        {reviewing ? (
+          <Button size="sm" variant="outline-secondary" className="py-0 ms-auto" onClick={onStopReview} title="Stop reviewing (Esc)">
+            Stop review
+          </Button>
+        ) : (
+          <Button size="sm" variant="primary" className="py-0 ms-auto" onClick={onStartReview} disabled={pendingCount === 0}>
+            ▶️ Review
+          </Button>
+        )}
+        <Button size="sm" variant="outline-danger" className="py-0" onClick={onClearPending} disabled={pendingCount === 0} title="Remove the candidates not reviewed yet">
+          🗑️
+        </Button>
+      </div>
+      {reviewing && (
+        <small className="text-muted d-block mb-1">
+          Enter: confirm as suggested | Point event hotkeys: confirm as that class (interval hotkeys are ignored) | Delete/Backspace: reject | ↓: skip | Ctrl+Z: undo | Esc: stop | Space, j/l, ,/.: check the crossing
+        </small>
+      )}
+
+      {report.length > 0 && (
+        <Table size="sm" className="mb-0 mt-1">
+          <thead>
+            <tr>
+              <th>Line</th>
+              <th>Detected</th>
+              <th>Confirmed</th>
+              <th>Reclassified</th>
+              <th>Rejected</th>
+              <th>Pending</th>
+              <th title="Confirmed share of the decided candidates">Precision</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.map(row => (
+              <tr key={row.lineId}>
+                <td>{row.lineName}</td>
+                <td>{row.detected}</td>
+                <td>{row.confirmed}</td>
+                <td>{row.reclassified}</td>
+                <td>{row.rejected}</td>
+                <td>{row.pending}</td>
+                <td>{formatPrecision(row.precision)}</td>
+              </tr>
+            ))}
+            {report.length > 1 && total && (
+              <tr className="fw-bold">
+                <td>{total.lineName}</td>
+                <td>{total.detected}</td>
+                <td>{total.confirmed}</td>
+                <td>{total.reclassified}</td>
+                <td>{total.rejected}</td>
+                <td>{total.pending}</td>
+                <td>{formatPrecision(total.precision)}</td>
+              </tr>
+            )}
+          </tbody>
+        </Table>
+      )}
+    </div>
+  );
+};
+
+export default DetectionPanel;
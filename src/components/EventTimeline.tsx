@@ -0,0 +1,281 @@
+import React, { useRef, useEffect, useState } from 'react';
+import { Button, ButtonGroup } from 'react-bootstrap';
+import { VideoFile, Timestamp, EventType } from '../types';
+import { calculateRealWorldTime, formatTime, getTimelineSegments, getTimelineGaps, getTimelineOverlaps } from '../utils';
+
+interface EventTimelineProps {
+  videos: VideoFile[];
+  timestamps: Timestamp[];
+  eventTypes: EventType[];
+  currentTime: number;
+  totalDuration: number;
+  isPlaying: boolean;
+  onSeek: (time: number) => void;
+  activityRanges?: { start: number; end: number; active: boolean }[]; // stretches reviewed with motion fast-forward
+}
+
+const MIN_WINDOW_SECONDS = 10;
+const DENSITY_BINS = 120;
+const ZOOM_PRESETS = [
+  { label: '1 min', seconds: 60 },
+  { label: '10 min', seconds: 600 },
+  { label: '1 h', seconds: 3600 }
+];
+
+// Keep a zoom window inside the timeline; null means the whole timeline is shown
+const clampWindow = (start: number, length: number, totalDuration: number): { start: number; end: number } | null => {
+  const clampedLength = Math.max(MIN_WINDOW_SECONDS, length);
+  if (clampedLength >= totalDuration) return null;
+
+  const clampedStart = Math.max(0, Math.min(totalDuration - clampedLength, start));
+  return { start: clampedStart, end: clampedStart + clampedLength };
+};
+
+// Time under the mouse for an element showing the range start..start + length
+const getTimeAt = (element: HTMLDivElement | null, clientX: number, start: number, length: number): number => {
+  if (!element) return start;
+  const rect = element.getBoundingClientRect();
+  return start + Math.max(0, Math.min(1, (clientX - rect.left) / rect.width)) * length;
+};
+
+// Seek bar with event ticks, video boundaries and an event density strip; zoom with the mouse wheel
+const EventTimeline: React.FC<EventTimelineProps> = ({ videos, timestamps, eventTypes, currentTime, totalDuration, isPlaying, onSeek, activityRanges = [] }) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const overviewRef = useRef<HTMLDivElement>(null);
+  const [zoomWindow, setZoomWindow] = useState<{ start: number; end: number } | null>(null);
+  const [dragMode, setDragMode] = useState<'seek' | 'pan' | null>(null);
+
+  // Videos added or removed may shrink the timeline below the zoom window
+  const view = zoomWindow && clampWindow(zoomWindow.start, zoomWindow.end - zoomWindow.start, totalDuration);
+  const viewStart = view ? view.start : 0;
+  const viewLength = view ? view.end - view.start : Math.max(totalDuration, 0.001);
+  const viewEnd = viewStart + viewLength;
+
+  const toPercent = (time: number) => ((time - viewStart) / viewLength) * 100;
+
+  const zoom = (factor: number, anchor: number) => {
+    setZoomWindow(clampWindow(anchor - (anchor - viewStart) * factor, viewLength * factor, totalDuration));
+  };
+
+  const zoomTo = (seconds: number) => {
+    setZoomWindow(clampWindow(currentTime - seconds / 2, seconds, totalDuration));
+  };
+
+  // Wheel zooms around the cursor, Shift+wheel (or horizontal scrolling) pans. Registered natively
+  // because React's wheel listener is passive and cannot stop the page from scrolling.
+  useEffect(() => {
+    const track = trackRef.current;
+    if (!track) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = track.getBoundingClientRect();
+      if (e.shiftKey || Math.abs(e.deltaX) > Math.abs(e.deltaY)) {
+        const delta = ((e.shiftKey ? e.deltaY : e.deltaX) / rect.width) * viewLength;
+        setZoomWindow(clampWindow(viewStart + delta, viewLength, totalDuration));
+      } else {
+        zoom(e.deltaY > 0 ? 1.25 : 0.8, getTimeAt(track, e.clientX, viewStart, viewLength));
+      }
+    };
+
+    track.addEventListener('wheel', handleWheel, { passive: false });
+    return () => track.removeEventListener('wheel', handleWheel);
+  });
+
+  // Dragging on the track scrubs, dragging on the overview bar pans the zoom window
+  useEffect(() => {
+    if (!dragMode) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      if (dragMode === 'seek') {
+        onSeek(getTimeAt(trackRef.current, e.clientX, viewStart, viewLength));
+      } else {
+        const center = getTimeAt(overviewRef.current, e.clientX, 0, totalDuration);
+        setZoomWindow(clampWindow(center - viewLength / 2, viewLength, totalDuration));
+      }
+    };
+    const handleMouseUp = () => setDragMode(null);
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [dragMode, viewStart, viewLength, totalDuration, onSeek]);
+
+  // Keep the playhead in view: during playback the window pages forward, otherwise it centres on the playhead
+  useEffect(() => {
+    if (!zoomWindow || dragMode) return;
+    if (currentTime < zoomWindow.start || currentTime > zoomWindow.end) {
+      const length = zoomWindow.end - zoomWindow.start;
+      setZoomWindow(clampWindow(isPlaying ? currentTime : currentTime - length / 2, length, totalDuration));
+    }
+  }, [currentTime, zoomWindow, dragMode, isPlaying, totalDuration]);
+
+  const handleTrackMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 0) return;
+    onSeek(getTimeAt(trackRef.current, e.clientX, viewStart, viewLength));
+    setDragMode('seek');
+  };
+
+  const handleOverviewMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 0) return;
+    const center = getTimeAt(overviewRef.current, e.clientX, 0, totalDuration);
+    setZoomWindow(clampWindow(center - viewLength / 2, viewLength, totalDuration));
+    setDragMode('pan');
+  };
+
+  const getEventColor = (eventId: number): string => {
+    return eventTypes.find(e => e.id === eventId)?.color || '#6c757d';
+  };
+
+  const visibleTimestamps = timestamps.filter(t =>
+    t.atSecondFirst <= viewEnd && (typeof t.endSecondFirst === 'number' ? t.endSecondFirst : t.atSecondFirst) >= viewStart
+  );
+
+  // Number of events starting in each bin of the visible window
+  const densityBins = new Array(DENSITY_BINS).fill(0);
+  visibleTimestamps.forEach(t => {
+    if (t.atSecondFirst < viewStart) return;
+    densityBins[Math.min(DENSITY_BINS - 1, Math.floor(((t.atSecondFirst - viewStart) / viewLength) * DENSITY_BINS))]++;
+  });
+  const maxDensity = Math.max(1, ...densityBins);
+
+  const isVisible = (range: { start: number; end: number }) => range.end >= viewStart && range.start <= viewEnd;
+  const getRangeStyle = (range: { start: number; end: number }): React.CSSProperties => {
+    const left = Math.max(0, toPercent(range.start));
+    return { left: `${left}%`, width: `${Math.min(100, toPercent(range.end)) - left}%` };
+  };
+
+  // Boundaries between videos: every video start and end inside the window
+  const boundaries = getTimelineSegments(videos).reduce((result, segment) => [
+    ...result,
+    { time: segment.start, title: `Start of ${videos[segment.videoIndex].name}` },
+    { time: segment.end, title: `End of ${videos[segment.videoIndex].name}` }
+  ], [] as { time: number; title: string }[]).filter(b => b.time > viewStart && b.time < viewEnd);
+
+  return (
+    <div className="mb-2">
+      <div
+        ref={trackRef}
+        className="event-timeline"
+        onMouseDown={handleTrackMouseDown}
+        title="Click or drag to seek, mouse wheel to zoom, Shift + wheel to pan"
+      >
+        {/* Event density */}
+        <div className="timeline-density">
+          {densityBins.map((count, index) => (
+            <div
+              key={index}
+              className="timeline-density-bin"
+              style={{ opacity: count / maxDensity }}
+              title={count > 0 ? `${count} event(s) from ${calculateRealWorldTime(videos, viewStart + (index / DENSITY_BINS) * viewLength)}` : undefined}
+            />
+          ))}
+        </div>
+
+        {/* Video coverage, gaps and overlaps */}
+        <div className="timeline-track">
+          {getTimelineGaps(videos).filter(isVisible).map((gap, index) => (
+            <div
+              key={`gap-${index}`}
+              className="timeline-gap"
+              style={getRangeStyle(gap)}
+              title={`No video: ${calculateRealWorldTime(videos, gap.start)} - ${calculateRealWorldTime(videos, gap.end)} (skipped)`}
+            />
+          ))}
+          {getTimelineOverlaps(videos).filter(isVisible).map((overlap, index) => (
+            <div
+              key={`overlap-${index}`}
+              className="timeline-overlap"
+              style={getRangeStyle(overlap)}
+              title={`Videos overlap: ${calculateRealWorldTime(videos, overlap.start)} - ${calculateRealWorldTime(videos, overlap.end)}`}
+            />
+          ))}
+          {boundaries.map((boundary, index) => (
+            <div
+              key={`boundary-${index}`}
+              className="timeline-boundary"
+              style={{ left: `${toPercent(boundary.time)}%` }}
+              title={boundary.title}
+            />
+          ))}
+        </div>
+
+        {/* Stretches fast-forwarded while idle and played at normal speed for motion */}
+        {activityRanges.filter(isVisible).map((range, index) => (
+          <div
+            key={`activity-${index}`}
+            className={`timeline-activity ${range.active ? 'active' : 'idle'}`}
+            style={getRangeStyle(range)}
+            title={`${range.active ? 'Motion, normal speed' : 'No motion, fast-forwarded'}: ${calculateRealWorldTime(videos, range.start)} - ${calculateRealWorldTime(videos, range.end)}`}
+          />
+        ))}
+
+        {/* Events; intervals are drawn as bars */}
+        {visibleTimestamps.map(t => (
+          <React.Fragment key={t.id}>
+            {typeof t.endSecondFirst === 'number' && (
+              <div
+                className="timeline-interval"
+                style={{ ...getRangeStyle({ start: t.atSecondFirst, end: t.endSecondFirst }), backgroundColor: getEventColor(t.eventId) }}
+              />
+            )}
+            {t.atSecondFirst >= viewStart && (
+              <div
+                className="timeline-tick"
+                style={{ left: `${toPercent(t.atSecondFirst)}%`, backgroundColor: getEventColor(t.eventId) }}
+                onMouseDown={(e) => e.stopPropagation()}
+                onClick={() => onSeek(t.atSecondFirst)}
+                title={`${t.eventName}${t.movementName ? ` (${t.movementName})` : ''} at ${t.timeHHMMSS}${t.note ? ` - ${t.note}` : ''}`}
+              />
+            )}
+          </React.Fragment>
+        ))}
+
+        {/* Playhead */}
+        {currentTime >= viewStart && currentTime <= viewEnd && (
+          <div className="timeline-playhead" style={{ left: `${toPercent(currentTime)}%` }} />
+        )}
+      </div>
+
+      {/* Position of the zoom window within the whole timeline */}
+      {view && (
+        <div ref={overviewRef} className="timeline-overview" onMouseDown={handleOverviewMouseDown} title="Drag to pan">
+          <div
+            className="timeline-overview-window"
+            style={{ left: `${(viewStart / totalDuration) * 100}%`, width: `${(viewLength / totalDuration) * 100}%` }}
+          />
+        </div>
+      )}
+
+      <div className="d-flex align-items-center justify-content-between mt-1">
+        <small className="text-muted">{calculateRealWorldTime(videos, viewStart)}</small>
+        <ButtonGroup size="sm">
+          <Button variant="outline-secondary" className="py-0" onClick={() => zoom(1.5, currentTime)} disabled={!view} title="Zoom out">−</Button>
+          {ZOOM_PRESETS.filter(preset => preset.seconds < totalDuration).map(preset => (
+            <Button
+              key={preset.seconds}
+              variant={view && Math.abs(viewLength - preset.seconds) < 1 ? 'secondary' : 'outline-secondary'}
+              className="py-0"
+              onClick={() => zoomTo(preset.seconds)}
+            >
+              {preset.label}
+            </Button>
+          ))}
+          <Button variant={view ? 'outline-secondary' : 'secondary'} className="py-0" onClick={() => setZoomWindow(null)} title="Show the whole timeline">
+            All
+          </Button>
+          <Button variant="outline-secondary" className="py-0" onClick={() => zoom(1 / 1.5, currentTime)} disabled={viewLength <= MIN_WINDOW_SECONDS} title="Zoom in">+</Button>
+        </ButtonGroup>
+        <small className="text-muted">
+          {view && <span className="me-2">({formatTime(viewLength)} window)</span>}
+          {calculateRealWorldTime(videos, viewEnd)}
+        </small>
+      </div>
+    </div>
+  );
+};
+
+export default EventTimeline;
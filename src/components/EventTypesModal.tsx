@@ -0,0 +1,517 @@
+import React, { useState } from 'react';
+import { Modal, Button, Form, Table, Alert } from 'react-bootstrap';
+import { EventType, EventKind, Movement, Timestamp, AttributeDefinition, AttributeValue, VideoFile, CandidateEvent, Trajectory, Camera } from '../types';
+import { createEventType, createMovement, getAttributeHotkeys, recalculateEventCounts, applyReactionTimes } from '../utils';
+import HotkeyInput from './HotkeyInput';
+import AttributeEditor from './AttributeEditor';
+
+interface EventTypesModalProps {
+  show: boolean;
+  onHide: () => void;
+  eventTypes: EventType[];
+  onEventTypesChange: (eventTypes: EventType[]) => void;
+  movements: Movement[];
+  onMovementsChange: (movements: Movement[]) => void;
+  timestamps: Timestamp[];
+  onTimestampsChange: (timestamps: Timestamp[]) => void;
+  videos: VideoFile[];
+  candidates: CandidateEvent[];
+  onCandidatesChange: (candidates: CandidateEvent[]) => void;
+  trajectories: Trajectory[];
+  onTrajectoriesChange: (trajectories: Trajectory[]) => void;
+  cameras: Camera[];
+  onCamerasChange: (cameras: Camera[]) => void;
+}
+
+const EventTypesModal: React.FC<EventTypesModalProps> = ({
+  show,
+  onHide,
+  eventTypes,
+  onEventTypesChange,
+  movements,
+  onMovementsChange,
+  timestamps,
+  onTimestampsChange,
+  videos,
+  candidates,
+  onCandidatesChange,
+  trajectories,
+  onTrajectoriesChange,
+  cameras,
+  onCamerasChange
+}) => {
+  const [error, setError] = useState<string>('');
+  const [expandedEventId, setExpandedEventId] = useState<number | null>(null);
+  const [removingEventId, setRemovingEventId] = useState<number | null>(null);
+  const [reassignTargetId, setReassignTargetId] = useState<string>('');
+
+  const handleAdd = () => {
+    onEventTypesChange([...eventTypes, createEventType(eventTypes)]);
+  };
+
+  // Annotations can only be merged into an event type of the same kind
+  const getMergeTargets = (eventType: EventType) => eventTypes.filter(e => e.id !== eventType.id && e.kind === eventType.kind);
+
+  // Detector candidates follow a merged type; deleted ones lose their suggestion, and confirmed ones whose
+  // annotation is deleted go back to the review queue
+  const updateCandidates = (eventId: number, target?: EventType) => {
+    onCandidatesChange(candidates.map((c): CandidateEvent => {
+      if (c.suggestedEventId !== eventId && c.eventId !== eventId) return c;
+      if (target) {
+        return {
+          ...c,
+          suggestedEventId: c.suggestedEventId === eventId ? target.id : c.suggestedEventId,
+          eventId: c.eventId === eventId ? target.id : c.eventId
+        };
+      }
+      const updated = { ...c, suggestedEventId: c.suggestedEventId === eventId ? null : c.suggestedEventId };
+      return c.eventId === eventId ? { ...updated, status: 'pending', eventId: undefined, timestampId: undefined } : updated;
+    }));
+  };
+
+  // Lines and zones counting a merged type count the target instead; a deleted type is unlinked from them
+  const updateOverlays = (eventId: number, target?: EventType) => {
+    onCamerasChange(cameras.map(camera => ({
+      ...camera,
+      overlays: camera.overlays.map(shape => {
+        if (!shape.eventTypeIds.includes(eventId)) return shape;
+        const eventTypeIds = shape.eventTypeIds.filter(id => id !== eventId);
+        return { ...shape, eventTypeIds: target && !eventTypeIds.includes(target.id) ? [...eventTypeIds, target.id] : eventTypeIds };
+      })
+    })));
+  };
+
+  // Open the delete/merge panel; types without annotations or trajectories are removed right away
+  const handleRemove = (eventType: EventType, merge: boolean = false) => {
+    const hasAnnotations = timestamps.some(t => t.eventId === eventType.id) || trajectories.some(t => t.eventId === eventType.id);
+    if (!hasAnnotations && !merge) {
+      onEventTypesChange(eventTypes.filter(e => e.id !== eventType.id));
+      updateCandidates(eventType.id);
+      updateOverlays(eventType.id);
+      return;
+    }
+
+    const mergeTargets = getMergeTargets(eventType);
+    if (merge && mergeTargets.length === 0) {
+      setError(`Cannot merge "${eventType.name}": there is no other ${eventType.kind} event type.`);
+      return;
+    }
+
+    setExpandedEventId(null);
+    setRemovingEventId(eventType.id);
+    setReassignTargetId(mergeTargets.length > 0 ? `${mergeTargets[0].id}` : 'delete');
+  };
+
+  // Remove an event type, reassigning its annotations to another type or deleting them
+  const handleConfirmRemove = (eventType: EventType) => {
+    const target = eventTypes.find(e => `${e.id}` === reassignTargetId);
+    let updatedTimestamps: Timestamp[];
+
+    if (target) {
+      const hasOpenInterval = (eventId: number) => timestamps.some(t => t.eventId === eventId && t.endSecondFirst === null);
+      if (hasOpenInterval(eventType.id) && hasOpenInterval(target.id)) {
+        setError(`Cannot merge "${eventType.name}" into "${target.name}": both have an open interval. Please stop one of them first.`);
+        return;
+      }
+
+      // Values move to the target's attribute of the same name and type; enum values also need the option there.
+      // Values without such an attribute are dropped.
+      const findTargetAttribute = (attributeId: string, value: AttributeValue) => {
+        const source = eventType.attributes.find(a => a.id === attributeId);
+        const attribute = source && target.attributes.find(a => a.type === source.type && a.name.trim().toLowerCase() === source.name.trim().toLowerCase());
+        return attribute && (attribute.type !== 'enum' || attribute.options.some(o => o.value === value)) ? attribute : undefined;
+      };
+      updatedTimestamps = timestamps.map(t => {
+        if (t.eventId !== eventType.id) return t;
+
+        const attributes = Object.keys(t.attributes || {}).reduce((values, id) => {
+          const attribute = findTargetAttribute(id, t.attributes![id]);
+          return attribute ? { ...values, [attribute.id]: t.attributes![id] } : values;
+        }, {} as Record<string, AttributeValue>);
+        return {
+          ...t,
+          eventId: target.id,
+          eventName: target.name,
+          attributes: Object.keys(attributes).length > 0 ? attributes : undefined
+        };
+      });
+    } else {
+      updatedTimestamps = timestamps.filter(t => t.eventId !== eventType.id);
+    }
+
+    onTimestampsChange(updatedTimestamps);
+    onEventTypesChange(recalculateEventCounts(eventTypes.filter(e => e.id !== eventType.id), updatedTimestamps));
+    onTrajectoriesChange(target
+      ? trajectories.map(t => t.eventId === eventType.id ? { ...t, eventId: target.id, eventName: target.name } : t)
+      : trajectories.filter(t => t.eventId !== eventType.id));
+    updateCandidates(eventType.id, target);
+    updateOverlays(eventType.id, target);
+    setRemovingEventId(null);
+  };
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const targetIndex = index + direction;
+    if (targetIndex < 0 || targetIndex >= eventTypes.length) return;
+
+    const updatedEventTypes = [...eventTypes];
+    [updatedEventTypes[index], updatedEventTypes[targetIndex]] = [updatedEventTypes[targetIndex], updatedEventTypes[index]];
+    onEventTypesChange(updatedEventTypes);
+  };
+
+  const handleColorChange = (eventId: number, color: string) => {
+    onEventTypesChange(eventTypes.map(e => e.id === eventId ? { ...e, color } : e));
+  };
+
+  const handleNameChange = (eventId: number, name: string) => {
+    onEventTypesChange(eventTypes.map(e => e.id === eventId ? { ...e, name } : e));
+    onTimestampsChange(timestamps.map(t => t.eventId === eventId ? { ...t, eventName: name } : t));
+    onTrajectoriesChange(trajectories.map(t => t.eventId === eventId ? { ...t, eventName: name } : t));
+  };
+
+  const handleKindChange = (eventId: number, kind: EventKind) => {
+    const hasAnnotations = timestamps.some(t => t.eventId === eventId);
+    if (hasAnnotations) {
+      setError('Cannot change the kind of an event type: annotations exist for it. Please delete those annotations first.');
+      return;
+    }
+    onEventTypesChange(eventTypes.map(e => e.id === eventId ? { ...e, kind } : e));
+  };
+
+  const handleReactionTimeChange = (eventId: number, value: string) => {
+    const reactionTime = value === '' ? 0 : Number(value);
+    if (isNaN(reactionTime) || reactionTime < 0 || reactionTime > 5) {
+      setError(`Invalid reaction time "${value}". Please enter 0 to 5 seconds.`);
+      return;
+    }
+    onEventTypesChange(eventTypes.map(e => e.id === eventId ? { ...e, reactionTime } : e));
+  };
+
+  const handleReactionTimeScaledChange = (eventId: number, reactionTimeScaled: boolean) => {
+    onEventTypesChange(eventTypes.map(e => e.id === eventId ? { ...e, reactionTimeScaled } : e));
+  };
+
+  // Recompute existing annotations from their raw key press times with the current reaction times
+  const handleApplyReactionTimes = () => {
+    if (!window.confirm(`Apply the current reaction times to all ${timestamps.length} existing annotation(s)? Their times are recomputed from the raw key press times.`)) return;
+    onTimestampsChange(applyReactionTimes(videos, timestamps, eventTypes));
+  };
+
+  const handleHotkeyChange = (eventId: number, hotkey: string) => {
+    onEventTypesChange(eventTypes.map(et => et.id === eventId ? { ...et, hotkey } : et));
+  };
+
+  const handleAttributesChange = (eventId: number, attributes: AttributeDefinition[]) => {
+    onEventTypesChange(eventTypes.map(et => et.id === eventId ? { ...et, attributes } : et));
+  };
+
+  // Attribute hotkeys act on the last marked event, so they must not collide with any event type hotkey
+  const eventHotkeyBindings = eventTypes.map(et => ({ name: et.name, hotkey: et.hotkey }));
+  const attributeHotkeyBindings = eventTypes.reduce((bindings, et) => [...bindings, ...getAttributeHotkeys(et)], [] as { name: string; hotkey: string }[]);
+
+  const handleAddMovement = () => {
+    onMovementsChange([...movements, createMovement(movements)]);
+  };
+
+  const handleRemoveMovement = (movementId: number) => {
+    const hasAnnotations = timestamps.some(t => t.movementId === movementId);
+    if (hasAnnotations) {
+      setError('Cannot remove movement: annotations exist for it. Please delete those annotations first.');
+      return;
+    }
+    onMovementsChange(movements.filter(m => m.id !== movementId));
+  };
+
+  const handleMovementNameChange = (movementId: number, name: string) => {
+    onMovementsChange(movements.map(m => m.id === movementId ? { ...m, name } : m));
+    onTimestampsChange(timestamps.map(t => t.movementId === movementId ? { ...t, movementName: name } : t));
+  };
+
+  // Movement keys are only active while a chord is pending, so they may reuse event type keys
+  const handleMovementHotkeyChange = (movementId: number, hotkey: string) => {
+    onMovementsChange(movements.map(m => m.id === movementId ? { ...m, hotkey } : m));
+  };
+
+  return (
+    <Modal show={show} onHide={onHide} centered size="lg">
+      <Modal.Header closeButton>
+        <Modal.Title>Event Types & Movements</Modal.Title>
+      </Modal.Header>
+      <Modal.Body>
+        {error && (
+          <Alert variant="danger" dismissible onClose={() => setError('')}>
+            {error}
+          </Alert>
+        )}
+
+        <Table size="sm" className="align-middle">
+          <thead>
+            <tr>
+              <th style={{ width: '50px' }}></th>
+              <th>Name</th>
+              <th style={{ width: '140px' }}>Hotkey</th>
+              <th style={{ width: '120px' }}>Kind</th>
+              <th style={{ width: '130px' }} title="Seconds the key press lags the event; subtracted when marking">Reaction (s)</th>
+              <th style={{ width: '60px' }}>Count</th>
+              <th style={{ width: '210px' }}>Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {eventTypes.map((eventType, index) => (
+              <React.Fragment key={eventType.id}>
+                <tr>
+                  <td>
+                    <Form.Control
+                      type="color"
+                      size="sm"
+                      value={eventType.color}
+                      onChange={(e) => handleColorChange(eventType.id, e.target.value)}
+                      title="Change colour"
+                    />
+                  </td>
+                  <td>
+                    <Form.Control
+                      type="text"
+                      size="sm"
+                      value={eventType.name}
+                      onChange={(e) => handleNameChange(eventType.id, e.target.value)}
+                    />
+                  </td>
+                  <td>
+                    <HotkeyInput
+                      value={eventType.hotkey}
+                      onChange={(hotkey) => handleHotkeyChange(eventType.id, hotkey)}
+                      bindings={[
+                        ...eventHotkeyBindings.filter(b => b.hotkey !== eventType.hotkey),
+                        ...attributeHotkeyBindings
+                      ]}
+                      onError={setError}
+                    />
+                  </td>
+                  <td>
+                    <Form.Select
+                      size="sm"
+                      value={eventType.kind}
+                      onChange={(e) => handleKindChange(eventType.id, e.target.value as EventKind)}
+                      title="Interval events are started and stopped by pressing the hotkey twice"
+                    >
+                      <option value="point">Point</option>
+                      <option value="interval">Interval</option>
+                    </Form.Select>
+                  </td>
+                  <td>
+                    <div className="d-flex align-items-center gap-1">
+                      <Form.Control
+                        key={eventType.reactionTime ?? 0}
+                        type="number"
+                        size="sm"
+                        min={0}
+                        step={0.05}
+                        defaultValue={eventType.reactionTime ?? 0}
+                        onBlur={(e: React.FocusEvent<HTMLInputElement>) => handleReactionTimeChange(eventType.id, e.target.value)}
+                        style={{ width: '70px' }}
+                        title="Reaction time in seconds, subtracted from the key press time"
+                      />
+                      <Form.Check
+                        type="checkbox"
+                        id={`reaction-scaled-${eventType.id}`}
+                        label="×speed"
+                        className="small text-nowrap"
+                        checked={eventType.reactionTimeScaled ?? false}
+                        onChange={(e) => handleReactionTimeScaledChange(eventType.id, e.target.checked)}
+                        title="Multiply the reaction time by the playback speed (at 4x, 0.5s becomes 2s of video)"
+                      />
+                    </div>
+                  </td>
+                  <td>{eventType.count}</td>
+                  <td>
+                    <div className="d-flex gap-1">
+                      <Button
+                        variant={expandedEventId === eventType.id ? 'secondary' : 'outline-secondary'}
+                        size="sm"
+                        onClick={() => setExpandedEventId(expandedEventId === eventType.id ? null : eventType.id)}
+                        title="Edit attributes"
+                      >
+                        🏷️{eventType.attributes.length > 0 && <small> {eventType.attributes.length}</small>}
+                      </Button>
+                      <Button
+                        variant="outline-secondary"
+                        size="sm"
+                        onClick={() => handleMove(index, -1)}
+                        disabled={index === 0}
+                        title="Move up"
+                      >
+                        ↑
+                      </Button>
+                      <Button
+                        variant="outline-secondary"
+                        size="sm"
+                        onClick={() => handleMove(index, 1)}
+                        disabled={index === eventTypes.length - 1}
+                        title="Move down"
+                      >
+                        ↓
+                      </Button>
+                      <Button
+                        variant="outline-secondary"
+                        size="sm"
+                        onClick={() => handleRemove(eventType, true)}
+                        title="Merge into another event type"
+                      >
+                        ⇄
+                      </Button>
+                      <Button
+                        variant="outline-danger"
+                        size="sm"
+                        onClick={() => handleRemove(eventType)}
+                        title="Remove event type"
+                      >
+                        🗑️
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+                {removingEventId === eventType.id && (
+                  <tr>
+                    <td colSpan={7}>
+                      <div className="d-flex flex-wrap align-items-center gap-2 ps-4">
+                        <span>
+                          Remove <strong>{eventType.name}</strong> and its {timestamps.filter(t => t.eventId === eventType.id).length} annotation(s)
+                          and {trajectories.filter(t => t.eventId === eventType.id).length} trajectory(ies):
+                        </span>
+                        <Form.Select
+                          size="sm"
+                          value={reassignTargetId}
+                          onChange={(e) => setReassignTargetId(e.target.value)}
+                          style={{ width: 'auto' }}
+                        >
+                          {getMergeTargets(eventType).map(target => (
+                            <option key={target.id} value={target.id}>Merge into "{target.name}"</option>
+                          ))}
+                          <option value="delete">Delete the annotations and trajectories</option>
+                        </Form.Select>
+                        <Button variant="danger" size="sm" onClick={() => handleConfirmRemove(eventType)}>
+                          Remove
+                        </Button>
+                        <Button variant="outline-secondary" size="sm" onClick={() => setRemovingEventId(null)}>
+                          Cancel
+                        </Button>
+                      </div>
+                      <Form.Text className="text-muted ps-4">
+                        Merged annotations keep their times, notes and movements, merged trajectories their points, and lines and zones counting the type count the target; attribute values move to the target's attribute of the same name and type, and are discarded only if the target has none (or lacks the enum option).
+                      </Form.Text>
+                    </td>
+                  </tr>
+                )}
+                {expandedEventId === eventType.id && (
+                  <tr>
+                    <td colSpan={7}>
+                      <AttributeEditor
+                        eventType={eventType}
+                        onAttributesChange={(attributes) => handleAttributesChange(eventType.id, attributes)}
+                        bindings={eventHotkeyBindings}
+                        onError={setError}
+                      />
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </Table>
+
+        <Button variant="outline-primary" size="sm" onClick={handleAdd}>
+          ➕ Add Event Type
+        </Button>
+        <Button
+          variant="outline-secondary"
+          size="sm"
+          className="ms-2"
+          onClick={handleApplyReactionTimes}
+          disabled={timestamps.length === 0}
+          title="Recompute existing annotations with the current reaction times"
+        >
+          ⏱️ Apply reaction times to existing annotations
+        </Button>
+        <Form.Text className="d-block text-muted mt-2">
+          Click a hotkey field and press any key or key combination (e.g. Shift+q, Ctrl+1) to bind it.
+          Application shortcuts such as Space, j/l or a/r/y cannot be used.
+          Interval events (e.g. green phases, blocked lanes) start on the first key press and stop on the second.
+          Use 🏷️ to define attributes (e.g. occupancy, axle count) that can be set right after marking.
+          Removing a type that has annotations lets you merge them into another type (⇄) or delete them.
+          The reaction time is subtracted from new annotations; the raw key press time is kept, so changed reaction times can be applied to existing annotations again.
+        </Form.Text>
+
+        <h6 className="mt-4">Movements</h6>
+        <p className="small text-muted mb-2">
+          In chord mode (enable it in the settings), pressing an event key followed by a movement key records one event
+          carrying both, e.g. vehicle class × turning movement.
+        </p>
+        {movements.length > 0 && (
+          <Table size="sm" className="align-middle">
+            <thead>
+              <tr>
+                <th style={{ width: '50px' }}></th>
+                <th>Name</th>
+                <th style={{ width: '140px' }}>Hotkey</th>
+                <th style={{ width: '60px' }}>Count</th>
+                <th style={{ width: '130px' }}>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {movements.map(movement => (
+                <tr key={movement.id}>
+                  <td>
+                    <Form.Control
+                      type="color"
+                      size="sm"
+                      value={movement.color}
+                      onChange={(e) => onMovementsChange(movements.map(m => m.id === movement.id ? { ...m, color: e.target.value } : m))}
+                      title="Change colour"
+                    />
+                  </td>
+                  <td>
+                    <Form.Control
+                      type="text"
+                      size="sm"
+                      value={movement.name}
+                      onChange={(e) => handleMovementNameChange(movement.id, e.target.value)}
+                    />
+                  </td>
+                  <td>
+                    <HotkeyInput
+                      value={movement.hotkey}
+                      onChange={(hotkey) => handleMovementHotkeyChange(movement.id, hotkey)}
+                      bindings={movements.filter(m => m.id !== movement.id)}
+                      onError={setError}
+                    />
+                  </td>
+                  <td>{timestamps.filter(t => t.movementId === movement.id).length}</td>
+                  <td>
+                    <Button
+                      variant="outline-danger"
+                      size="sm"
+                      onClick={() => handleRemoveMovement(movement.id)}
+                      title="Remove movement"
+                    >
+                      🗑️
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </Table>
+        )}
+        <Button variant="outline-primary" size="sm" onClick={handleAddMovement}>
+          ➕ Add Movement
+        </Button>
+      </Modal.Body>
+      <Modal.Footer>
+        <Button variant="primary" onClick={onHide}>
+          Done
+        </Button>
+      </Modal.Footer>
+    </Modal>
+  );
+};
+
+export default EventTypesModal;
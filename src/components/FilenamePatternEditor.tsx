@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { Button, Form, Table } from 'react-bootstrap';
+import { FilenamePattern } from '../types';
+import { generateId, compileFilenamePattern, matchFilenamePatterns } from '../utils';
+
+interface FilenamePatternEditorProps {
+  filenamePatterns: FilenamePattern[];
+  onFilenamePatternsChange: (filenamePatterns: FilenamePattern[]) => void;
+  filenames: string[]; // loaded and expected video files, for the preview
+  onApplyToVideos: () => number; // returns the number of updated videos
+}
+
+const FilenamePatternEditor: React.FC<FilenamePatternEditorProps> = ({ filenamePatterns, onFilenamePatternsChange, filenames, onApplyToVideos }) => {
+  const [testFilename, setTestFilename] = useState<string>('');
+  const [message, setMessage] = useState<string>('');
+
+  const previewFilenames = testFilename.trim() ? [testFilename.trim(), ...filenames] : filenames;
+
+  const updatePattern = (id: string, template: string) => {
+    onFilenamePatternsChange(filenamePatterns.map(p => p.id === id ? { ...p, template } : p));
+  };
+
+  const movePattern = (index: number) => {
+    const updated = [...filenamePatterns];
+    [updated[index - 1], updated[index]] = [updated[index], updated[index - 1]];
+    onFilenamePatternsChange(updated);
+  };
+
+  const handleApply = () => {
+    const count = onApplyToVideos();
+    setMessage(`Start times of ${count} video(s) updated.`);
+  };
+
+  return (
+    <div className="mb-4 p-3 border rounded">
+      <h6 className="mb-2">🏷️ Filename Patterns</h6>
+      <small className="text-muted d-block mb-2">
+        Tokens: <code>{'{YYYY}'}</code> <code>{'{YY}'}</code> <code>{'{MM}'}</code> <code>{'{DD}'}</code> <code>{'{hh}'}</code> <code>{'{mm}'}</code> <code>{'{ss}'}</code> for
+        the start, <code>{'{cam}'}</code> for the camera and <code>{'{*}'}</code> for any text, e.g. <code>{'ch{cam}_{YYYY}{MM}{DD}{hh}{mm}{ss}'}</code>.
+        The first matching pattern is used when videos are added; files matching none fall back to the video metadata and built-in patterns.
+      </small>
+
+      {filenamePatterns.map((pattern, index) => {
+        const isValid = compileFilenamePattern(pattern.template) !== null;
+        return (
+          <div key={pattern.id} className="d-flex align-items-center gap-1 mb-1">
+            <Form.Control
+              type="text"
+              size="sm"
+              value={pattern.template}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => updatePattern(pattern.id, e.target.value)}
+              isInvalid={!isValid}
+              style={{ maxWidth: '400px', fontFamily: 'monospace' }}
+              title={isValid ? 'Filename pattern' : 'Unknown token, or {hh} and {mm} missing'}
+            />
+            <Button size="sm" variant="outline-secondary" className="py-0" onClick={() => movePattern(index)} disabled={index === 0} title="Try this pattern earlier">
+              ↑
+            </Button>
+            <Button
+              size="sm"
+              variant="outline-danger"
+              className="py-0"
+              onClick={() => onFilenamePatternsChange(filenamePatterns.filter(p => p.id !== pattern.id))}
+              title="Remove"
+            >
+              🗑️
+            </Button>
+          </div>
+        );
+      })}
+
+      <div className="d-flex align-items-center gap-2 mt-2">
+        <Button
+          size="sm"
+          variant="outline-secondary"
+          onClick={() => onFilenamePatternsChange([...filenamePatterns, { id: generateId(), template: '{YYYY}{MM}{DD}{hh}{mm}{ss}' }])}
+        >
+          ➕ Pattern
+        </Button>
+        <Button
+          size="sm"
+          variant="outline-primary"
+          onClick={handleApply}
+          disabled={filenamePatterns.length === 0 || filenames.length === 0}
+          title="Set the start date and time of the loaded videos matching a pattern"
+        >
+          Apply to loaded videos
+        </Button>
+        {message && <small className="text-muted">{message}</small>}
+      </div>
+
+      {filenamePatterns.length > 0 && (
+        <>
+          <Form.Control
+            type="text"
+            size="sm"
+            className="mt-3 mb-2"
+            value={testFilename}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTestFilename(e.target.value)}
+            placeholder="Test a filename, e.g. ch01_20240501073000.mp4"
+            style={{ maxWidth: '400px' }}
+          />
+          {previewFilenames.length > 0 && (
+            <div style={{ maxHeight: '200px', overflowY: 'auto' }}>
+              <Table size="sm" className="mb-0">
+                <thead>
+                  <tr>
+                    <th>File</th>
+                    <th>Pattern</th>
+                    <th>Date</th>
+                    <th>Time</th>
+                    <th>Camera</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {previewFilenames.map((filename, index) => {
+                    const match = matchFilenamePatterns(filename, filenamePatterns);
+                    return (
+                      <tr key={`${index}-${filename}`}>
+                        <td>{filename}</td>
+                        {match ? (
+                          <>
+                            <td><code>{match.pattern.template}</code></td>
+                            <td>{match.date || '-'}</td>
+                            <td>{match.time}</td>
+                            <td>{match.camera || '-'}</td>
+                          </>
+                        ) : (
+                          <td colSpan={4} className="text-muted">No match</td>
+                        )}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </Table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FilenamePatternEditor;
@@ -10,10 +10,12 @@ interface HeaderProps {
   onTabChange: (tab: TabType) => void;
   onShowSettings: () => void;
   onShowHelp: () => void;
+  onShowEventTypes: () => void;
+  onShowIntegrity: () => void;
   onSaveSession: () => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ darkMode, onToggleDarkMode, activeTab, onTabChange, onShowSettings, onShowHelp, onSaveSession }) => {
+const Header: React.FC<HeaderProps> = ({ darkMode, onToggleDarkMode, activeTab, onTabChange, onShowSettings, onShowHelp, onShowEventTypes, onShowIntegrity, onSaveSession }) => {
   return (
     <Navbar bg={darkMode ? 'dark' : 'light'} variant={darkMode ? 'dark' : 'light'} className="border-bottom">
       <Container fluid>
@@ -61,6 +63,22 @@ const Header: React.FC<HeaderProps> = ({ darkMode, onToggleDarkMode, activeTab,
           >
             💾
           </Button>
+          <Button
+            variant="outline-secondary"
+            size="sm"
+            onClick={onShowEventTypes}
+            title="Event Types"
+          >
+            🏷️
+          </Button>
+          <Button
+            variant="outline-secondary"
+            size="sm"
+            onClick={onShowIntegrity}
+            title="Check Session Integrity"
+          >
+            🩺
+          </Button>
           <Button
             variant="outline-secondary"
             size="sm"
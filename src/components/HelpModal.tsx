@@ -1,12 +1,16 @@
 import React from 'react';
 import { Modal, Button, Table } from 'react-bootstrap';
+import { EventType, Movement } from '../types';
 
 interface HelpModalProps {
   show: boolean;
   onHide: () => void;
+  eventTypes: EventType[];
+  movements: Movement[];
+  chordMode: boolean;
 }
 
-const HelpModal: React.FC<HelpModalProps> = ({ show, onHide }) => {
+const HelpModal: React.FC<HelpModalProps> = ({ show, onHide, eventTypes, movements, chordMode }) => {
   const shortcutCategories = {
     general: [
       { key: 'u', description: 'Switch to Setup tab' },
@@ -23,10 +27,19 @@ const HelpModal: React.FC<HelpModalProps> = ({ show, onHide }) => {
       { key: 'j / ←', description: 'Seek backward (configurable, default 1 second)' },
       { key: 'l / →', description: 'Seek forward (configurable, default 1 second)' },
       { key: 'Shift + j / Shift + ←', description: 'Seek backward (configurable, default 10 seconds)' },
-      { key: 'Shift + l / Shift + →', description: 'Seek forward (configurable, default 10 seconds)' }
+      { key: 'Shift + l / Shift + →', description: 'Seek forward (configurable, default 10 seconds)' },
+      { key: ', / .', description: 'Step one frame backward / forward (pauses playback)' }
     ],
     annotation: [
-      { key: '1-5', description: 'Mark events (works even when other controls are focused)' },
+      ...eventTypes
+        .filter(eventType => eventType.hotkey)
+        .map(eventType => ({ key: eventType.hotkey, description: `Mark "${eventType.name}" (works even when other controls are focused)` })),
+      ...(chordMode ? [
+        ...movements
+          .filter(movement => movement.hotkey)
+          .map(movement => ({ key: movement.hotkey, description: `Movement "${movement.name}" (after an event key in chord mode)` })),
+        { key: 'Esc', description: 'Cancel a pending chord' }
+      ] : []),
       { key: 'n', description: 'Add note to the last marked event' },
       { key: 'Backspace', description: 'Delete closest timestamp to current position' }
     ]
@@ -44,13 +57,16 @@ const HelpModal: React.FC<HelpModalProps> = ({ show, onHide }) => {
             <li><strong>Load Videos:</strong> Click "Add Video" to select one or more video files</li>
             <li><strong>Multiple Videos:</strong> Load multiple videos to create one continuous timeline</li>
             <li><strong>Start Time:</strong> Set the real-world start time for the first video (auto-inferred from filename when possible)</li>
-            <li><strong>Event Marking:</strong> Use number keys 1-5 to mark traffic events while watching</li>
+            <li><strong>Event Marking:</strong> Use the event hotkeys (default 1-5) to mark traffic events while watching</li>
           </ul>
         </div>
 
         <div className="mb-4">
           <h5>Event Management</h5>
           <ul>
+            <li><strong>Event types:</strong> Add, remove, reorder and bind any key combination to event types via the 🏷️ button in the header or ⚙️ next to the event buttons</li>
+            <li><strong>Attributes:</strong> Event types can define structured fields (choice, number, yes/no, text). Their hotkeys and the panel below the event buttons set values on the last marked event; all values can be edited in the Results tab</li>
+            <li><strong>Chord mode:</strong> When enabled in the settings, press an event key and then a movement key to record both dimensions (e.g. vehicle class × movement) in one event</li>
             <li><strong>Right-click events:</strong> Change event names by right-clicking on event buttons</li>
             <li><strong>Event counters:</strong> Numbers in parentheses show how many times each event was marked</li>
             <li><strong>Timeline info:</strong> "Total" shows time across all videos, "Current" shows time within active video</li>
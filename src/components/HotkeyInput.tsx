@@ -0,0 +1,48 @@
+import React from 'react';
+import { Form } from 'react-bootstrap';
+import { getHotkeyConflict, getHotkeyFromEvent } from '../utils';
+
+interface HotkeyInputProps {
+  value: string;
+  onChange: (hotkey: string) => void;
+  bindings: { name: string; hotkey: string }[]; // other bindings the new hotkey must not collide with
+  onError: (error: string) => void;
+}
+
+const HotkeyInput: React.FC<HotkeyInputProps> = ({ value, onChange, bindings, onError }) => {
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Keep the global shortcut handler from reacting while a key is being recorded
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.key === 'Tab') return;
+
+    if (e.key === 'Delete') {
+      onChange('');
+      return;
+    }
+
+    const hotkey = getHotkeyFromEvent(e);
+    if (!hotkey) return;
+
+    const conflict = getHotkeyConflict(hotkey, bindings);
+    onError(conflict);
+    if (!conflict) {
+      onChange(hotkey);
+    }
+  };
+
+  return (
+    <Form.Control
+      type="text"
+      size="sm"
+      readOnly
+      value={value}
+      placeholder="Press a key"
+      onKeyDown={handleKeyDown}
+      title="Focus and press a key or key combination (Delete clears the binding)"
+      style={{ cursor: 'pointer' }}
+    />
+  );
+};
+
+export default HotkeyInput;
@@ -0,0 +1,70 @@
+import React from 'react';
+import { Modal, Button, Alert, Badge } from 'react-bootstrap';
+import { IntegrityIssue, IntegrityIssueType } from '../types';
+import { INTEGRITY_ISSUE_LABELS } from '../integrity';
+
+interface IntegrityModalProps {
+  show: boolean;
+  onHide: () => void;
+  issues: IntegrityIssue[];
+  onRepair: () => void;
+}
+
+const MAX_LISTED_ISSUES = 10;
+
+const IntegrityModal: React.FC<IntegrityModalProps> = ({ show, onHide, issues, onRepair }) => {
+  const issueTypes = (Object.keys(INTEGRITY_ISSUE_LABELS) as IntegrityIssueType[])
+    .filter(type => issues.some(issue => issue.type === type));
+
+  return (
+    <Modal show={show} onHide={onHide} centered size="lg">
+      <Modal.Header closeButton>
+        <Modal.Title>Session Integrity</Modal.Title>
+      </Modal.Header>
+      <Modal.Body>
+        {issues.length === 0 ? (
+          <Alert variant="success" className="mb-0">
+            ✅ No problems found. Counts, names, video references and times are consistent.
+          </Alert>
+        ) : (
+          <>
+            <Alert variant="warning">
+              Found {issues.length} problem(s) in the current session. Repairing recomputes counts and names from the annotations,
+              moves annotations, trajectories and detector candidates of a missing video to the loaded video of the same name,
+              recalculates real-world times, gives duplicates new ids and recreates missing event types and movements.
+              Nothing is deleted; references to videos without a namesake stay reported until the video is added.
+            </Alert>
+            {issueTypes.map(type => {
+              const typeIssues = issues.filter(issue => issue.type === type);
+              return (
+                <div key={type} className="mb-3">
+                  <h6>
+                    {INTEGRITY_ISSUE_LABELS[type]} <Badge bg="secondary">{typeIssues.length}</Badge>
+                  </h6>
+                  <ul className="small mb-0">
+                    {typeIssues.slice(0, MAX_LISTED_ISSUES).map((issue, index) => (
+                      <li key={index}>{issue.message}</li>
+                    ))}
+                    {typeIssues.length > MAX_LISTED_ISSUES && (
+                      <li className="text-muted">and {typeIssues.length - MAX_LISTED_ISSUES} more</li>
+                    )}
+                  </ul>
+                </div>
+              );
+            })}
+          </>
+        )}
+      </Modal.Body>
+      <Modal.Footer>
+        <Button variant="secondary" onClick={onHide}>
+          Close
+        </Button>
+        <Button variant="primary" onClick={onRepair} disabled={issues.length === 0}>
+          🔧 Repair all
+        </Button>
+      </Modal.Footer>
+    </Modal>
+  );
+};
+
+export default IntegrityModal;
@@ -0,0 +1,139 @@
+import React from 'react';
+import { Button, Form } from 'react-bootstrap';
+import { Camera, EventType, NormalizedPoint, OverlayKind, OverlayShape } from '../types';
+
+interface OverlayEditorProps {
+  camera: Camera;
+  eventTypes: EventType[];
+  draft: { kind: OverlayKind; points: NormalizedPoint[] } | null;
+  onStartDrawing: (kind: OverlayKind) => void;
+  onFinishDrawing: () => void;
+  onCancelDrawing: () => void;
+  onOverlaysChange: (overlays: OverlayShape[]) => void;
+  showOverlays: boolean;
+  onShowOverlaysChange: (show: boolean) => void;
+}
+
+export const OVERLAY_KIND_LABELS: Record<OverlayKind, string> = {
+  line: '➖ Line',
+  zone: '⬠ Zone',
+  label: '🔤 Label'
+};
+
+const DRAWING_HINTS: Record<OverlayKind, string> = {
+  line: 'Click the two end points of the line on the video.',
+  zone: 'Click the corners of the zone on the video; double-click or press Finish to close it.',
+  label: 'Click where the label should be placed on the video.'
+};
+
+const OverlayEditor: React.FC<OverlayEditorProps> = ({
+  camera,
+  eventTypes,
+  draft,
+  onStartDrawing,
+  onFinishDrawing,
+  onCancelDrawing,
+  onOverlaysChange,
+  showOverlays,
+  onShowOverlaysChange
+}) => {
+  const updateShape = (shapeId: string, changes: Partial<OverlayShape>) => {
+    onOverlaysChange(camera.overlays.map(s => s.id === shapeId ? { ...s, ...changes } : s));
+  };
+
+  const toggleEventType = (shape: OverlayShape, eventTypeId: number) => {
+    const eventTypeIds = shape.eventTypeIds.includes(eventTypeId)
+      ? shape.eventTypeIds.filter(id => id !== eventTypeId)
+      : [...shape.eventTypeIds, eventTypeId];
+    updateShape(shape.id, { eventTypeIds });
+  };
+
+  return (
+    <div className="overlay-editor mb-2 p-2 border rounded">
+      <div className="d-flex flex-wrap align-items-center gap-1 mb-1">
+        <small className="text-muted me-1"><strong>Overlays of {camera.name}:</strong></small>
+        {draft ? (
+          <>
+            <small className="me-2">{DRAWING_HINTS[draft.kind]}</small>
+            {draft.kind === 'zone' && (
+              <Button size="sm" variant="primary" className="py-0" onClick={onFinishDrawing} disabled={draft.points.length < 3}>
+                Finish
+              </Button>
+            )}
+            <Button size="sm" variant="outline-secondary" className="py-0" onClick={onCancelDrawing}>
+              Cancel
+            </Button>
+          </>
+        ) : (
+          (Object.keys(OVERLAY_KIND_LABELS) as OverlayKind[]).map(kind => (
+            <Button key={kind} size="sm" variant="outline-secondary" className="py-0" onClick={() => onStartDrawing(kind)}>
+              {OVERLAY_KIND_LABELS[kind]}
+            </Button>
+          ))
+        )}
+        <Form.Check
+          type="switch"
+          id="show-overlays-switch"
+          className="ms-auto small"
+          label="Show"
+          checked={showOverlays}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => onShowOverlaysChange(e.target.checked)}
+        />
+      </div>
+
+      {camera.overlays.map(shape => (
+        <div key={shape.id} className="d-flex flex-wrap align-items-center gap-1 mb-1">
+          <Form.Control
+            type="color"
+            size="sm"
+            value={shape.color}
+            onChange={(e) => updateShape(shape.id, { color: e.target.value })}
+            style={{ width: '36px' }}
+            title="Change colour"
+          />
+          <small className="text-muted" style={{ width: '20px' }} title={shape.kind}>{OVERLAY_KIND_LABELS[shape.kind].split(' ')[0]}</small>
+          <Form.Control
+            key={shape.name}
+            type="text"
+            size="sm"
+            defaultValue={shape.name}
+            onBlur={(e: React.FocusEvent<HTMLInputElement>) => e.target.value.trim() && updateShape(shape.id, { name: e.target.value.trim() })}
+            onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+              if (e.key === 'Enter') e.currentTarget.blur();
+            }}
+            style={{ width: '140px' }}
+          />
+          {shape.kind !== 'label' && eventTypes.map(eventType => (
+            <Button
+              key={eventType.id}
+              size="sm"
+              className="py-0 px-1"
+              variant="outline-secondary"
+              style={shape.eventTypeIds.includes(eventType.id) ? { backgroundColor: eventType.color, borderColor: eventType.color, color: 'white' } : undefined}
+              onClick={() => toggleEventType(shape, eventType.id)}
+              title={`Count "${eventType.name}" at this ${shape.kind}`}
+            >
+              <small>{eventType.name}</small>
+            </Button>
+          ))}
+          <Button
+            size="sm"
+            variant="outline-danger"
+            className="py-0 ms-auto"
+            onClick={() => onOverlaysChange(camera.overlays.filter(s => s.id !== shape.id))}
+            title="Remove"
+          >
+            🗑️
+          </Button>
+        </div>
+      ))}
+      {camera.overlays.length === 0 && !draft && (
+        <small className="text-muted d-block">
+          Draw count lines (e.g. a stop bar), zones (e.g. a crosswalk) or labels over the video. Lines and zones can be linked to the event types they count.
+        </small>
+      )}
+    </div>
+  );
+};
+
+export default OverlayEditor;
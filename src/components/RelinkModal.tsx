@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, Button, Alert, Badge, Form, Table } from 'react-bootstrap';
+import { Timestamp, VideoFile } from '../types';
+import { formatTime } from '../utils';
+import { SessionVideo, VideoLink, DURATION_SHIFT_SECONDS, getVideoMatchScore, suggestVideoLinks, getSessionVideoTimestamps } from '../relink';
+
+interface RelinkModalProps {
+  show: boolean;
+  onHide: () => void;
+  sessionVideos: SessionVideo[]; // videos of the loaded session not linked yet
+  videos: VideoFile[]; // added files not linked yet
+  timestamps: Timestamp[];
+  onRelink: (links: VideoLink[]) => void;
+}
+
+const formatSize = (bytes?: number): string => bytes ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : '-';
+
+const RelinkModal: React.FC<RelinkModalProps> = ({ show, onHide, sessionVideos, videos, timestamps, onRelink }) => {
+  const [assignments, setAssignments] = useState<(string | null)[]>([]); // linked video id by session video
+
+  // Start from the suggestions every time the dialog opens
+  useEffect(() => {
+    if (show) setAssignments(suggestVideoLinks(sessionVideos, videos));
+  }, [show, sessionVideos, videos]);
+
+  // A file can be linked to one session video only; assigning it elsewhere moves it
+  const handleAssign = (index: number, videoId: string | null) => {
+    setAssignments(prev => sessionVideos.map((_, i) => i === index ? videoId : prev[i] === videoId ? null : prev[i] ?? null));
+  };
+
+  const links = sessionVideos.reduce((result, sessionVideo, index) => {
+    const video = videos.find(v => v.id === assignments[index]);
+    return video ? [...result, { sessionVideo, video }] : result;
+  }, [] as VideoLink[]);
+
+  return (
+    <Modal show={show} onHide={onHide} centered size="xl">
+      <Modal.Header closeButton>
+        <Modal.Title>Relink Videos</Modal.Title>
+      </Modal.Header>
+      <Modal.Body>
+        <Alert variant="info" className="small">
+          Link the added files to the videos of the loaded session. Suggestions are based on the filename, duration and file size,
+          so renamed or re-encoded files are found as well. Linked files get the camera, start time and clock anchors of their
+          session video, and all annotations, trajectories, reviewed stretches and detector candidates move to them.
+        </Alert>
+        <Table size="sm" className="align-middle">
+          <thead>
+            <tr>
+              <th>Session video</th>
+              <th>Duration</th>
+              <th>Size</th>
+              <th>Annotations</th>
+              <th>Added file</th>
+              <th>Match</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sessionVideos.map((sessionVideo, index) => {
+              const video = videos.find(v => v.id === assignments[index]);
+              const options = videos
+                .map(v => ({ video: v, score: getVideoMatchScore(sessionVideo, v) }))
+                .sort((a, b) => b.score - a.score);
+              const sessionTimestamps = getSessionVideoTimestamps(timestamps, sessionVideo);
+              const durationDifference = video ? video.duration - sessionVideo.duration : 0;
+              const beyondEnd = video ? sessionTimestamps.filter(t => t.atSecondCurrent > video.duration).length : 0;
+              const score = video ? getVideoMatchScore(sessionVideo, video) : null;
+
+              return (
+                <tr key={`${index}-${sessionVideo.name}`}>
+                  <td>
+                    {sessionVideo.name}
+                    <small className="text-muted d-block">{sessionVideo.startDateTime || sessionVideo.startTime}</small>
+                  </td>
+                  <td>{formatTime(sessionVideo.duration)}</td>
+                  <td>{formatSize(sessionVideo.size)}</td>
+                  <td>{sessionTimestamps.length}</td>
+                  <td>
+                    <Form.Select
+                      size="sm"
+                      value={assignments[index] ?? ''}
+                      onChange={(e: React.ChangeEvent<HTMLSelectElement>) => handleAssign(index, e.target.value || null)}
+                    >
+                      <option value="">– not linked –</option>
+                      {options.map(option => (
+                        <option key={option.video.id} value={option.video.id}>
+                          {option.video.name} ({formatTime(option.video.duration)}, {formatSize(option.video.file.size)}, {Math.round(option.score * 100)}%)
+                        </option>
+                      ))}
+                    </Form.Select>
+                    {video && Math.abs(durationDifference) > DURATION_SHIFT_SECONDS && (
+                      <small className="text-danger d-block">
+                        ⚠️ Duration differs by {durationDifference > 0 ? '+' : ''}{durationDifference.toFixed(1)} s – annotations may be shifted
+                        {beyondEnd > 0 && `; ${beyondEnd} annotation(s) lie beyond the end of the file`}
+                      </small>
+                    )}
+                  </td>
+                  <td>
+                    {score !== null && (
+                      <Badge bg={score >= 0.9 ? 'success' : score >= 0.6 ? 'warning' : 'danger'}>{Math.round(score * 100)}%</Badge>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </Table>
+        {videos.length === 0 && (
+          <small className="text-muted">Add the video files first; they can be linked here afterwards.</small>
+        )}
+      </Modal.Body>
+      <Modal.Footer>
+        <Button variant="secondary" onClick={onHide}>
+          Later
+        </Button>
+        <Button variant="primary" onClick={() => onRelink(links)} disabled={links.length === 0}>
+          🔗 Relink {links.length} video(s)
+        </Button>
+      </Modal.Footer>
+    </Modal>
+  );
+};
+
+export default RelinkModal;
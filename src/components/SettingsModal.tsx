@@ -8,6 +8,10 @@ interface SettingsModalProps {
   seekSecondsShift: number;
   onSeekSecondsChange: (seconds: number) => void;
   onSeekSecondsShiftChange: (seconds: number) => void;
+  chordMode: boolean;
+  chordTimeoutMs: number;
+  onChordModeChange: (enabled: boolean) => void;
+  onChordTimeoutMsChange: (timeoutMs: number) => void;
 }
 
 const SettingsModal: React.FC<SettingsModalProps> = ({
@@ -16,20 +20,30 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
   seekSeconds,
   seekSecondsShift,
   onSeekSecondsChange,
-  onSeekSecondsShiftChange
+  onSeekSecondsShiftChange,
+  chordMode,
+  chordTimeoutMs,
+  onChordModeChange,
+  onChordTimeoutMsChange
 }) => {
   const [localSeekSeconds, setLocalSeekSeconds] = useState(seekSeconds);
   const [localSeekSecondsShift, setLocalSeekSecondsShift] = useState(seekSecondsShift);
+  const [localChordMode, setLocalChordMode] = useState(chordMode);
+  const [localChordTimeoutMs, setLocalChordTimeoutMs] = useState(chordTimeoutMs);
 
   const handleSave = () => {
     onSeekSecondsChange(localSeekSeconds);
     onSeekSecondsShiftChange(localSeekSecondsShift);
+    onChordModeChange(localChordMode);
+    onChordTimeoutMsChange(localChordTimeoutMs);
     onHide();
   };
 
   const handleCancel = () => {
     setLocalSeekSeconds(seekSeconds);
     setLocalSeekSecondsShift(seekSecondsShift);
+    setLocalChordMode(chordMode);
+    setLocalChordTimeoutMs(chordTimeoutMs);
     onHide();
   };
 
@@ -74,6 +88,38 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
               </Form.Text>
             </Col>
           </Row>
+          <Row className="mb-3">
+            <Col>
+              <Form.Check
+                type="switch"
+                id="chord-mode-switch"
+                label="Chord mode (event key followed by movement key)"
+                checked={localChordMode}
+                onChange={(e) => setLocalChordMode(e.target.checked)}
+              />
+              <Form.Text className="text-muted">
+                Records one event with both dimensions, e.g. vehicle class × turning movement. Requires at least one movement.
+              </Form.Text>
+            </Col>
+          </Row>
+          <Row className="mb-3">
+            <Col>
+              <Form.Label>Chord Timeout (seconds)</Form.Label>
+              <Form.Control
+                type="number"
+                min="0.5"
+                max="10"
+                step="0.5"
+                value={localChordTimeoutMs / 1000}
+                disabled={!localChordMode}
+                onChange={(e) => setLocalChordTimeoutMs((parseFloat(e.target.value) || 2) * 1000)}
+                onKeyDown={(e) => e.stopPropagation()}
+              />
+              <Form.Text className="text-muted">
+                If no movement key follows in time, the event is recorded without a movement
+              </Form.Text>
+            </Col>
+          </Row>
         </Form>
       </Modal.Body>
       <Modal.Footer>
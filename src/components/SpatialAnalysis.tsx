@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { Row, Col, Form, ButtonGroup, Button } from 'react-bootstrap';
+import { Camera, EventType, NormalizedPoint, Timestamp } from '../types';
+
+interface SpatialAnalysisProps {
+  timestamps: Timestamp[];
+  eventTypes: EventType[];
+  cameras: Camera[];
+}
+
+type SpatialMode = 'scatter' | 'heatmap';
+
+// Frame drawn at 16:9; points are normalized so other aspect ratios are stretched
+const PLOT_WIDTH = 480;
+const PLOT_HEIGHT = 270;
+const HEATMAP_COLUMNS = 32;
+const HEATMAP_ROWS = 18;
+
+// Where events happened in the camera frame, from events marked by clicking on the video
+const SpatialAnalysis: React.FC<SpatialAnalysisProps> = ({ timestamps, eventTypes, cameras }) => {
+  const [cameraId, setCameraId] = useState<string>(cameras[0]?.id || '');
+  const [mode, setMode] = useState<SpatialMode>('scatter');
+  const [hiddenEventIds, setHiddenEventIds] = useState<number[]>([]);
+
+  const camera = cameras.find(c => c.id === cameraId) || cameras[0];
+  const cameraTimestamps = timestamps.filter(t => t.point && (!t.cameraId || t.cameraId === camera?.id));
+  const visibleTimestamps = cameraTimestamps.filter(t => !hiddenEventIds.includes(t.eventId));
+  const pointEventTypes = eventTypes.filter(e => cameraTimestamps.some(t => t.eventId === e.id));
+
+  const toPlot = (point: NormalizedPoint) => ({ x: point.x * PLOT_WIDTH, y: point.y * PLOT_HEIGHT });
+
+  const toggleEventType = (eventId: number) => {
+    setHiddenEventIds(prev => prev.includes(eventId) ? prev.filter(id => id !== eventId) : [...prev, eventId]);
+  };
+
+  // Number of visible events in each cell of the frame
+  const heatmapCells = new Array(HEATMAP_COLUMNS * HEATMAP_ROWS).fill(0);
+  visibleTimestamps.forEach(t => {
+    const point = t.point as NormalizedPoint;
+    const column = Math.min(HEATMAP_COLUMNS - 1, Math.floor(point.x * HEATMAP_COLUMNS));
+    const row = Math.min(HEATMAP_ROWS - 1, Math.floor(point.y * HEATMAP_ROWS));
+    heatmapCells[row * HEATMAP_COLUMNS + column]++;
+  });
+  const maxCellCount = Math.max(1, ...heatmapCells);
+  const cellWidth = PLOT_WIDTH / HEATMAP_COLUMNS;
+  const cellHeight = PLOT_HEIGHT / HEATMAP_ROWS;
+
+  return (
+    <>
+      <Form className="mb-3">
+        <Row className="g-3">
+          {cameras.length > 1 && (
+            <Col md={6}>
+              <Form.Label>Camera</Form.Label>
+              <Form.Select value={camera?.id} onChange={(e) => setCameraId(e.target.value)}>
+                {cameras.map(c => (
+                  <option key={c.id} value={c.id}>{c.name}</option>
+                ))}
+              </Form.Select>
+            </Col>
+          )}
+          <Col md={6}>
+            <Form.Label>Display</Form.Label>
+            <div>
+              <ButtonGroup size="sm">
+                <Button variant={mode === 'scatter' ? 'primary' : 'outline-primary'} onClick={() => setMode('scatter')}>Scatter</Button>
+                <Button variant={mode === 'heatmap' ? 'primary' : 'outline-primary'} onClick={() => setMode('heatmap')}>Heatmap</Button>
+              </ButtonGroup>
+            </div>
+          </Col>
+        </Row>
+      </Form>
+
+      <svg viewBox={`0 0 ${PLOT_WIDTH} ${PLOT_HEIGHT}`} className="spatial-plot border rounded mb-2">
+        <rect x={0} y={0} width={PLOT_WIDTH} height={PLOT_HEIGHT} fill="#212529" />
+        {mode === 'heatmap' && heatmapCells.map((count, index) => count > 0 && (
+          <rect
+            key={index}
+            x={(index % HEATMAP_COLUMNS) * cellWidth}
+            y={Math.floor(index / HEATMAP_COLUMNS) * cellHeight}
+            width={cellWidth}
+            height={cellHeight}
+            fill="#dc3545"
+            fillOpacity={0.15 + 0.85 * (count / maxCellCount)}
+          >
+            <title>{count} event(s)</title>
+          </rect>
+        ))}
+        {camera?.overlays.filter(shape => shape.kind !== 'label').map(shape => (
+          <polygon
+            key={shape.id}
+            points={shape.points.map(p => `${toPlot(p).x},${toPlot(p).y}`).join(' ')}
+            stroke={shape.color}
+            strokeWidth={2}
+            strokeDasharray="6 4"
+            fill="none"
+          >
+            <title>{shape.name}</title>
+          </polygon>
+        ))}
+        {mode === 'scatter' && visibleTimestamps.map(t => (
+          <circle
+            key={t.id}
+            cx={toPlot(t.point as NormalizedPoint).x}
+            cy={toPlot(t.point as NormalizedPoint).y}
+            r={4}
+            fill={eventTypes.find(e => e.id === t.eventId)?.color || '#6c757d'}
+            fillOpacity={0.8}
+          >
+            <title>{`${t.eventName} at ${t.timeHHMMSS}${t.zoneName ? ` in ${t.zoneName}` : ''}`}</title>
+          </circle>
+        ))}
+      </svg>
+
+      <div className="d-flex flex-wrap gap-1 mb-2">
+        {pointEventTypes.map(eventType => (
+          <Button
+            key={eventType.id}
+            size="sm"
+            className="py-0 px-1"
+            variant="outline-secondary"
+            style={!hiddenEventIds.includes(eventType.id) ? { backgroundColor: eventType.color, borderColor: eventType.color, color: 'white' } : undefined}
+            onClick={() => toggleEventType(eventType.id)}
+            title="Show or hide"
+          >
+            <small>{eventType.name} ({cameraTimestamps.filter(t => t.eventId === eventType.id).length})</small>
+          </Button>
+        ))}
+      </div>
+
+      <small className="text-muted">
+        Uses the Simple Counter time range. Only events marked by clicking on the video have a position.
+      </small>
+    </>
+  );
+};
+
+export default SpatialAnalysis;
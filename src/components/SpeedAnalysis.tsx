@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { Row, Col, Form, Table } from 'react-bootstrap';
+import { EventType, Timestamp } from '../types';
+import { calculatePercentile } from '../utils';
+
+interface SpeedAnalysisProps {
+  timestamps: Timestamp[];
+  eventTypes: EventType[];
+}
+
+const getSpeedStatistics = (speeds: number[]) => {
+  const mean = speeds.reduce((sum, speed) => sum + speed, 0) / Math.max(1, speeds.length);
+  return {
+    count: speeds.length,
+    mean,
+    median: calculatePercentile(speeds, 0.5),
+    percentile85: calculatePercentile(speeds, 0.85),
+    min: speeds.length > 0 ? Math.min(...speeds) : 0,
+    max: speeds.length > 0 ? Math.max(...speeds) : 0,
+    standardDeviation: Math.sqrt(speeds.reduce((sum, speed) => sum + (speed - mean) ** 2, 0) / Math.max(1, speeds.length - 1))
+  };
+};
+
+// Spot-speed statistics and distribution of the vehicles measured in speed studies
+const SpeedAnalysis: React.FC<SpeedAnalysisProps> = ({ timestamps, eventTypes }) => {
+  const [speedTrapId, setSpeedTrapId] = useState<string>('all');
+  const [eventId, setEventId] = useState<string>('all');
+  const [binSizeKmh, setBinSizeKmh] = useState<number>(5);
+
+  const measured = timestamps.filter(t => t.speed);
+  const speedTraps = measured.reduce((traps, t) => (
+    traps.some(trap => trap.id === t.speed?.speedTrapId) ? traps : [...traps, { id: t.speed?.speedTrapId || '', name: t.speed?.speedTrapName || '' }]
+  ), [] as { id: string; name: string }[]);
+  const trapTimestamps = measured.filter(t => speedTrapId === 'all' || t.speed?.speedTrapId === speedTrapId);
+  const selectedTimestamps = trapTimestamps.filter(t => eventId === 'all' || t.eventId === Number(eventId));
+  const speeds = selectedTimestamps.map(t => t.speed?.speedKmh || 0);
+  const statistics = getSpeedStatistics(speeds);
+
+  // Distribution in bins of the chosen width
+  const binSize = Math.max(1, binSizeKmh);
+  const firstBin = Math.floor(statistics.min / binSize);
+  const binCount = speeds.length > 0 ? Math.floor(statistics.max / binSize) - firstBin + 1 : 0;
+  const bins = Array.from({ length: binCount }, (_, index) => {
+    const start = (firstBin + index) * binSize;
+    return { start, end: start + binSize, count: speeds.filter(speed => speed >= start && speed < start + binSize).length };
+  });
+  const maxBinCount = Math.max(1, ...bins.map(bin => bin.count));
+  const barColor = eventTypes.find(e => e.id === Number(eventId))?.color || '#0d6efd';
+
+  const classRows = eventTypes
+    .map(eventType => ({ eventType, ...getSpeedStatistics(trapTimestamps.filter(t => t.eventId === eventType.id).map(t => t.speed?.speedKmh || 0)) }))
+    .filter(row => row.count > 0);
+
+  return (
+    <>
+      <Form className="mb-3">
+        <Row className="g-3">
+          {speedTraps.length > 1 && (
+            <Col md={4}>
+              <Form.Label>Speed Trap</Form.Label>
+              <Form.Select value={speedTrapId} onChange={(e) => setSpeedTrapId(e.target.value)}>
+                <option value="all">All speed traps</option>
+                {speedTraps.map(trap => (
+                  <option key={trap.id} value={trap.id}>{trap.name}</option>
+                ))}
+              </Form.Select>
+            </Col>
+          )}
+          <Col md={4}>
+            <Form.Label>Vehicle Class</Form.Label>
+            <Form.Select value={eventId} onChange={(e) => setEventId(e.target.value)}>
+              <option value="all">All classes</option>
+              {classRows.map(row => (
+                <option key={row.eventType.id} value={row.eventType.id}>{row.eventType.name}</option>
+              ))}
+            </Form.Select>
+          </Col>
+          <Col md={4}>
+            <Form.Label>Bin Size (km/h)</Form.Label>
+            <Form.Control
+              type="number"
+              min={1}
+              max={50}
+              value={binSizeKmh}
+              onChange={(e) => setBinSizeKmh(Number(e.target.value))}
+            />
+          </Col>
+        </Row>
+      </Form>
+
+      <Table bordered size="sm" className="mb-3">
+        <tbody>
+          <tr>
+            <td>Vehicles</td>
+            <td><strong>{statistics.count}</strong></td>
+            <td>Mean</td>
+            <td><strong>{statistics.mean.toFixed(1)} km/h</strong></td>
+          </tr>
+          <tr>
+            <td>Median</td>
+            <td>{statistics.median.toFixed(1)} km/h</td>
+            <td>85th percentile</td>
+            <td><strong>{statistics.percentile85.toFixed(1)} km/h</strong></td>
+          </tr>
+          <tr>
+            <td>Min – Max</td>
+            <td>{statistics.min.toFixed(1)} – {statistics.max.toFixed(1)} km/h</td>
+            <td>Std. deviation</td>
+            <td>{statistics.standardDeviation.toFixed(1)} km/h</td>
+          </tr>
+        </tbody>
+      </Table>
+
+      <h6>Speed Distribution</h6>
+      <div style={{ maxHeight: '300px', overflowY: 'auto' }} className="mb-3">
+        <Table size="sm" className="mb-0">
+          <tbody>
+            {bins.map(bin => (
+              <tr key={bin.start}>
+                <td style={{ width: '110px', fontSize: '0.8rem' }}>{bin.start} – {bin.end} km/h</td>
+                <td>
+                  <div
+                    style={{
+                      width: `${(bin.count / maxBinCount) * 100}%`,
+                      minWidth: bin.count > 0 ? '2px' : 0,
+                      height: '14px',
+                      backgroundColor: barColor,
+                      borderRadius: '0 2px 2px 0'
+                    }}
+                    title={`${bin.count} vehicle(s)`}
+                  />
+                </td>
+                <td style={{ width: '50px' }}><strong>{bin.count}</strong></td>
+              </tr>
+            ))}
+          </tbody>
+        </Table>
+      </div>
+
+      {classRows.length > 1 && (
+        <Table striped bordered hover size="sm">
+          <thead>
+            <tr>
+              <th>Class</th>
+              <th>Vehicles</th>
+              <th>Mean</th>
+              <th>85th percentile</th>
+            </tr>
+          </thead>
+          <tbody>
+            {classRows.map(row => (
+              <tr key={row.eventType.id}>
+                <td>
+                  <span style={{ color: row.eventType.color, fontWeight: 'bold' }}>{row.eventType.name}</span>
+                </td>
+                <td>{row.count}</td>
+                <td>{row.mean.toFixed(1)} km/h</td>
+                <td>{row.percentile85.toFixed(1)} km/h</td>
+              </tr>
+            ))}
+          </tbody>
+        </Table>
+      )}
+
+      <small className="text-muted">
+        Uses the Simple Counter time range. Speeds are measured between the entry and exit crossings of each vehicle.
+      </small>
+    </>
+  );
+};
+
+export default SpeedAnalysis;
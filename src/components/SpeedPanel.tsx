@@ -0,0 +1,181 @@
+import React from 'react';
+import { Button, Form } from 'react-bootstrap';
+import { Camera, EventType, SpeedTrap } from '../types';
+import { generateId } from '../utils';
+
+interface SpeedPanelProps {
+  camera: Camera;
+  eventTypes: EventType[]; // point event types, used as vehicle classes
+  onSpeedTrapsChange: (speedTraps: SpeedTrap[]) => void;
+  speedTrapId: string | null;
+  onSpeedTrapIdChange: (speedTrapId: string) => void;
+  speedEventId: number | null;
+  onSpeedEventIdChange: (eventId: number) => void;
+  entryTime: string | null; // wall time of the marked entry crossing
+  onMarkEntry: () => void;
+  onMarkExit: () => void;
+  onCancelEntry: () => void;
+  lastSpeedKmh: number | null;
+  onClose: () => void;
+}
+
+const SpeedPanel: React.FC<SpeedPanelProps> = ({
+  camera,
+  eventTypes,
+  onSpeedTrapsChange,
+  speedTrapId,
+  onSpeedTrapIdChange,
+  speedEventId,
+  onSpeedEventIdChange,
+  entryTime,
+  onMarkEntry,
+  onMarkExit,
+  onCancelEntry,
+  lastSpeedKmh,
+  onClose
+}) => {
+  const lines = camera.overlays.filter(s => s.kind === 'line');
+  const speedTrap = camera.speedTraps.find(t => t.id === speedTrapId);
+
+  const updateSpeedTrap = (id: string, changes: Partial<SpeedTrap>) => {
+    onSpeedTrapsChange(camera.speedTraps.map(t => t.id === id ? { ...t, ...changes } : t));
+  };
+
+  const handleAddSpeedTrap = () => {
+    const distance = Number(prompt('Distance between the two lines in metres:', '20'));
+    if (!(distance > 0)) return;
+
+    const newSpeedTrap: SpeedTrap = {
+      id: generateId(),
+      name: `Speed trap ${camera.speedTraps.length + 1}`,
+      entryLineId: lines[0].id,
+      exitLineId: lines[1].id,
+      distance
+    };
+    onSpeedTrapsChange([...camera.speedTraps, newSpeedTrap]);
+    onSpeedTrapIdChange(newSpeedTrap.id);
+  };
+
+  const renderLineSelect = (trap: SpeedTrap, field: 'entryLineId' | 'exitLineId', title: string) => (
+    <Form.Select
+      size="sm"
+      className="w-auto py-0"
+      value={trap[field]}
+      onChange={(e: React.ChangeEvent<HTMLSelectElement>) => updateSpeedTrap(trap.id, { [field]: e.target.value })}
+      title={title}
+    >
+      {!lines.some(l => l.id === trap[field]) && <option value="">-</option>}
+      {lines.map(line => (
+        <option key={line.id} value={line.id}>{line.name}</option>
+      ))}
+    </Form.Select>
+  );
+
+  return (
+    <div className="overlay-editor mb-2 p-2 border rounded">
+      <div className="d-flex flex-wrap align-items-center gap-1 mb-1">
+        <small className="text-muted me-1"><strong>Speed study in {camera.name}:</strong></small>
+        <Button size="sm" variant="outline-secondary" className="py-0" onClick={handleAddSpeedTrap} disabled={lines.length < 2}>
+          ➕ Speed trap
+        </Button>
+        <Button size="sm" variant="outline-secondary" className="py-0 ms-auto" onClick={onClose}>
+          Done
+        </Button>
+      </div>
+
+      {camera.speedTraps.map(trap => (
+        <div key={trap.id} className="d-flex flex-wrap align-items-center gap-1 mb-1">
+          <Form.Check
+            type="radio"
+            name="speed-trap"
+            id={`speed-trap-${trap.id}`}
+            checked={trap.id === speedTrapId}
+            onChange={() => onSpeedTrapIdChange(trap.id)}
+            title="Measure with this speed trap"
+          />
+          <Form.Control
+            key={trap.name}
+            type="text"
+            size="sm"
+            defaultValue={trap.name}
+            onBlur={(e: React.FocusEvent<HTMLInputElement>) => e.target.value.trim() && updateSpeedTrap(trap.id, { name: e.target.value.trim() })}
+            onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+              if (e.key === 'Enter') e.currentTarget.blur();
+            }}
+            style={{ width: '130px' }}
+          />
+          {renderLineSelect(trap, 'entryLineId', 'Entry line')}
+          <small>→</small>
+          {renderLineSelect(trap, 'exitLineId', 'Exit line')}
+          <Form.Control
+            key={trap.distance}
+            type="number"
+            size="sm"
+            min={0.1}
+            step={0.1}
+            defaultValue={trap.distance}
+            onBlur={(e: React.FocusEvent<HTMLInputElement>) => {
+              const distance = Number(e.target.value);
+              if (distance > 0) updateSpeedTrap(trap.id, { distance });
+              else e.target.value = `${trap.distance}`;
+            }}
+            onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+              if (e.key === 'Enter') e.currentTarget.blur();
+            }}
+            style={{ width: '80px' }}
+            title="Distance between the lines"
+          />
+          <small className="text-muted">m</small>
+          <Button
+            size="sm"
+            variant="outline-danger"
+            className="py-0 ms-auto"
+            onClick={() => onSpeedTrapsChange(camera.speedTraps.filter(t => t.id !== trap.id))}
+            title="Remove"
+          >
+            🗑️
+          </Button>
+        </div>
+      ))}
+
+      {speedTrap ? (
+        <div className="d-flex flex-wrap align-items-center gap-1 mt-2">
+          <Form.Select
+            size="sm"
+            className="w-auto py-0"
+            value={speedEventId ?? ''}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => onSpeedEventIdChange(Number(e.target.value))}
+            title="Vehicle class of the measured vehicle"
+          >
+            {eventTypes.map(eventType => (
+              <option key={eventType.id} value={eventType.id}>{eventType.name}</option>
+            ))}
+          </Form.Select>
+          {entryTime ? (
+            <>
+              <small className="mx-1">Entry at {entryTime}; step to the frame where the vehicle crosses the exit line.</small>
+              <Button size="sm" variant="primary" className="py-0" onClick={onMarkExit}>⏱️ Exit</Button>
+              <Button size="sm" variant="outline-secondary" className="py-0" onClick={onCancelEntry}>Cancel</Button>
+            </>
+          ) : (
+            <>
+              <Button size="sm" variant="primary" className="py-0" onClick={onMarkEntry} disabled={!speedEventId}>⏱️ Entry</Button>
+              <small className="mx-1">at the frame where the vehicle crosses the entry line.</small>
+            </>
+          )}
+          {lastSpeedKmh !== null && (
+            <small className="ms-auto"><strong>Last: {lastSpeedKmh.toFixed(1)} km/h</strong></small>
+          )}
+        </div>
+      ) : (
+        <small className="text-muted d-block">
+          {lines.length < 2
+            ? 'Draw the two reference lines with 📐 Overlays first, then add a speed trap with the distance between them.'
+            : 'Add a speed trap with the distance between its two lines to start measuring.'}
+        </small>
+      )}
+    </div>
+  );
+};
+
+export default SpeedPanel;
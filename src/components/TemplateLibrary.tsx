@@ -0,0 +1,157 @@
+import React, { useRef, useState } from 'react';
+import { Button, Row, Col, Form, Alert } from 'react-bootstrap';
+import { CountTemplate, EventType, Movement, FilenamePattern } from '../types';
+import { BUILT_IN_TEMPLATES, loadUserTemplates, saveUserTemplates, createTemplate, exportTemplate, parseTemplateData } from '../templates';
+
+interface TemplateLibraryProps {
+  eventTypes: EventType[];
+  movements: Movement[];
+  chordMode: boolean;
+  filenamePatterns: FilenamePattern[];
+  hasAnnotations: boolean;
+  onApplyTemplate: (template: CountTemplate) => void;
+}
+
+const TemplateLibrary: React.FC<TemplateLibraryProps> = ({ eventTypes, movements, chordMode, filenamePatterns, hasAnnotations, onApplyTemplate }) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [userTemplates, setUserTemplates] = useState<CountTemplate[]>(loadUserTemplates);
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string>(BUILT_IN_TEMPLATES[0].id);
+  const [message, setMessage] = useState<{ variant: string; text: string } | null>(null);
+
+  const templates = [...BUILT_IN_TEMPLATES, ...userTemplates];
+  const selectedTemplate = templates.find(t => t.id === selectedTemplateId);
+
+  const updateUserTemplates = (updatedTemplates: CountTemplate[]) => {
+    setUserTemplates(updatedTemplates);
+    saveUserTemplates(updatedTemplates);
+  };
+
+  const handleApply = () => {
+    if (!selectedTemplate) return;
+    if (hasAnnotations) {
+      setMessage({ variant: 'danger', text: 'Cannot apply a template: annotations exist. Templates can only be applied when starting a new session.' });
+      return;
+    }
+    onApplyTemplate(selectedTemplate);
+    setMessage({ variant: 'success', text: `Template "${selectedTemplate.name}" applied.` });
+  };
+
+  const handleSaveCurrent = () => {
+    const name = prompt('Enter a name for the template:', 'My count template');
+    if (!name) return;
+
+    const template = createTemplate(name, eventTypes, movements, chordMode, filenamePatterns);
+    updateUserTemplates([...userTemplates, template]);
+    setSelectedTemplateId(template.id);
+    setMessage({ variant: 'success', text: `Current event setup and filename patterns saved as template "${name}".` });
+  };
+
+  const handleDelete = () => {
+    if (!selectedTemplate || selectedTemplate.builtIn) return;
+    if (!window.confirm(`Delete template "${selectedTemplate.name}"?`)) return;
+
+    updateUserTemplates(userTemplates.filter(t => t.id !== selectedTemplate.id));
+    setSelectedTemplateId(BUILT_IN_TEMPLATES[0].id);
+  };
+
+  const handleImportFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const importedTemplates = parseTemplateData(await file.text());
+      if (!importedTemplates) {
+        setMessage({ variant: 'danger', text: 'Invalid template file format. Please select a valid count template JSON file.' });
+        return;
+      }
+
+      updateUserTemplates([...userTemplates, ...importedTemplates]);
+      setSelectedTemplateId(importedTemplates[0].id);
+      setMessage({ variant: 'success', text: `Imported ${importedTemplates.length} template(s).` });
+    } finally {
+      if (importInputRef.current) {
+        importInputRef.current.value = '';
+      }
+    }
+  };
+
+  return (
+    <div className="mb-4 p-3 border rounded">
+      <h6 className="mb-2">🧩 Count Template</h6>
+
+      {message && (
+        <Alert variant={message.variant} dismissible onClose={() => setMessage(null)} className="py-2">
+          {message.text}
+        </Alert>
+      )}
+
+      <Row className="g-2 align-items-center">
+        <Col md={5}>
+          <Form.Select
+            size="sm"
+            value={selectedTemplateId}
+            onChange={(e) => setSelectedTemplateId(e.target.value)}
+          >
+            <optgroup label="Built-in">
+              {BUILT_IN_TEMPLATES.map(template => (
+                <option key={template.id} value={template.id}>{template.name}</option>
+              ))}
+            </optgroup>
+            {userTemplates.length > 0 && (
+              <optgroup label="My templates">
+                {userTemplates.map(template => (
+                  <option key={template.id} value={template.id}>{template.name}</option>
+                ))}
+              </optgroup>
+            )}
+          </Form.Select>
+        </Col>
+        <Col xs="auto">
+          <Button size="sm" variant="primary" onClick={handleApply} disabled={!selectedTemplate || hasAnnotations}>
+            Apply
+          </Button>
+        </Col>
+        <Col xs="auto" className="d-flex gap-1">
+          <Button size="sm" variant="outline-secondary" onClick={handleSaveCurrent} title="Save the current event types as a template">
+            💾 Save current
+          </Button>
+          <Button size="sm" variant="outline-secondary" onClick={() => importInputRef.current?.click()} title="Import templates from a JSON file">
+            📂 Import
+          </Button>
+          <Button size="sm" variant="outline-secondary" onClick={() => selectedTemplate && exportTemplate(selectedTemplate)} disabled={!selectedTemplate} title="Export the selected template as JSON">
+            📥 Export
+          </Button>
+          <Button size="sm" variant="outline-danger" onClick={handleDelete} disabled={!selectedTemplate || selectedTemplate.builtIn} title="Delete the selected template">
+            🗑️
+          </Button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json"
+            style={{ display: 'none' }}
+            onChange={handleImportFileSelect}
+          />
+        </Col>
+      </Row>
+
+      {selectedTemplate && (
+        <small className="text-muted d-block mt-2">
+          {selectedTemplate.eventTypes.map(e => `${e.name}${e.hotkey ? ` (${e.hotkey})` : ''}`).join(', ')}
+          {selectedTemplate.chordMode && selectedTemplate.movements.length > 0 && (
+            <> × {selectedTemplate.movements.map(m => `${m.name}${m.hotkey ? ` (${m.hotkey})` : ''}`).join(', ')}</>
+          )}
+          {(selectedTemplate.filenamePatterns || []).length > 0 && (
+            <> | Filename patterns: {(selectedTemplate.filenamePatterns || []).map(p => p.template).join(', ')}</>
+          )}
+        </small>
+      )}
+      {hasAnnotations && (
+        <small className="text-muted d-block mt-1">
+          Templates can only be applied when starting a new session (no annotations yet).
+        </small>
+      )}
+    </div>
+  );
+};
+
+export default TemplateLibrary;
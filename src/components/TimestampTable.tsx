@@ -1,13 +1,16 @@
 import React, { useEffect, useRef, useState, forwardRef, useImperativeHandle } from 'react';
 import { Card, Table, Button, Dropdown, Row, Col, Form } from 'react-bootstrap';
-import { Timestamp, EventType } from '../types';
-import { exportToCSV } from '../utils';
+import { Timestamp, EventType, EventKind, Movement, AttributeValue } from '../types';
+import { exportToCSV, formatTime, formatAttributeValue, recalculateEventCounts } from '../utils';
+import { exportContactSheet } from '../thumbnails';
 
 interface TimestampTableProps {
   timestamps: Timestamp[];
   onTimestampsChange: (timestamps: Timestamp[]) => void;
+  thumbnails: Record<string, string>; // frame snapshots by timestamp id
   eventTypes: EventType[];
   onEventTypesChange: (eventTypes: EventType[]) => void;
+  movements: Movement[];
   currentTime: number;
   onSeekTo: (time: number) => void;
   onEditNote: (timestamp: Timestamp) => void;
@@ -21,8 +24,10 @@ export interface TimestampTableRef {
 const TimestampTable = forwardRef<TimestampTableRef, TimestampTableProps>(({
   timestamps,
   onTimestampsChange,
+  thumbnails,
   eventTypes,
   onEventTypesChange,
+  movements,
   currentTime,
   onSeekTo,
   onEditNote,
@@ -98,25 +103,185 @@ const TimestampTable = forwardRef<TimestampTableRef, TimestampTableProps>(({
     }
   };
 
+  // Points and intervals cannot be converted into each other, so an annotation only changes to a type of its own kind
+  const getTimestampKind = (timestamp: Timestamp): EventKind => timestamp.endSecondFirst !== undefined ? 'interval' : 'point';
+
   const handleEventTypeChange = (timestampId: string, newEventId: number) => {
     const eventType = eventTypes.find(e => e.id === newEventId);
-    if (!eventType) return;
+    const timestamp = timestamps.find(t => t.id === timestampId);
+    if (!eventType || !timestamp || eventType.kind !== getTimestampKind(timestamp)) return;
 
-    onTimestampsChange(timestamps.map(t => 
+    // Only one interval of a type can be open at a time
+    if (timestamp.endSecondFirst === null && timestamps.some(t => t.id !== timestampId && t.eventId === newEventId && t.endSecondFirst === null)) {
+      alert(`"${eventType.name}" already has an open interval. Please stop it first.`);
+      return;
+    }
+
+    const updatedTimestamps = timestamps.map(t => 
       t.id === timestampId 
         ? { ...t, eventId: newEventId, eventName: eventType.name }
         : t
+    );
+    onTimestampsChange(updatedTimestamps);
+    onEventTypesChange(recalculateEventCounts(eventTypes, updatedTimestamps));
+  };
+
+  const handleMovementChange = (timestampId: string, movementId?: number) => {
+    const movement = movements.find(m => m.id === movementId);
+
+    onTimestampsChange(timestamps.map(t => 
+      t.id === timestampId 
+        ? { ...t, movementId: movement?.id, movementName: movement?.name }
+        : t
     ));
   };
 
+  const handleAttributeChange = (timestampId: string, attributeId: string, value: AttributeValue | undefined) => {
+    onTimestampsChange(timestamps.map(t => {
+      if (t.id !== timestampId) return t;
+      const attributes = { ...t.attributes };
+      if (value === undefined) {
+        delete attributes[attributeId];
+      } else {
+        attributes[attributeId] = value;
+      }
+      return { ...t, attributes };
+    }));
+  };
+
+  const getEventAttributes = (eventId: number) => {
+    return eventTypes.find(e => e.id === eventId)?.attributes || [];
+  };
+
+  const hasAttributes = eventTypes.some(e => e.attributes.length > 0);
+  // The camera is only shown once events were marked in more than one camera view
+  const hasCameras = new Set(timestamps.map(t => t.cameraId).filter(Boolean)).size > 1;
+
+  // Short summary of the attribute values, e.g. "Occupancy: 2, Trailer: yes"
+  const getAttributeSummary = (timestamp: Timestamp): string => {
+    return getEventAttributes(timestamp.eventId)
+      .filter(a => timestamp.attributes?.[a.id] !== undefined)
+      .map(a => `${a.name}: ${formatAttributeValue(timestamp.attributes?.[a.id])}`)
+      .join(', ');
+  };
+
+  // Number and text inputs are saved on blur, so Enter only needs to leave the field
+  const handleAttributeKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    e.stopPropagation();
+    if (e.key === 'Enter') {
+      e.currentTarget.blur();
+    }
+  };
+
+  const renderAttributeInputs = (timestamp: Timestamp) => (
+    <div className="d-flex flex-wrap gap-2">
+      {getEventAttributes(timestamp.eventId).map(attribute => {
+        const value = timestamp.attributes?.[attribute.id];
+        return (
+          <div key={attribute.id} className="d-flex align-items-center gap-1">
+            <small className="text-muted">{attribute.name}</small>
+            {attribute.type === 'enum' && (
+              <Form.Select
+                size="sm"
+                value={value === undefined ? '' : `${value}`}
+                onChange={(e) => handleAttributeChange(timestamp.id, attribute.id, e.target.value || undefined)}
+                style={{ width: 'auto' }}
+              >
+                <option value="">-</option>
+                {attribute.options.map((option, index) => (
+                  <option key={index} value={option.value}>{option.value}</option>
+                ))}
+              </Form.Select>
+            )}
+            {attribute.type === 'number' && (
+              <Form.Control
+                type="number"
+                size="sm"
+                defaultValue={value === undefined ? '' : `${value}`}
+                onBlur={(e) => handleAttributeChange(timestamp.id, attribute.id, e.target.value === '' ? undefined : Number(e.target.value))}
+                onKeyDown={handleAttributeKeyDown}
+                style={{ width: '70px' }}
+              />
+            )}
+            {attribute.type === 'boolean' && (
+              <Form.Check
+                type="checkbox"
+                checked={value === true}
+                onChange={(e) => handleAttributeChange(timestamp.id, attribute.id, e.target.checked)}
+              />
+            )}
+            {attribute.type === 'text' && (
+              <Form.Control
+                type="text"
+                size="sm"
+                defaultValue={value === undefined ? '' : `${value}`}
+                onBlur={(e) => handleAttributeChange(timestamp.id, attribute.id, e.target.value || undefined)}
+                onKeyDown={handleAttributeKeyDown}
+                style={{ width: '120px' }}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+
   const handleExportCSV = () => {
-    exportToCSV(timestamps);
+    exportToCSV(timestamps, eventTypes);
+  };
+
+  const handleExportContactSheet = () => {
+    exportContactSheet(timestamps, thumbnails, eventTypes).catch(error => {
+      console.error('Failed to export contact sheet:', error);
+      alert('Failed to export the contact sheet.');
+    });
   };
 
   const getEventColor = (eventId: number): string => {
     return eventTypes.find(e => e.id === eventId)?.color || '#6c757d';
   };
 
+  // Interval events are shown as a span from start to end (or "open" while running)
+  // Dates are only shown once a count spans more than one calendar day
+  const isMultiDay = new Set(timestamps.filter(t => t.dateTime).map(t => t.dateTime.slice(0, 10))).size > 1;
+  const renderDate = (dateTime?: string) => isMultiDay && dateTime ? `${dateTime.slice(0, 10)} ` : '';
+
+  const renderIntervalEnd = (timestamp: Timestamp) => {
+    if (timestamp.endSecondFirst === undefined) return null;
+    if (timestamp.endSecondFirst === null) {
+      return <span className="badge bg-warning text-dark ms-1">⏺ open</span>;
+    }
+    const endSecond = timestamp.endSecondFirst;
+    return (
+      <>
+        {' – '}
+        <span
+          style={{ cursor: 'pointer', color: '#0d6efd', textDecoration: 'underline' }}
+          onClick={() => onSeekTo(endSecond)}
+          title="Click to go to the end of the interval"
+        >
+          {renderDate(timestamp.endDateTime)}{timestamp.endTimeHHMMSS}
+        </span>
+      </>
+    );
+  };
+
+  // Snapshot of the event's frame, shown while hovering its time; opens upwards for the last rows
+  const renderThumbnail = (timestamp: Timestamp, index: number) => thumbnails[timestamp.id] && (
+    <img
+      className={`thumbnail-popup ${index >= timestamps.length - 2 ? 'up' : ''}`}
+      src={thumbnails[timestamp.id]}
+      alt={`${timestamp.eventName} at ${timestamp.timeHHMMSS}`}
+      style={{ borderColor: getEventColor(timestamp.eventId) }}
+    />
+  );
+
+  const getIntervalDuration = (timestamp: Timestamp): string => {
+    if (timestamp.endSecondFirst === undefined) return '-';
+    if (timestamp.endSecondFirst === null) return 'open';
+    return formatTime(timestamp.endSecondFirst - timestamp.atSecondFirst);
+  };
+
   const handleNoteSave = (timestampId: string) => {
     onTimestampsChange(timestamps.map(t => 
       t.id === timestampId ? { ...t, note: editingNoteText } : t
@@ -180,27 +345,62 @@ const TimestampTable = forwardRef<TimestampTableRef, TimestampTableProps>(({
                       }}
                     >
                       {timestamp.eventName}
+                      {timestamp.movementName && (
+                        <span className="text-muted fw-normal">· {timestamp.movementName}</span>
+                      )}
                     </Dropdown.Toggle>
+                    {getAttributeSummary(timestamp) && (
+                      <div className="text-muted" style={{ fontSize: '0.75em' }}>{getAttributeSummary(timestamp)}</div>
+                    )}
+                    {timestamp.speed && (
+                      <div className="text-muted" style={{ fontSize: '0.75em' }}>🚗 {timestamp.speed.speedKmh.toFixed(1)} km/h</div>
+                    )}
                     <Dropdown.Menu style={{ zIndex: 1050 }}>
-                      {eventTypes.map(eventType => (
+                      {eventTypes.filter(eventType => eventType.kind === getTimestampKind(timestamp)).map(eventType => (
                         <Dropdown.Item
                           key={eventType.id}
                           onClick={() => handleEventTypeChange(timestamp.id, eventType.id)}
                           style={{ color: eventType.color }}
                         >
-                          {eventType.id} - {eventType.name}
+                          {eventType.hotkey ? `${eventType.hotkey} - ` : ''}{eventType.name}
                         </Dropdown.Item>
                       ))}
+                      {movements.length > 0 && (
+                        <>
+                          <Dropdown.Divider />
+                          <Dropdown.Header>Movement</Dropdown.Header>
+                          {movements.map(movement => (
+                            <Dropdown.Item
+                              key={movement.id}
+                              active={timestamp.movementId === movement.id}
+                              onClick={() => handleMovementChange(timestamp.id, movement.id)}
+                            >
+                              {movement.name}
+                            </Dropdown.Item>
+                          ))}
+                          <Dropdown.Item onClick={() => handleMovementChange(timestamp.id, undefined)}>
+                            No movement
+                          </Dropdown.Item>
+                        </>
+                      )}
                     </Dropdown.Menu>
                   </Dropdown>
                 </td>
               <td>
-                <small 
-                  style={{ cursor: 'pointer', color: '#0d6efd', textDecoration: 'underline' }}
-                  onClick={() => onSeekTo(timestamp.atSecondFirst)}
-                  title="Click to go to timestamp"
+                <small
+                  className={timestamp.endSecondFirst !== undefined ? 'interval-span' : ''}
+                  style={{ borderColor: getEventColor(timestamp.eventId), whiteSpace: 'nowrap' }}
                 >
-                  {timestamp.timeHHMMSS}
+                  <span 
+                    className="thumbnail-hover"
+                    style={{ cursor: 'pointer', color: '#0d6efd', textDecoration: 'underline' }}
+                    onClick={() => onSeekTo(timestamp.atSecondFirst)}
+                    title={thumbnails[timestamp.id] ? undefined : 'Click to go to timestamp'}
+                  >
+                    {renderDate(timestamp.dateTime)}{timestamp.timeHHMMSS}
+                    {renderThumbnail(timestamp, index)}
+                  </span>
+                  {renderIntervalEnd(timestamp)}
                 </small>
               </td>
               <td>
@@ -257,31 +457,85 @@ const TimestampTable = forwardRef<TimestampTableRef, TimestampTableProps>(({
         <tr>
           <th>Event</th>
           <th>Event Name</th>
+          {movements.length > 0 && <th>Movement</th>}
           <th>Time (HH:MM:SS)</th>
           <th>Time (seconds)</th>
+          <th>Duration</th>
           <th>Video</th>
+          {hasCameras && <th>Camera</th>}
+          {hasAttributes && <th>Attributes</th>}
           <th>Note</th>
           <th>Actions</th>
         </tr>
       </thead>
       <tbody>
-        {timestamps.map(timestamp => (
+        {timestamps.map((timestamp, index) => (
           <tr key={timestamp.id}>
             <td style={{ color: getEventColor(timestamp.eventId) }}>
               {timestamp.eventId}
             </td>
-            <td>{timestamp.eventName}</td>
             <td>
-              <span 
-                style={{ cursor: 'pointer', color: '#0d6efd', textDecoration: 'underline' }}
-                onClick={() => onSeekTo(timestamp.atSecondFirst)}
-                title="Click to go to timestamp"
+              {timestamp.eventName}
+              {timestamp.point && (
+                <small className="text-muted d-block" title={`Clicked at x ${timestamp.point.x.toFixed(3)}, y ${timestamp.point.y.toFixed(3)} of the frame`}>
+                  🎯 {timestamp.zoneName || 'position'}
+                </small>
+              )}
+              {timestamp.speed && (
+                <small
+                  className="text-muted d-block"
+                  title={`${timestamp.speed.speedTrapName}: ${timestamp.speed.distance} m in ${timestamp.speed.travelTime.toFixed(3)} s`}
+                >
+                  🚗 {timestamp.speed.speedKmh.toFixed(1)} km/h
+                </small>
+              )}
+            </td>
+            {movements.length > 0 && (
+              <td>
+                <Form.Select
+                  size="sm"
+                  value={timestamp.movementId ?? ''}
+                  onChange={(e) => handleMovementChange(timestamp.id, e.target.value ? Number(e.target.value) : undefined)}
+                >
+                  <option value="">-</option>
+                  {movements.map(movement => (
+                    <option key={movement.id} value={movement.id}>
+                      {movement.name}
+                    </option>
+                  ))}
+                </Form.Select>
+              </td>
+            )}
+            <td>
+              <span
+                className={timestamp.endSecondFirst !== undefined ? 'interval-span' : ''}
+                style={{ borderColor: getEventColor(timestamp.eventId) }}
               >
-                {timestamp.timeHHMMSS}
+                <span 
+                  className="thumbnail-hover"
+                  style={{ cursor: 'pointer', color: '#0d6efd', textDecoration: 'underline' }}
+                  onClick={() => onSeekTo(timestamp.atSecondFirst)}
+                  title={thumbnails[timestamp.id] ? undefined : 'Click to go to timestamp'}
+                >
+                  {renderDate(timestamp.dateTime)}{timestamp.timeHHMMSS}
+                  {renderThumbnail(timestamp, index)}
+                </span>
+                {renderIntervalEnd(timestamp)}
               </span>
             </td>
-            <td>{timestamp.atSecondFirst.toFixed(1)}</td>
+            <td>
+              {timestamp.atSecondFirst.toFixed(1)}
+              {typeof timestamp.endSecondFirst === 'number' && ` – ${timestamp.endSecondFirst.toFixed(1)}`}
+              {timestamp.frameIndex !== undefined && (
+                <small className="text-muted d-block" title="Frame number within the video">
+                  #{timestamp.frameIndex}{timestamp.endFrameIndex !== undefined && ` – #${timestamp.endFrameIndex}`}
+                </small>
+              )}
+            </td>
+            <td>{getIntervalDuration(timestamp)}</td>
             <td>{timestamp.videoName}</td>
+            {hasCameras && <td>{timestamp.cameraName}</td>}
+            {hasAttributes && <td>{renderAttributeInputs(timestamp)}</td>}
             <td>
               {editingNoteId === timestamp.id ? (
                 <Form.Control
@@ -330,6 +584,16 @@ const TimestampTable = forwardRef<TimestampTableRef, TimestampTableProps>(({
               </h6>
             </Col>
             <Col xs="auto">
+              <Button
+                variant="outline-success"
+                size="sm"
+                className="me-2"
+                onClick={handleExportContactSheet}
+                disabled={Object.keys(thumbnails).length === 0}
+                title="Export an image grid of the event snapshots with time and event labels"
+              >
+                🖼️ Contact sheet
+              </Button>
               <Button
                 variant="outline-success"
                 size="sm"
@@ -347,7 +611,7 @@ const TimestampTable = forwardRef<TimestampTableRef, TimestampTableProps>(({
           ) : (
             <div className="text-center text-muted p-4">
               <p>No timestamps recorded yet</p>
-              <small>Use number keys 1-5 to mark events in the Annotation tab</small>
+              <small>Use the event hotkeys to mark events in the Annotation tab</small>
             </div>
           )}
         </Card.Body>
@@ -372,7 +636,7 @@ const TimestampTable = forwardRef<TimestampTableRef, TimestampTableProps>(({
         ) : (
           <div className="text-center text-muted p-4">
             <p>No timestamps recorded yet</p>
-            <small>Use number keys 1-5 to mark events</small>
+            <small>Use the event hotkeys to mark events</small>
           </div>
         )}
       </Card.Body>
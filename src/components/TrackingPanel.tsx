@@ -0,0 +1,108 @@
+import React from 'react';
+import { Button, Form } from 'react-bootstrap';
+import { Camera, EventType, Trajectory } from '../types';
+
+interface TrackingPanelProps {
+  camera: Camera;
+  eventTypes: EventType[];
+  trajectories: Trajectory[]; // trajectories of the camera
+  trackingEventId: number | null;
+  onTrackingEventIdChange: (eventId: number) => void;
+  framesPerClick: number;
+  onFramesPerClickChange: (frames: number) => void;
+  activeTrajectory?: Trajectory;
+  onSelectTrajectory: (trajectoryId: string | null) => void;
+  onUndoPoint: () => void;
+  onClose: () => void;
+}
+
+const TrackingPanel: React.FC<TrackingPanelProps> = ({
+  camera,
+  eventTypes,
+  trajectories,
+  trackingEventId,
+  onTrackingEventIdChange,
+  framesPerClick,
+  onFramesPerClickChange,
+  activeTrajectory,
+  onSelectTrajectory,
+  onUndoPoint,
+  onClose
+}) => {
+  return (
+    <div className="overlay-editor mb-2 p-2 border rounded">
+      <div className="d-flex flex-wrap align-items-center gap-1 mb-1">
+        <small className="text-muted me-1"><strong>Tracking in {camera.name}:</strong></small>
+        <Form.Select
+          size="sm"
+          className="w-auto py-0"
+          value={trackingEventId ?? ''}
+          onChange={(e: React.ChangeEvent<HTMLSelectElement>) => onTrackingEventIdChange(Number(e.target.value))}
+          title="Vehicle class of the tracked vehicle"
+        >
+          {eventTypes.map(eventType => (
+            <option key={eventType.id} value={eventType.id}>{eventType.name}</option>
+          ))}
+        </Form.Select>
+        <small className="text-muted ms-2">Advance</small>
+        <Form.Control
+          key={framesPerClick}
+          type="number"
+          size="sm"
+          min={1}
+          max={100}
+          defaultValue={framesPerClick}
+          onBlur={(e: React.FocusEvent<HTMLInputElement>) => {
+            const frames = Math.round(Number(e.target.value));
+            if (frames >= 1 && frames <= 100) onFramesPerClickChange(frames);
+            else e.target.value = `${framesPerClick}`;
+          }}
+          onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+            if (e.key === 'Enter') e.currentTarget.blur();
+          }}
+          style={{ width: '60px' }}
+        />
+        <small className="text-muted">frames per click</small>
+        <Button size="sm" variant="outline-secondary" className="py-0 ms-auto" onClick={onClose}>
+          Done
+        </Button>
+      </div>
+
+      <div className="d-flex flex-wrap align-items-center gap-1">
+        {activeTrajectory ? (
+          <>
+            <small className="me-2">
+              <strong>#{activeTrajectory.number}</strong> {activeTrajectory.eventName}: {activeTrajectory.points.length} point(s). Click the vehicle on the video in every frame shown.
+            </small>
+            <Button size="sm" variant="outline-secondary" className="py-0" onClick={onUndoPoint} disabled={activeTrajectory.points.length === 0}>
+              ↶ Undo point
+            </Button>
+            <Button size="sm" variant="primary" className="py-0" onClick={() => onSelectTrajectory(null)}>
+              ✔ Finish vehicle
+            </Button>
+          </>
+        ) : (
+          <small className="me-2">Click a vehicle on the video to start tracking it.</small>
+        )}
+        {trajectories.length > 0 && (
+          <Form.Select
+            size="sm"
+            className="w-auto py-0 ms-auto"
+            value={activeTrajectory?.id ?? ''}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => onSelectTrajectory(e.target.value || null)}
+            title="Continue tracking an earlier vehicle from its last point"
+          >
+            <option value="">New vehicle</option>
+            {trajectories.map(trajectory => (
+              <option key={trajectory.id} value={trajectory.id}>
+                #{trajectory.number} {trajectory.eventName} ({trajectory.points.length} points)
+              </option>
+            ))}
+          </Form.Select>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TrackingPanel;
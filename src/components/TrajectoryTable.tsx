@@ -0,0 +1,130 @@
+import React from 'react';
+import { Card, Table, Button, Row, Col, Form } from 'react-bootstrap';
+import { Trajectory, EventType } from '../types';
+import { exportTrajectoriesToCSV, exportTrajectoriesToJSON } from '../utils';
+
+interface TrajectoryTableProps {
+  trajectories: Trajectory[];
+  onTrajectoriesChange: (trajectories: Trajectory[]) => void;
+  eventTypes: EventType[];
+  onSeekTo: (time: number) => void;
+}
+
+// Tracked vehicle paths with their time span, listed below the events in the Results tab
+const TrajectoryTable: React.FC<TrajectoryTableProps> = ({ trajectories, onTrajectoriesChange, eventTypes, onSeekTo }) => {
+  const hasCameras = new Set(trajectories.map(t => t.cameraId)).size > 1;
+  const sortedTrajectories = [...trajectories].sort((a, b) => (a.points[0]?.atSecondFirst ?? 0) - (b.points[0]?.atSecondFirst ?? 0));
+
+  const getEventColor = (eventId: number): string => {
+    return eventTypes.find(e => e.id === eventId)?.color || '#6c757d';
+  };
+
+  const handleDeleteTrajectory = (trajectory: Trajectory) => {
+    if (window.confirm(`Delete trajectory #${trajectory.number} (${trajectory.eventName}, ${trajectory.points.length} points)?`)) {
+      onTrajectoriesChange(trajectories.filter(t => t.id !== trajectory.id));
+    }
+  };
+
+  const renderTime = (trajectory: Trajectory, index: number) => {
+    const point = trajectory.points[index];
+    if (!point) return '-';
+    return (
+      <span
+        style={{ cursor: 'pointer', color: '#0d6efd', textDecoration: 'underline' }}
+        onClick={() => onSeekTo(point.atSecondFirst)}
+        title="Click to go to this point"
+      >
+        {point.dateTime.slice(11, 19)}
+      </span>
+    );
+  };
+
+  return (
+    <Card className="mt-3">
+      <Card.Header>
+        <Row className="align-items-center">
+          <Col>
+            <h6 className="mb-0">
+              Trajectories ({trajectories.length})
+            </h6>
+          </Col>
+          <Col xs="auto">
+            <Button variant="outline-success" size="sm" className="me-2" onClick={() => exportTrajectoriesToCSV(sortedTrajectories)}>
+              📥 Export CSV
+            </Button>
+            <Button variant="outline-success" size="sm" onClick={() => exportTrajectoriesToJSON(sortedTrajectories)}>
+              📥 Export JSON
+            </Button>
+          </Col>
+        </Row>
+      </Card.Header>
+      <Card.Body className="p-0">
+        <Table striped hover size="sm" className="mb-0">
+          <thead>
+            <tr>
+              <th>#</th>
+              <th>Class</th>
+              {hasCameras && <th>Camera</th>}
+              <th>Start</th>
+              <th>End</th>
+              <th>Duration</th>
+              <th>Points</th>
+              <th>Note</th>
+              <th>Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sortedTrajectories.map(trajectory => {
+              const first = trajectory.points[0];
+              const last = trajectory.points[trajectory.points.length - 1];
+              return (
+                <tr key={trajectory.id}>
+                  <td>{trajectory.number}</td>
+                  <td>
+                    <span style={{ color: getEventColor(trajectory.eventId), fontWeight: 'bold' }}>
+                      {trajectory.eventName}
+                    </span>
+                  </td>
+                  {hasCameras && <td>{trajectory.cameraName}</td>}
+                  <td>{renderTime(trajectory, 0)}</td>
+                  <td>{renderTime(trajectory, trajectory.points.length - 1)}</td>
+                  <td>{first && last ? `${(last.atSecondFirst - first.atSecondFirst).toFixed(1)} s` : '-'}</td>
+                  <td>{trajectory.points.length}</td>
+                  <td>
+                    <Form.Control
+                      key={trajectory.note}
+                      type="text"
+                      size="sm"
+                      defaultValue={trajectory.note}
+                      onBlur={(e: React.FocusEvent<HTMLInputElement>) => {
+                        const note = e.target.value.trim();
+                        if (note !== trajectory.note) {
+                          onTrajectoriesChange(trajectories.map(t => t.id === trajectory.id ? { ...t, note } : t));
+                        }
+                      }}
+                      onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+                        if (e.key === 'Enter') e.currentTarget.blur();
+                      }}
+                    />
+                  </td>
+                  <td>
+                    <Button
+                      variant="outline-danger"
+                      size="sm"
+                      onClick={() => handleDeleteTrajectory(trajectory)}
+                      title="Delete trajectory"
+                    >
+                      🗑️
+                    </Button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </Table>
+      </Card.Body>
+    </Card>
+  );
+};
+
+export default TrajectoryTable;
@@ -0,0 +1,150 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { NormalizedPoint, OverlayKind, OverlayShape } from '../types';
+
+interface VideoOverlayProps {
+  videoRef: React.RefObject<HTMLVideoElement>;
+  shapes: OverlayShape[];
+  draft?: { kind: OverlayKind; points: NormalizedPoint[] } | null;
+  markers?: { id: string; point: NormalizedPoint; color: string }[];
+  paths?: { id: string; label: string; color: string; points: NormalizedPoint[]; active?: boolean }[];
+  onPointAdd?: (point: NormalizedPoint) => void;
+  onFinish?: () => void;
+  getShapeLabel?: (shape: OverlayShape) => string;
+  flashShapeIds?: string[];
+  flashKey?: string;
+}
+
+// Displayed area of the video frame within its element (the frame is letterboxed when the element is clamped)
+const getFrameRect = (video: HTMLVideoElement) => {
+  const { clientWidth, clientHeight, videoWidth, videoHeight, offsetLeft, offsetTop } = video;
+  if (!videoWidth || !videoHeight) {
+    return { left: offsetLeft, top: offsetTop, width: clientWidth, height: clientHeight };
+  }
+
+  const scale = Math.min(clientWidth / videoWidth, clientHeight / videoHeight);
+  return {
+    left: offsetLeft + (clientWidth - videoWidth * scale) / 2,
+    top: offsetTop + (clientHeight - videoHeight * scale) / 2,
+    width: videoWidth * scale,
+    height: videoHeight * scale
+  };
+};
+
+// SVG drawn over a video frame; shapes are stored in frame coordinates so they scale with the video
+const VideoOverlay: React.FC<VideoOverlayProps> = ({ videoRef, shapes, draft, markers = [], paths = [], onPointAdd, onFinish, getShapeLabel, flashShapeIds = [], flashKey }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [rect, setRect] = useState<{ left: number; top: number; width: number; height: number }>({ left: 0, top: 0, width: 0, height: 0 });
+
+  // Follow the size of the video element and the aspect ratio of the loaded video
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const updateRect = () => setRect(getFrameRect(video));
+    const resizeObserver = new ResizeObserver(updateRect);
+    resizeObserver.observe(video);
+    video.addEventListener('loadedmetadata', updateRect);
+    updateRect();
+
+    return () => {
+      resizeObserver.disconnect();
+      video.removeEventListener('loadedmetadata', updateRect);
+    };
+  }, [videoRef]);
+
+  const toPixels = (point: NormalizedPoint) => ({ x: point.x * rect.width, y: point.y * rect.height });
+  const toPointsAttribute = (points: NormalizedPoint[]) => points.map(p => `${toPixels(p).x},${toPixels(p).y}`).join(' ');
+
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (!onPointAdd || !svgRef.current) return;
+    e.stopPropagation();
+    const bounds = svgRef.current.getBoundingClientRect();
+    onPointAdd({
+      x: Math.max(0, Math.min(1, (e.clientX - bounds.left) / bounds.width)),
+      y: Math.max(0, Math.min(1, (e.clientY - bounds.top) / bounds.height))
+    });
+  };
+
+  const renderShape = (shape: OverlayShape) => {
+    const label = getShapeLabel ? getShapeLabel(shape) : shape.name;
+    const isFlashing = flashShapeIds.includes(shape.id);
+    const className = isFlashing ? 'overlay-shape overlay-flash' : 'overlay-shape';
+    const key = isFlashing ? `${shape.id}-${flashKey}` : shape.id;
+    const anchor = toPixels(shape.points[0]);
+
+    if (shape.kind === 'label') {
+      return (
+        <text key={key} className={className} x={anchor.x} y={anchor.y} fill={shape.color}>{label}</text>
+      );
+    }
+
+    if (shape.kind === 'line' && shape.points.length >= 2) {
+      const end = toPixels(shape.points[1]);
+      return (
+        <g key={key} className={className}>
+          <line x1={anchor.x} y1={anchor.y} x2={end.x} y2={end.y} stroke={shape.color} strokeWidth={3} />
+          <circle cx={anchor.x} cy={anchor.y} r={4} fill={shape.color} />
+          <circle cx={end.x} cy={end.y} r={4} fill={shape.color} />
+          <text x={(anchor.x + end.x) / 2} y={(anchor.y + end.y) / 2 - 6} fill={shape.color} textAnchor="middle">{label}</text>
+        </g>
+      );
+    }
+
+    return (
+      <g key={key} className={className}>
+        <polygon points={toPointsAttribute(shape.points)} stroke={shape.color} strokeWidth={2} fill={shape.color} fillOpacity={0.15} />
+        <text x={anchor.x + 4} y={anchor.y - 6} fill={shape.color}>{label}</text>
+      </g>
+    );
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      className={`video-overlay ${onPointAdd ? 'drawing' : ''}`}
+      style={{ left: rect.left, top: rect.top, width: rect.width, height: rect.height }}
+      onClick={handleClick}
+      onDoubleClick={(e) => {
+        e.stopPropagation();
+        onFinish?.();
+      }}
+    >
+      {shapes.map(renderShape)}
+      {paths.filter(path => path.points.length > 0).map(path => {
+        const head = toPixels(path.points[path.points.length - 1]);
+        return (
+          <g key={path.id} className="overlay-path">
+            <polyline points={toPointsAttribute(path.points)} stroke={path.color} strokeWidth={path.active ? 3 : 2} fill="none" />
+            {path.active && path.points.map((point, index) => (
+              <circle key={index} cx={toPixels(point).x} cy={toPixels(point).y} r={2} fill={path.color} />
+            ))}
+            <circle cx={head.x} cy={head.y} r={5} fill={path.color} stroke="white" strokeWidth={path.active ? 2 : 1} />
+            <text x={head.x + 8} y={head.y - 8} fill={path.color}>{path.label}</text>
+          </g>
+        );
+      })}
+      {markers.map(marker => (
+        <circle
+          key={marker.id}
+          className="overlay-marker"
+          cx={toPixels(marker.point).x}
+          cy={toPixels(marker.point).y}
+          r={6}
+          fill={marker.color}
+          stroke="white"
+          strokeWidth={2}
+        />
+      ))}
+      {draft && draft.points.length > 0 && (
+        <g className="overlay-draft">
+          <polyline points={toPointsAttribute(draft.points)} stroke="white" strokeWidth={2} strokeDasharray="6 4" fill="none" />
+          {draft.points.map((point, index) => (
+            <circle key={index} cx={toPixels(point).x} cy={toPixels(point).y} r={4} fill="white" />
+          ))}
+        </g>
+      )}
+    </svg>
+  );
+};
+
+export default VideoOverlay;
@@ -1,70 +1,184 @@
 import React, { useRef, useEffect, useState } from 'react';
 import { Card, Button, Row, Col, Form } from 'react-bootstrap';
-import { VideoFile, VideoState, EventType, Timestamp } from '../types';
-import { findVideoAtTime, formatTime, calculateRealWorldTime } from '../utils';
+import { VideoFile, VideoState, EventType, Movement, PendingChord, Timestamp, AttributeValue, ClockAnchor, Camera, NormalizedPoint, OverlayKind, OverlayShape, Trajectory, SpeedTrap, SpeedMeasurement, ActivitySegment, CandidateEvent } from '../types';
+import { generateId, addActivitySegment, getActivityRanges, mergeCandidates, getCandidatePosition, getHotkeyFromEvent, calculateSpotSpeed, createTrajectoryPoint, findVideoAtTime, findNextVideo, findCameraVideoAtTime, getFrameIndex, getFrameTime, getFrameStepTime, formatTime, calculateRealWorldTime, calculateRealWorldDateTime, formatAttributeValue, getVideoOffset } from '../utils';
+import CameraTile from './CameraTile';
+import EventTimeline from './EventTimeline';
+import VideoOverlay from './VideoOverlay';
+import OverlayEditor from './OverlayEditor';
+import TrackingPanel from './TrackingPanel';
+import SpeedPanel from './SpeedPanel';
+import ActivityPanel from './ActivityPanel';
+import DetectionPanel from './DetectionPanel';
+import { captureThumbnail, captureThumbnailAt } from '../thumbnails';
+import { createMotionDetector, MotionDetector } from '../motion';
+import { scanLineCrossings } from '../detection';
 
 interface VideoPlayerProps {
   videos: VideoFile[];
+  cameras: Camera[];
+  onCamerasChange: (cameras: Camera[]) => void;
   videoState: VideoState;
   onVideoStateChange: React.Dispatch<React.SetStateAction<VideoState>>;
   eventTypes: EventType[];
   onEventTypesChange: (eventTypes: EventType[]) => void;
-  onEventMark: (eventId: number) => void;
+  onEventMark: (eventId: number, point?: NormalizedPoint) => void;
+  movements: Movement[];
+  chordMode: boolean;
+  chordTimeoutMs: number;
+  pendingChord: PendingChord | null;
+  onMovementMark: (movementId: number) => void;
+  lastMarkedTimestamp?: Timestamp;
+  onAttributeChange: (timestampId: string, attributeId: string, value: AttributeValue) => void;
+  onEditEventTypes: () => void;
+  onClockAnchorsChange: (videoId: string, clockAnchors: ClockAnchor[]) => void;
   timestamps: Timestamp[];
   onTimestampsChange: (timestamps: Timestamp[]) => void;
+  trajectories: Trajectory[];
+  onTrajectoriesChange: (trajectories: Trajectory[]) => void;
+  onSpeedMark: (eventId: number, entry: PendingChord['position'], speed: SpeedMeasurement) => void;
+  thumbnails: Record<string, string>;
+  onThumbnailCapture: (timestampId: string, dataUrl: string) => void;
+  activitySegments: ActivitySegment[];
+  onActivitySegmentsChange: React.Dispatch<React.SetStateAction<ActivitySegment[]>>;
+  candidates: CandidateEvent[];
+  onCandidatesChange: React.Dispatch<React.SetStateAction<CandidateEvent[]>>;
+  onCandidateConfirm: (candidate: CandidateEvent, eventId: number) => void;
+  onCandidateReopen: (candidate: CandidateEvent) => void;
 }
 
+// Motion fast-forward keeps normal speed this many video seconds after the last motion
+const ACTIVITY_HOLD_SECONDS = 2;
+// Samples further apart than this (in video seconds) are a seek, not playback
+const MAX_ACTIVITY_SAMPLE_GAP = 10;
+
+// Point a player at a video, paused at the frame at a time; the browser starts buffering right away
+const loadPlayer = (player: HTMLVideoElement, video: VideoFile, videoTime: number) => {
+  player.dataset.videoId = video.id;
+  player.src = video.url;
+  player.load();
+  player.currentTime = getFrameTime(getFrameIndex(videoTime, video.frameRate), video.frameRate);
+};
+
 const VideoPlayer: React.FC<VideoPlayerProps> = ({
   videos,
+  cameras,
+  onCamerasChange,
   videoState,
   onVideoStateChange,
   eventTypes,
   onEventTypesChange,
   onEventMark,
+  movements,
+  chordMode,
+  chordTimeoutMs,
+  pendingChord,
+  onMovementMark,
+  lastMarkedTimestamp,
+  onAttributeChange,
+  onEditEventTypes,
+  onClockAnchorsChange,
   timestamps,
-  onTimestampsChange
+  onTimestampsChange,
+  trajectories,
+  onTrajectoriesChange,
+  onSpeedMark,
+  thumbnails,
+  onThumbnailCapture,
+  activitySegments,
+  onActivitySegmentsChange,
+  candidates,
+  onCandidatesChange,
+  onCandidateConfirm,
+  onCandidateReopen
 }) => {
-  const videoRef = useRef<HTMLVideoElement>(null);
+  // Two players: the shown one and a standby one with the next video buffered, which takes over at the boundary
+  const firstPlayerRef = useRef<HTMLVideoElement>(null);
+  const secondPlayerRef = useRef<HTMLVideoElement>(null);
+  const [activeSlot, setActiveSlot] = useState<0 | 1>(0);
+  const videoRef = activeSlot === 0 ? firstPlayerRef : secondPlayerRef;
+  const standbyRef = activeSlot === 0 ? secondPlayerRef : firstPlayerRef;
   const [showContextMenu, setShowContextMenu] = useState<{ show: boolean; x: number; y: number; eventId: number }>({
     show: false, x: 0, y: 0, eventId: 0
   });
   const [editingEventName, setEditingEventName] = useState<string>('');
+  const [multiView, setMultiView] = useState<boolean>(false);
+  const [showOverlays, setShowOverlays] = useState<boolean>(true);
+  const [showOverlayEditor, setShowOverlayEditor] = useState<boolean>(false);
+  const [overlayDraft, setOverlayDraft] = useState<{ kind: OverlayKind; points: NormalizedPoint[] } | null>(null);
+  const [clickMarkEventId, setClickMarkEventId] = useState<number | null>(null);
+  const [showTracking, setShowTracking] = useState<boolean>(false);
+  const [trackingEventId, setTrackingEventId] = useState<number | null>(null);
+  const [framesPerClick, setFramesPerClick] = useState<number>(5);
+  const [activeTrajectoryId, setActiveTrajectoryId] = useState<string | null>(null);
+  const [showSpeed, setShowSpeed] = useState<boolean>(false);
+  const [speedTrapId, setSpeedTrapId] = useState<string | null>(null);
+  const [speedEventId, setSpeedEventId] = useState<number | null>(null);
+  const [speedEntry, setSpeedEntry] = useState<PendingChord['position'] | null>(null);
+  const [lastSpeedKmh, setLastSpeedKmh] = useState<number | null>(null);
+  const capturedTimestampIdRef = useRef<string | null>(null);
+  const [showActivity, setShowActivity] = useState<boolean>(false);
+  const [activityRegionId, setActivityRegionId] = useState<string>('');
+  const [normalRate, setNormalRate] = useState<number>(1);
+  const [idleRate, setIdleRate] = useState<number>(8);
+  const [motionSensitivity, setMotionSensitivity] = useState<number>(0.5);
+  const [motionActive, setMotionActive] = useState<boolean | null>(null);
+  const motionDetectorRef = useRef<MotionDetector | null>(null);
+  const activitySampleRef = useRef<{ videoId: string; time: number; lastMotionTime: number } | null>(null);
+  const [showDetection, setShowDetection] = useState<boolean>(false);
+  const [detectionLineId, setDetectionLineId] = useState<string | null>(null);
+  const [samplesPerSecond, setSamplesPerSecond] = useState<number>(5);
+  const [minBlobPercent, setMinBlobPercent] = useState<number>(0.2);
+  const [scanProgress, setScanProgress] = useState<number | null>(null);
+  const [lastScanCount, setLastScanCount] = useState<number | null>(null);
+  const scanAbortRef = useRef<AbortController | null>(null);
+  const [reviewing, setReviewing] = useState<boolean>(false);
+  const [reviewCandidateId, setReviewCandidateId] = useState<string | null>(null);
+  const [lastDecidedCandidateId, setLastDecidedCandidateId] = useState<string | null>(null);
+  const reviewKeyRef = useRef<(event: KeyboardEvent) => void>(() => undefined);
 
-  // Initialize video source when videos are first loaded
+  // Update the players when the state changes: show the player that has the current video (the standby
+  // player when crossing into the video it has buffered) and buffer the next video in the other one
   useEffect(() => {
-    if (!videoRef.current || videos.length === 0) return;
-    
-    const video = videoRef.current;
-    const currentVideo = videos[videoState.currentVideoIndex];
-    
-    // Set initial video source if not set
-    if (currentVideo && (!video.src || !video.src.includes('blob:'))) {
-      video.src = currentVideo.url;
-      video.load(); // Force reload of the video
-    }
-  }, [videos, videoState.currentVideoIndex]);
+    const firstPlayer = firstPlayerRef.current;
+    const secondPlayer = secondPlayerRef.current;
+    if (!firstPlayer || !secondPlayer || videos.length === 0) return;
 
-  // Update video element when state changes
-  useEffect(() => {
-    if (!videoRef.current || videos.length === 0) return;
+    const { videoIndex, videoTime } = findVideoAtTime(videos, videoState.currentTime, videoState.currentVideoIndex);
+    // Positions in a gap between videos move on to the start of the next video
+    const resolvedTime = getVideoOffset(videos, videoIndex) + videoTime;
+    const targetVideo = videos[videoIndex];
+
+    const players = [firstPlayer, secondPlayer];
+    let slot = activeSlot;
+    if (players[slot].dataset.videoId !== targetVideo.id) {
+      slot = slot === 0 ? 1 : 0;
+      if (players[slot].dataset.videoId !== targetVideo.id) {
+        loadPlayer(players[slot], targetVideo, videoTime);
+      }
+      setActiveSlot(slot);
+    }
+    const video = players[slot];
+    const standby = players[slot === 0 ? 1 : 0];
 
-    const video = videoRef.current;
-    const { videoIndex, videoTime } = findVideoAtTime(videos, videoState.currentTime);
-    
-    // Switch video source if needed
     if (videoIndex !== videoState.currentVideoIndex) {
-      video.src = videos[videoIndex].url;
-      video.load(); // Force reload of the video
       onVideoStateChange((prev: VideoState) => ({ 
         ...prev, 
+        currentTime: resolvedTime,
         currentVideoIndex: videoIndex,
         currentVideoTime: videoTime
       }));
+    } else if (Math.abs(resolvedTime - videoState.currentTime) > 0.01) {
+      onVideoStateChange((prev: VideoState) => ({ ...prev, currentTime: resolvedTime, currentVideoTime: videoTime }));
     }
 
-    // Update video time
-    if (Math.abs(video.currentTime - videoTime) > 0.5) {
-      video.currentTime = videoTime;
+    // Update video time. While playing, small differences are only the video running ahead of the last
+    // time update; when paused, seek until the video shows exactly the frame at the current position
+    const { frameRate } = targetVideo;
+    const frameIndex = getFrameIndex(videoTime, frameRate);
+    const isPaused = !videoState.isPlaying && video.paused;
+    if (Math.abs(video.currentTime - videoTime) > 0.5 || (isPaused && getFrameIndex(video.currentTime, frameRate) !== frameIndex)) {
+      video.currentTime = getFrameTime(frameIndex, frameRate);
     }
 
     // Update playback state
@@ -80,22 +194,50 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
     // Update playback rate
     video.playbackRate = videoState.playbackRate;
 
-  }, [videos, videoState, onVideoStateChange]);
-
-  // Handle video time updates
-  const handleTimeUpdate = () => {
-    if (!videoRef.current || videos.length === 0) return;
+    // The standby player waits, muted, at the start of the next video. Near the start of a video it keeps
+    // the video playback came from, so seeking back across the boundary is instant as well.
+    if (!standby.paused) standby.pause();
+    standby.muted = true;
+    const standbyIndex = videos.findIndex(v => v.id === standby.dataset.videoId);
+    const keepsPrevious = standbyIndex !== -1 && videoTime < targetVideo.duration / 2 && findNextVideo(videos, standbyIndex)?.videoIndex === videoIndex;
+    const next = findNextVideo(videos, videoIndex);
+    if (next && !keepsPrevious && standbyIndex !== next.videoIndex) {
+      loadPlayer(standby, videos[next.videoIndex], next.videoTime);
+    }
+  }, [videos, videoState, onVideoStateChange, activeSlot]);
 
-    const video = videoRef.current;
-    const currentVideo = videos[videoState.currentVideoIndex];
-    if (!currentVideo) return;
+  // Snapshot the frame of a newly marked event: straight from the screen if it shows that frame, otherwise
+  // from a hidden player seeked to the event's own time
+  useEffect(() => {
+    const timestampId = lastMarkedTimestamp?.id;
+    if (!lastMarkedTimestamp || !timestampId || thumbnails[timestampId] || capturedTimestampIdRef.current === timestampId) return;
+    const video = videos.find(v => v.id === lastMarkedTimestamp.videoId);
+    if (!video) return;
 
-    let accumulatedTime = 0;
-    for (let i = 0; i < videoState.currentVideoIndex; i++) {
-      accumulatedTime += videos[i].duration;
+    capturedTimestampIdRef.current = timestampId;
+    const frameIndex = lastMarkedTimestamp.frameIndex ?? getFrameIndex(lastMarkedTimestamp.atSecondCurrent, video.frameRate);
+    const player = videoRef.current;
+    if (player && player.dataset.videoId === video.id && getFrameIndex(player.currentTime, video.frameRate) === frameIndex) {
+      const dataUrl = captureThumbnail(player);
+      if (dataUrl) onThumbnailCapture(timestampId, dataUrl);
+      return;
     }
+    captureThumbnailAt(video.url, getFrameTime(frameIndex, video.frameRate))
+      .then(dataUrl => {
+        if (dataUrl) onThumbnailCapture(timestampId, dataUrl);
+      })
+      .catch(console.error);
+  }, [lastMarkedTimestamp, thumbnails, onThumbnailCapture, videoRef, videos]);
+
+  // Handle video time updates of the shown player
+  const handleTimeUpdate = (e: React.SyntheticEvent<HTMLVideoElement>) => {
+    if (e.currentTarget !== videoRef.current || videos.length === 0) return;
 
-    const totalTime = accumulatedTime + video.currentTime;
+    const video = e.currentTarget;
+    const currentVideo = videos[videoState.currentVideoIndex];
+    if (!currentVideo || video.dataset.videoId !== currentVideo.id) return;
+
+    const totalTime = getVideoOffset(videos, videoState.currentVideoIndex) + video.currentTime;
     
     onVideoStateChange((prev: VideoState) => ({
       ...prev,
@@ -103,21 +245,70 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
       currentVideoTime: video.currentTime
     }));
 
+    if (showActivity) {
+      handleActivitySample(video, currentVideo);
+    }
+  };
+
+  // Motion fast-forward: compare the frame with the previous sample, record the stretch since then as
+  // idle or active and set the speed. When motion appears, go back to the previous sample so nothing is missed.
+  const handleActivitySample = (video: HTMLVideoElement, currentVideo: VideoFile) => {
+    const time = video.currentTime;
+    const last = activitySampleRef.current;
+    const isContinuous = !!last && last.videoId === currentVideo.id && time >= last.time && time - last.time <= MAX_ACTIVITY_SAMPLE_GAP;
+    if (!motionDetectorRef.current) motionDetectorRef.current = createMotionDetector();
+    if (!isContinuous) motionDetectorRef.current.reset();
+
+    const camera = cameras.find(c => c.id === currentVideo.cameraId);
+    const region = camera?.overlays.find(s => s.id === activityRegionId && s.kind === 'zone')?.points;
+    const motion = motionDetectorRef.current.measure(video, region);
+    if (motion === null || !last || !isContinuous) {
+      // Playback starts at normal speed until the region has been idle for a while
+      if (!isContinuous) activitySampleRef.current = { videoId: currentVideo.id, time, lastMotionTime: time };
+      return;
+    }
+
+    const wasActive = last.time - last.lastMotionTime < ACTIVITY_HOLD_SECONDS;
+    const lastMotionTime = motion * 100 > motionSensitivity ? time : last.lastMotionTime;
+    const active = time - lastMotionTime < ACTIVITY_HOLD_SECONDS;
+    setMotionActive(active);
+    if (time > last.time) {
+      onActivitySegmentsChange(prev => addActivitySegment(prev, { videoId: currentVideo.id, videoName: currentVideo.name, start: last.time, end: time, active }));
+    }
+
+    if (active && !wasActive) {
+      motionDetectorRef.current.reset();
+      activitySampleRef.current = { videoId: currentVideo.id, time: last.time, lastMotionTime: last.time };
+      onVideoStateChange((prev: VideoState) => ({ ...prev, currentTime: prev.currentTime - (time - last.time), playbackRate: normalRate }));
+      return;
+    }
+    activitySampleRef.current = { videoId: currentVideo.id, time, lastMotionTime };
+    const rate = active ? normalRate : idleRate;
+    if (videoState.isPlaying && videoState.playbackRate !== rate) {
+      onVideoStateChange((prev: VideoState) => ({ ...prev, playbackRate: rate }));
+    }
   };
 
   // Handle video end
-  const handleVideoEnd = () => {
-    if (videoState.currentVideoIndex < videos.length - 1) {
-      // Switch to next video
-      const nextIndex = videoState.currentVideoIndex + 1;
-      if (videoRef.current) {
-        videoRef.current.src = videos[nextIndex].url;
-        videoRef.current.currentTime = 0;
+  const handleVideoEnd = (e: React.SyntheticEvent<HTMLVideoElement>) => {
+    if (e.currentTarget !== videoRef.current) return;
+
+    // Continue with the video that covers the end of this one, skipping any gap
+    const next = findNextVideo(videos, videoState.currentVideoIndex);
+
+    if (next) {
+      // The standby player has the next video buffered: start it right away rather than after the state update
+      const standby = standbyRef.current;
+      if (standby && standby.dataset.videoId === videos[next.videoIndex].id && videoState.isPlaying) {
+        standby.muted = videoState.isMuted;
+        standby.playbackRate = videoState.playbackRate;
+        standby.play().catch(console.error);
       }
       onVideoStateChange((prev: VideoState) => ({
         ...prev,
-        currentVideoIndex: nextIndex,
-        currentVideoTime: 0
+        currentTime: getVideoOffset(videos, next.videoIndex) + next.videoTime,
+        currentVideoIndex: next.videoIndex,
+        currentVideoTime: next.videoTime
       }));
     } else {
       // End of all videos
@@ -125,9 +316,25 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
     }
   };
 
-  // Handle seek bar change
-  const handleSeekChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const newTime = parseFloat(e.target.value);
+  // Step a number of frames backward (negative) or forward, pausing playback
+  const handleFrameStep = (frames: number) => {
+    onVideoStateChange((prev: VideoState) => ({ ...prev, currentTime: getFrameStepTime(videos, prev, frames), isPlaying: false }));
+  };
+
+  // Make a camera the active view (marked events are recorded in it), if it has video at this time
+  const handleSelectCamera = (cameraId: string) => {
+    const position = findCameraVideoAtTime(videos, cameraId, videoState.currentTime);
+    if (!position || position.videoIndex === videoState.currentVideoIndex) return;
+
+    onVideoStateChange((prev: VideoState) => ({
+      ...prev,
+      currentVideoIndex: position.videoIndex,
+      currentVideoTime: position.videoTime
+    }));
+  };
+
+  // Handle seeking on the timeline
+  const handleSeek = (newTime: number) => {
     onVideoStateChange((prev: VideoState) => ({ ...prev, currentTime: newTime }));
   };
 
@@ -165,10 +372,411 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
           ? { ...t, eventName: newEventName }
           : t
       ));
+
+      // Trajectories carry the class name as well
+      onTrajectoriesChange(trajectories.map(t => t.eventId === showContextMenu.eventId ? { ...t, eventName: newEventName } : t));
     }
     setShowContextMenu({ show: false, x: 0, y: 0, eventId: 0 });
   };
 
+  // Record what the real clock (e.g. the burned-in OSD) reads at the current position
+  const handleAddClockAnchor = () => {
+    const video = videos[videoState.currentVideoIndex];
+    if (!video) return;
+
+    const clockTime = prompt('What does the clock read at this position (HH:MM:SS)?', calculateRealWorldTime(videos, videoState.currentTime));
+    if (!clockTime) return;
+    if (!/^\d{2}:\d{2}:\d{2}$/.test(clockTime)) {
+      alert(`Invalid clock reading "${clockTime}". Please use the HH:MM:SS format.`);
+      return;
+    }
+
+    onClockAnchorsChange(video.id, [
+      ...(video.clockAnchors || []),
+      { id: generateId(), videoSecond: videoState.currentVideoTime, clockTime }
+    ]);
+  };
+
+  // Replace the overlays of the active camera
+  const handleOverlaysChange = (overlays: OverlayShape[]) => {
+    const cameraId = videos[videoState.currentVideoIndex]?.cameraId;
+    onCamerasChange(cameras.map(c => c.id === cameraId ? { ...c, overlays } : c));
+  };
+
+  const handleStartDrawing = (kind: OverlayKind) => {
+    setShowOverlays(true);
+    setOverlayDraft({ kind, points: [] });
+    onVideoStateChange((prev: VideoState) => ({ ...prev, isPlaying: false }));
+  };
+
+  // Complete the shape being drawn and ask for its name
+  const handleFinishDrawing = (points: NormalizedPoint[] = overlayDraft?.points || []) => {
+    const camera = cameras.find(c => c.id === videos[videoState.currentVideoIndex]?.cameraId);
+    if (!overlayDraft || !camera) return;
+
+    // A double-click also adds its two clicks as points
+    const distinctPoints = points.filter((p, index) =>
+      index === 0 || Math.abs(p.x - points[index - 1].x) > 0.005 || Math.abs(p.y - points[index - 1].y) > 0.005
+    );
+    const minPoints = { line: 2, zone: 3, label: 1 }[overlayDraft.kind];
+    if (distinctPoints.length < minPoints) return;
+
+    const kindName = { line: 'Line', zone: 'Zone', label: 'Label' }[overlayDraft.kind];
+    const name = prompt(`Name of the ${kindName.toLowerCase()}:`, `${kindName} ${camera.overlays.filter(s => s.kind === overlayDraft.kind).length + 1}`);
+    setOverlayDraft(null);
+    if (!name) return;
+
+    handleOverlaysChange([...camera.overlays, {
+      id: generateId(),
+      kind: overlayDraft.kind,
+      name,
+      color: '#FFC107',
+      points: distinctPoints.slice(0, overlayDraft.kind === 'line' ? 2 : undefined),
+      eventTypeIds: []
+    }]);
+  };
+
+  const handleDraftPointAdd = (point: NormalizedPoint) => {
+    if (!overlayDraft) return;
+    const points = [...overlayDraft.points, point];
+    if ((overlayDraft.kind === 'line' && points.length === 2) || (overlayDraft.kind === 'label' && points.length === 1)) {
+      handleFinishDrawing(points);
+    } else {
+      setOverlayDraft({ ...overlayDraft, points });
+    }
+  };
+
+  const handleToggleTracking = () => {
+    if (showTracking) {
+      setActiveTrajectoryId(null);
+    } else {
+      setTrackingEventId(prev => eventTypes.some(e => e.id === prev) ? prev : eventTypes[0]?.id ?? null);
+      onVideoStateChange((prev: VideoState) => ({ ...prev, isPlaying: false }));
+    }
+    setShowTracking(!showTracking);
+  };
+
+  // Add the clicked position of the tracked vehicle, then advance to the next frames to click
+  const handleTrackPoint = (point: NormalizedPoint) => {
+    const camera = cameras.find(c => c.id === videos[videoState.currentVideoIndex]?.cameraId);
+    const eventType = eventTypes.find(e => e.id === trackingEventId);
+    if (!camera || !eventType) return;
+
+    const trackPoint = createTrajectoryPoint(videos, videoState.currentVideoIndex, videoState.currentVideoTime, point);
+    const trajectory = trajectories.find(t => t.id === activeTrajectoryId && t.cameraId === camera.id);
+    if (trajectory) {
+      // Clicking a frame again replaces its point
+      const points = [
+        ...trajectory.points.filter(p => p.videoId !== trackPoint.videoId || p.frameIndex !== trackPoint.frameIndex),
+        trackPoint
+      ].sort((a, b) => a.atSecondFirst - b.atSecondFirst);
+      onTrajectoriesChange(trajectories.map(t => t.id === trajectory.id ? { ...t, points } : t));
+    } else {
+      const newTrajectory: Trajectory = {
+        id: generateId(),
+        number: Math.max(0, ...trajectories.map(t => t.number)) + 1,
+        eventId: eventType.id,
+        eventName: eventType.name,
+        cameraId: camera.id,
+        cameraName: camera.name,
+        note: '',
+        points: [trackPoint]
+      };
+      onTrajectoriesChange([...trajectories, newTrajectory]);
+      setActiveTrajectoryId(newTrajectory.id);
+    }
+    handleFrameStep(framesPerClick);
+  };
+
+  // Continue an earlier trajectory from its last point, or start a new one on the next click
+  const handleSelectTrajectory = (trajectoryId: string | null) => {
+    const trajectory = trajectories.find(t => t.id === trajectoryId);
+    setActiveTrajectoryId(trajectory ? trajectory.id : null);
+    if (!trajectory) return;
+
+    setTrackingEventId(trajectory.eventId);
+    const lastPoint = trajectory.points[trajectory.points.length - 1];
+    if (lastPoint) {
+      onVideoStateChange((prev: VideoState) => ({ ...prev, currentTime: lastPoint.atSecondFirst, isPlaying: false }));
+    }
+  };
+
+  // The class applies to the vehicle being tracked as well as to new ones
+  const handleTrackingEventIdChange = (eventId: number) => {
+    const eventType = eventTypes.find(e => e.id === eventId);
+    setTrackingEventId(eventId);
+    if (eventType && activeTrajectoryId) {
+      onTrajectoriesChange(trajectories.map(t => t.id === activeTrajectoryId ? { ...t, eventId, eventName: eventType.name } : t));
+    }
+  };
+
+  // Remove the last point and go back to its frame; a trajectory without points is removed
+  const handleUndoTrackPoint = () => {
+    const trajectory = trajectories.find(t => t.id === activeTrajectoryId);
+    const lastPoint = trajectory?.points[trajectory.points.length - 1];
+    if (!trajectory || !lastPoint) return;
+
+    if (trajectory.points.length === 1) {
+      onTrajectoriesChange(trajectories.filter(t => t.id !== trajectory.id));
+      setActiveTrajectoryId(null);
+    } else {
+      onTrajectoriesChange(trajectories.map(t => t.id === trajectory.id ? { ...t, points: t.points.slice(0, -1) } : t));
+    }
+    onVideoStateChange((prev: VideoState) => ({ ...prev, currentTime: lastPoint.atSecondFirst, isPlaying: false }));
+  };
+
+  const handleToggleSpeed = () => {
+    if (!showSpeed) {
+      const camera = cameras.find(c => c.id === videos[videoState.currentVideoIndex]?.cameraId);
+      setSpeedTrapId(prev => camera?.speedTraps.some(t => t.id === prev) ? prev : camera?.speedTraps[0]?.id ?? null);
+      setSpeedEventId(prev => eventTypes.some(e => e.id === prev && e.kind === 'point') ? prev : eventTypes.find(e => e.kind === 'point')?.id ?? null);
+      setShowOverlays(true);
+      onVideoStateChange((prev: VideoState) => ({ ...prev, isPlaying: false }));
+    }
+    setSpeedEntry(null);
+    setShowSpeed(!showSpeed);
+  };
+
+  const handleToggleActivity = () => {
+    // Leaving the mode goes back to normal speed
+    if (showActivity) {
+      onVideoStateChange((prev: VideoState) => ({ ...prev, playbackRate: normalRate }));
+    }
+    activitySampleRef.current = null;
+    setMotionActive(null);
+    setShowActivity(!showActivity);
+  };
+
+  // Check the next fast-forwarded stretch after the current position
+  const handleNextSkipped = () => {
+    const next = getActivityRanges(videos, activitySegments).find(r => !r.active && r.start > videoState.currentTime + 0.5);
+    const range = next || getActivityRanges(videos, activitySegments).find(r => !r.active);
+    if (range) {
+      onVideoStateChange((prev: VideoState) => ({ ...prev, currentTime: range.start, isPlaying: false }));
+    }
+  };
+
+  const handleClearActivitySegments = () => {
+    if (window.confirm('Forget all recorded idle and motion stretches?')) {
+      onActivitySegmentsChange([]);
+    }
+  };
+
+  const handleToggleDetection = () => {
+    if (showDetection) {
+      scanAbortRef.current?.abort();
+      setReviewing(false);
+    } else {
+      const camera = cameras.find(c => c.id === videos[videoState.currentVideoIndex]?.cameraId);
+      const lines = camera ? camera.overlays.filter(s => s.kind === 'line') : [];
+      setDetectionLineId(prev => lines.some(l => l.id === prev) ? prev : lines[0]?.id ?? null);
+    }
+    setShowDetection(!showDetection);
+  };
+
+  // Pre-scan the current video for crossings of the chosen line; they become candidates for the review queue
+  const handleScan = async () => {
+    const video = videos[videoState.currentVideoIndex];
+    const camera = cameras.find(c => c.id === video?.cameraId);
+    const line = camera?.overlays.find(s => s.id === detectionLineId && s.kind === 'line');
+    if (!video || !camera || !line) return;
+
+    const controller = new AbortController();
+    scanAbortRef.current = controller;
+    setScanProgress(0);
+    try {
+      const crossings = await scanLineCrossings(video, line.points, { samplesPerSecond, minBlobShare: minBlobPercent / 100 }, setScanProgress, controller.signal);
+      const found = crossings.map((crossing): CandidateEvent => ({
+        ...crossing,
+        id: generateId(),
+        videoId: video.id,
+        videoName: video.name,
+        cameraId: camera.id,
+        lineId: line.id,
+        lineName: line.name,
+        suggestedEventId: line.eventTypeIds.find(id => eventTypes.some(e => e.id === id && e.kind === 'point')) ?? null,
+        status: 'pending'
+      }));
+      onCandidatesChange(prev => mergeCandidates(prev, video.id, line.id, found));
+      setLastScanCount(found.length);
+    } catch (error) {
+      console.error('Failed to scan video:', error);
+      alert(`Scanning ${video.name} failed: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      scanAbortRef.current = null;
+      setScanProgress(null);
+    }
+  };
+
+  // Stop a running scan when the player goes away
+  useEffect(() => () => scanAbortRef.current?.abort(), []);
+
+  // Pending candidates of the active camera with a loaded video, in timeline order
+  const getReviewQueue = (): CandidateEvent[] => {
+    const cameraId = videos[videoState.currentVideoIndex]?.cameraId;
+    return candidates
+      .filter(c => c.cameraId === cameraId && c.status === 'pending')
+      .map(c => ({ c, position: getCandidatePosition(videos, c) }))
+      .filter(({ position }) => position !== null)
+      .sort((a, b) => (a.position?.currentTime ?? 0) - (b.position?.currentTime ?? 0))
+      .map(({ c }) => c);
+  };
+
+  const getReviewCandidate = (): CandidateEvent | undefined => {
+    return reviewing ? candidates.find(c => c.id === reviewCandidateId && c.status === 'pending') : undefined;
+  };
+
+  // Show a candidate paused at its crossing frame, in its own camera view
+  const showCandidate = (candidate: CandidateEvent) => {
+    setReviewCandidateId(candidate.id);
+    const position = getCandidatePosition(videos, candidate);
+    if (!position) return;
+    onVideoStateChange((prev: VideoState) => ({
+      ...prev,
+      currentTime: position.currentTime,
+      currentVideoIndex: position.videoIndex,
+      currentVideoTime: candidate.time,
+      isPlaying: false
+    }));
+  };
+
+  const handleStartReview = () => {
+    const first = getReviewQueue()[0];
+    if (!first) return;
+    setReviewing(true);
+    showCandidate(first);
+  };
+
+  // Go on with the candidate after the reviewed one; the review ends when none is left
+  const showNextCandidate = (reviewed: CandidateEvent) => {
+    const queue = getReviewQueue();
+    const index = queue.findIndex(c => c.id === reviewed.id);
+    const next = queue.slice(index + 1).find(c => c.id !== reviewed.id) || queue.find(c => c.id !== reviewed.id);
+    if (next) {
+      showCandidate(next);
+    } else {
+      setReviewing(false);
+      setReviewCandidateId(null);
+    }
+  };
+
+  // A crossing is a moment, so candidates are confirmed as point events only
+  const handleConfirmCandidate = (eventId: number) => {
+    const candidate = getReviewCandidate();
+    if (!candidate || !eventTypes.some(e => e.id === eventId && e.kind === 'point')) return;
+    onCandidateConfirm(candidate, eventId);
+    setLastDecidedCandidateId(candidate.id);
+    showNextCandidate(candidate);
+  };
+
+  const handleRejectCandidate = () => {
+    const candidate = getReviewCandidate();
+    if (!candidate) return;
+    onCandidatesChange(prev => prev.map((c): CandidateEvent => c.id === candidate.id ? { ...c, status: 'rejected' } : c));
+    setLastDecidedCandidateId(candidate.id);
+    showNextCandidate(candidate);
+  };
+
+  // Take back the last decision and review that candidate again
+  const handleUndoCandidate = () => {
+    const candidate = candidates.find(c => c.id === lastDecidedCandidateId && c.status !== 'pending');
+    if (!candidate) return;
+    onCandidateReopen(candidate);
+    setLastDecidedCandidateId(null);
+    setReviewing(true);
+    showCandidate(candidate);
+  };
+
+  const handleClearPendingCandidates = () => {
+    const cameraId = videos[videoState.currentVideoIndex]?.cameraId;
+    if (window.confirm('Remove all candidates of this camera that were not reviewed yet?')) {
+      onCandidatesChange(prev => prev.filter(c => c.cameraId !== cameraId || c.status !== 'pending'));
+      setReviewing(false);
+    }
+  };
+
+  // Single keystrokes decide on the reviewed candidate; they take precedence over the marking hotkeys.
+  // Other keys (play, seek, frame steps) keep working to check the crossing.
+  reviewKeyRef.current = (event: KeyboardEvent) => {
+    const targetTag = (event.target as HTMLElement)?.tagName?.toLowerCase();
+    if (targetTag === 'input' || targetTag === 'textarea' || targetTag === 'select') return;
+
+    const hotkey = getHotkeyFromEvent(event);
+    const candidate = getReviewCandidate();
+    const hotkeyEventType = eventTypes.find(e => e.hotkey && e.hotkey === hotkey);
+    let action: (() => void) | undefined;
+    if (hotkey === 'Enter') {
+      const suggestedEventType = eventTypes.find(e => e.id === candidate?.suggestedEventId && e.kind === 'point');
+      action = () => {
+        if (suggestedEventType) handleConfirmCandidate(suggestedEventType.id);
+      };
+    } else if (hotkey === 'Delete' || hotkey === 'Backspace') {
+      action = handleRejectCandidate;
+    } else if (hotkey === 'ArrowDown') {
+      action = () => {
+        if (candidate) showNextCandidate(candidate);
+      };
+    } else if (hotkey === 'Ctrl+z') {
+      action = handleUndoCandidate;
+    } else if (hotkey === 'Escape') {
+      action = () => setReviewing(false);
+    } else if (hotkeyEventType) {
+      // Interval hotkeys are swallowed, so they neither reclassify nor open an interval while reviewing
+      action = () => {
+        if (hotkeyEventType.kind === 'point') handleConfirmCandidate(hotkeyEventType.id);
+      };
+    }
+    if (!action) return;
+
+    event.preventDefault();
+    event.stopPropagation();
+    if (!event.repeat) action();
+  };
+
+  useEffect(() => {
+    if (!reviewing) return;
+    const handleKeyDown = (event: KeyboardEvent) => reviewKeyRef.current(event);
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [reviewing]);
+
+  const handleSpeedTrapsChange = (speedTraps: SpeedTrap[]) => {
+    const cameraId = videos[videoState.currentVideoIndex]?.cameraId;
+    onCamerasChange(cameras.map(c => c.id === cameraId ? { ...c, speedTraps } : c));
+  };
+
+  const getPlaybackPosition = (): PendingChord['position'] => ({
+    currentTime: videoState.currentTime,
+    currentVideoIndex: videoState.currentVideoIndex,
+    currentVideoTime: videoState.currentVideoTime,
+    playbackRate: videoState.playbackRate
+  });
+
+  // The exit crossing completes the measurement; the vehicle is recorded at its entry crossing
+  const handleSpeedExit = () => {
+    const camera = cameras.find(c => c.id === videos[videoState.currentVideoIndex]?.cameraId);
+    const speedTrap = camera?.speedTraps.find(t => t.id === speedTrapId);
+    if (!speedEntry || !speedTrap || speedEventId === null) return;
+
+    const speed = calculateSpotSpeed(videos, speedEntry, getPlaybackPosition(), speedTrap);
+    if (!speed) {
+      alert('The exit crossing must be at a different frame than the entry crossing.');
+      return;
+    }
+
+    onSpeedMark(speedEventId, speedEntry, speed);
+    setLastSpeedKmh(speed.speedKmh);
+    setSpeedEntry(null);
+  };
+
+  // Lines and zones linked to event types show how many of them were marked in this camera view
+  const getOverlayLabel = (shape: OverlayShape): string => {
+    if (shape.eventTypeIds.length === 0) return shape.name;
+    const cameraId = videos[videoState.currentVideoIndex]?.cameraId;
+    const count = timestamps.filter(t => shape.eventTypeIds.includes(t.eventId) && (!t.cameraId || t.cameraId === cameraId)).length;
+    return `${shape.name} (${count})`;
+  };
+
   // Close context menu on click outside
   useEffect(() => {
     const handleClickOutside = () => {
@@ -182,45 +790,319 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
   }, [showContextMenu.show]);
 
   const currentVideo = videos[videoState.currentVideoIndex];
+  const activeCamera = cameras.find(c => c.id === currentVideo?.cameraId);
+  const showMultiView = multiView && cameras.length > 1;
+  const pendingEventType = pendingChord ? eventTypes.find(e => e.id === pendingChord.eventId) : undefined;
+  const clickMarkEventType = eventTypes.find(e => e.id === clickMarkEventId);
+  // Points of events marked by click in this camera view during the last 3 seconds
+  const recentPointMarkers = timestamps
+    .filter(t => t.point && (!t.cameraId || t.cameraId === activeCamera?.id) && videoState.currentTime - t.atSecondFirst >= 0 && videoState.currentTime - t.atSecondFirst < 3)
+    .map(t => ({ id: t.id, point: t.point as NormalizedPoint, color: eventTypes.find(e => e.id === t.eventId)?.color || '#6c757d' }));
+  const activeTrajectory = trajectories.find(t => t.id === activeTrajectoryId && t.cameraId === activeCamera?.id);
+  // Trajectories of this camera around the current position, drawn up to it; the tracked one is drawn in full
+  const trajectoryPaths = trajectories
+    .filter(t => t.cameraId === activeCamera?.id && t.points.length > 0)
+    .filter(t => t === activeTrajectory || (
+      videoState.currentTime >= t.points[0].atSecondFirst - 0.05 && videoState.currentTime <= t.points[t.points.length - 1].atSecondFirst + 2
+    ))
+    .map(t => ({
+      id: t.id,
+      label: `#${t.number}`,
+      color: eventTypes.find(e => e.id === t.eventId)?.color || '#6c757d',
+      points: t === activeTrajectory ? t.points : t.points.filter(p => p.atSecondFirst <= videoState.currentTime + 0.05),
+      active: t === activeTrajectory
+    }));
+  const pendingCandidateCount = candidates.filter(c => c.status === 'pending').length;
+  const reviewCandidate = getReviewCandidate();
+  const reviewCandidatePosition = reviewCandidate ? getCandidatePosition(videos, reviewCandidate) : null;
+  const candidateMarkers = reviewCandidate ? [{
+    id: `candidate-${reviewCandidate.id}`,
+    point: reviewCandidate.point,
+    color: eventTypes.find(e => e.id === reviewCandidate.suggestedEventId)?.color || '#dc3545'
+  }] : [];
+  const activityRanges = getActivityRanges(videos, activitySegments);
+  const skippedRanges = activityRanges.filter(r => !r.active);
+  const openIntervalEventIds = timestamps.filter(t => t.endSecondFirst === null).map(t => t.eventId);
+  const lastMarkedEventType = lastMarkedTimestamp ? eventTypes.find(e => e.id === lastMarkedTimestamp.eventId) : undefined;
+  const quickAttributes = lastMarkedEventType ? lastMarkedEventType.attributes.filter(a => a.type !== 'text') : [];
 
   return (
     <Card>
       <Card.Body>
         {videos.length > 0 ? (
           <>
-            <video
-              ref={videoRef}
-              width="100%"
-              style={{ maxHeight: '70vh', height: 'auto' }}
-              onTimeUpdate={handleTimeUpdate}
-              onEnded={handleVideoEnd}
-              onLoadedMetadata={() => {
-                if (videoRef.current) {
-                  videoRef.current.currentTime = videoState.currentVideoTime;
-                }
-              }}
-            />
+            {/* The active camera keeps the same <video> element in single and multi-view */}
+            <div className={showMultiView ? 'multi-view-grid' : ''}>
+              <div
+                className={showMultiView ? 'video-frame camera-tile active' : 'video-frame'}
+                style={showMultiView ? { borderColor: activeCamera?.color } : undefined}
+              >
+                {showMultiView && activeCamera && (
+                  <div className="camera-tile-label" style={{ backgroundColor: activeCamera.color }}>
+                    {activeCamera.name} ✎
+                  </div>
+                )}
+                {[firstPlayerRef, secondPlayerRef].map((playerRef, slot) => (
+                  <video
+                    key={slot}
+                    ref={playerRef}
+                    className={slot === activeSlot ? undefined : 'video-standby'}
+                    width="100%"
+                    preload="auto"
+                    style={{ maxHeight: showMultiView ? '35vh' : '70vh', height: 'auto' }}
+                    onTimeUpdate={handleTimeUpdate}
+                    onPause={handleTimeUpdate}
+                    onEnded={handleVideoEnd}
+                    onLoadedMetadata={(e) => {
+                      if (e.currentTarget === videoRef.current && currentVideo && e.currentTarget.dataset.videoId === currentVideo.id) {
+                        e.currentTarget.currentTime = getFrameTime(getFrameIndex(videoState.currentVideoTime, currentVideo.frameRate), currentVideo.frameRate);
+                      }
+                    }}
+                  />
+                ))}
+                {activeCamera && (showOverlays || overlayDraft || clickMarkEventType || showTracking || reviewCandidate) && (
+                  <VideoOverlay
+                    videoRef={videoRef}
+                    shapes={showOverlays ? activeCamera.overlays : []}
+                    draft={overlayDraft}
+                    markers={[...recentPointMarkers, ...candidateMarkers]}
+                    paths={showOverlays || showTracking ? trajectoryPaths : []}
+                    onPointAdd={
+                      overlayDraft ? handleDraftPointAdd
+                        : showTracking ? handleTrackPoint
+                        : clickMarkEventType ? (point) => onEventMark(clickMarkEventType.id, point)
+                        : undefined
+                    }
+                    onFinish={overlayDraft?.kind === 'zone' ? () => handleFinishDrawing() : undefined}
+                    getShapeLabel={getOverlayLabel}
+                    flashShapeIds={lastMarkedTimestamp ? activeCamera.overlays.filter(s => s.eventTypeIds.includes(lastMarkedTimestamp.eventId)).map(s => s.id) : []}
+                    flashKey={lastMarkedTimestamp?.id}
+                  />
+                )}
+              </div>
+              {showMultiView && cameras.filter(c => c.id !== activeCamera?.id).map(camera => (
+                <CameraTile
+                  key={camera.id}
+                  camera={camera}
+                  videos={videos}
+                  currentTime={videoState.currentTime}
+                  isPlaying={videoState.isPlaying}
+                  playbackRate={videoState.playbackRate}
+                  showOverlays={showOverlays}
+                  onSelect={() => handleSelectCamera(camera.id)}
+                />
+              ))}
+            </div>
             
             <div className="mt-2">
+              {cameras.length > 1 && (
+                <div className="d-flex flex-wrap align-items-center gap-1 mb-2">
+                  <small className="text-muted me-1"><strong>Camera:</strong></small>
+                  {cameras.map(camera => (
+                    <Button
+                      key={camera.id}
+                      size="sm"
+                      variant={camera.id === activeCamera?.id ? 'primary' : 'outline-secondary'}
+                      className="py-0 px-2"
+                      disabled={camera.id !== activeCamera?.id && !findCameraVideoAtTime(videos, camera.id, videoState.currentTime)}
+                      onClick={() => handleSelectCamera(camera.id)}
+                      title={`Show ${camera.name} and record marked events in it`}
+                    >
+                      <span style={{ color: camera.color }}>●</span> {camera.name}
+                    </Button>
+                  ))}
+                  <Form.Check
+                    type="switch"
+                    id="multi-view-switch"
+                    className="ms-2 small"
+                    label="Multi-view"
+                    checked={multiView}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMultiView(e.target.checked)}
+                  />
+                </div>
+              )}
               <div className="mb-2">
                 <small className="text-muted">
                   <strong>Current Video:</strong> {currentVideo?.name}
                 </small>
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="p-0 ms-2 align-baseline"
+                  onClick={handleAddClockAnchor}
+                  title="Add a clock anchor at this position to correct the camera's clock drift"
+                >
+                  🕒 Clock anchor{(currentVideo?.clockAnchors || []).length > 0 && ` (${(currentVideo?.clockAnchors || []).length})`}
+                </Button>
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="p-0 ms-2 align-baseline"
+                  onClick={() => setShowOverlayEditor(!showOverlayEditor)}
+                  title="Draw count lines, zones and labels over the video"
+                >
+                  📐 Overlays{activeCamera && activeCamera.overlays.length > 0 && ` (${activeCamera.overlays.length})`}
+                </Button>
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="p-0 ms-2 align-baseline"
+                  onClick={handleToggleTracking}
+                  title="Track vehicle paths by clicking their position frame by frame"
+                >
+                  🛤️ Tracking{trajectories.length > 0 && ` (${trajectories.length})`}
+                </Button>
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="p-0 ms-2 align-baseline"
+                  onClick={handleToggleSpeed}
+                  title="Measure spot speeds between two reference lines"
+                >
+                  🚗 Speed
+                </Button>
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="p-0 ms-2 align-baseline"
+                  onClick={handleToggleActivity}
+                  title="Fast-forward while a region of the frame shows no motion"
+                >
+                  ⏩ Fast-forward{showActivity && motionActive !== null && (motionActive ? ': motion' : ': idle')}
+                </Button>
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="p-0 ms-2 align-baseline"
+                  onClick={handleToggleDetection}
+                  title="Find vehicles crossing a count line automatically and review them"
+                >
+                  🤖 Detect{scanProgress !== null ? ` (${Math.round(scanProgress * 100)}%)` : pendingCandidateCount > 0 && ` (${pendingCandidateCount})`}
+                </Button>
+                <Form.Select
+                  size="sm"
+                  className="d-inline-block w-auto ms-3 py-0"
+                  value={clickMarkEventId ?? ''}
+                  onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setClickMarkEventId(e.target.value ? Number(e.target.value) : null)}
+                  title="Click on the video to mark an event of this type at the clicked position"
+                >
+                  <option value="">🎯 Click to mark: off</option>
+                  {eventTypes.map(eventType => (
+                    <option key={eventType.id} value={eventType.id}>🎯 Click to mark: {eventType.name}</option>
+                  ))}
+                </Form.Select>
               </div>
+              {showDetection && activeCamera && (
+                <DetectionPanel
+                  camera={activeCamera}
+                  eventTypes={eventTypes.filter(e => e.kind === 'point')}
+                  lineId={detectionLineId}
+                  onLineIdChange={setDetectionLineId}
+                  samplesPerSecond={samplesPerSecond}
+                  onSamplesPerSecondChange={setSamplesPerSecond}
+                  minBlobPercent={minBlobPercent}
+                  onMinBlobPercentChange={setMinBlobPercent}
+                  scanProgress={scanProgress}
+                  lastScanCount={lastScanCount}
+                  onScan={handleScan}
+                  onCancelScan={() => scanAbortRef.current?.abort()}
+                  candidates={candidates.filter(c => c.cameraId === activeCamera.id)}
+                  reviewing={reviewing}
+                  reviewCandidate={reviewCandidate}
+                  reviewCandidateTime={reviewCandidatePosition ? calculateRealWorldTime(videos, reviewCandidatePosition.currentTime) : ''}
+                  onStartReview={handleStartReview}
+                  onStopReview={() => setReviewing(false)}
+                  onConfirm={handleConfirmCandidate}
+                  onReject={handleRejectCandidate}
+                  onSkip={() => {
+                    if (reviewCandidate) showNextCandidate(reviewCandidate);
+                  }}
+                  onUndo={handleUndoCandidate}
+                  canUndo={candidates.some(c => c.id === lastDecidedCandidateId && c.status !== 'pending')}
+                  onClearPending={handleClearPendingCandidates}
+                  onClose={handleToggleDetection}
+                />
+              )}
+              {showActivity && activeCamera && (
+                <ActivityPanel
+                  camera={activeCamera}
+                  regionId={activityRegionId}
+                  onRegionIdChange={setActivityRegionId}
+                  normalRate={normalRate}
+                  onNormalRateChange={setNormalRate}
+                  idleRate={idleRate}
+                  onIdleRateChange={setIdleRate}
+                  sensitivity={motionSensitivity}
+                  onSensitivityChange={setMotionSensitivity}
+                  motionActive={motionActive}
+                  skippedCount={skippedRanges.length}
+                  skippedSeconds={skippedRanges.reduce((sum, r) => sum + r.end - r.start, 0)}
+                  onNextSkipped={handleNextSkipped}
+                  onClearSegments={handleClearActivitySegments}
+                  onClose={handleToggleActivity}
+                />
+              )}
+              {showSpeed && activeCamera && (
+                <SpeedPanel
+                  camera={activeCamera}
+                  eventTypes={eventTypes.filter(e => e.kind === 'point')}
+                  onSpeedTrapsChange={handleSpeedTrapsChange}
+                  speedTrapId={speedTrapId}
+                  onSpeedTrapIdChange={setSpeedTrapId}
+                  speedEventId={speedEventId}
+                  onSpeedEventIdChange={setSpeedEventId}
+                  entryTime={speedEntry ? calculateRealWorldTime(videos, speedEntry.currentTime) : null}
+                  onMarkEntry={() => setSpeedEntry(getPlaybackPosition())}
+                  onMarkExit={handleSpeedExit}
+                  onCancelEntry={() => setSpeedEntry(null)}
+                  lastSpeedKmh={lastSpeedKmh}
+                  onClose={handleToggleSpeed}
+                />
+              )}
+              {showTracking && activeCamera && (
+                <TrackingPanel
+                  camera={activeCamera}
+                  eventTypes={eventTypes}
+                  trajectories={trajectories.filter(t => t.cameraId === activeCamera.id)}
+                  trackingEventId={trackingEventId}
+                  onTrackingEventIdChange={handleTrackingEventIdChange}
+                  framesPerClick={framesPerClick}
+                  onFramesPerClickChange={setFramesPerClick}
+                  activeTrajectory={activeTrajectory}
+                  onSelectTrajectory={handleSelectTrajectory}
+                  onUndoPoint={handleUndoTrackPoint}
+                  onClose={handleToggleTracking}
+                />
+              )}
+              {showOverlayEditor && activeCamera && (
+                <OverlayEditor
+                  camera={activeCamera}
+                  eventTypes={eventTypes}
+                  draft={overlayDraft}
+                  onStartDrawing={handleStartDrawing}
+                  onFinishDrawing={() => handleFinishDrawing()}
+                  onCancelDrawing={() => setOverlayDraft(null)}
+                  onOverlaysChange={handleOverlaysChange}
+                  showOverlays={showOverlays}
+                  onShowOverlaysChange={setShowOverlays}
+                />
+              )}
               
-              {/* Seek bar */}
-              <Form.Range
-                min={0}
-                max={videoState.totalDuration}
-                step={0.1}
-                value={videoState.currentTime}
-                onChange={handleSeekChange}
-                className="mb-2"
+              {/* Seek bar with event markers; gaps without video are hatched, overlaps orange */}
+              <EventTimeline
+                videos={videos}
+                timestamps={timestamps}
+                eventTypes={eventTypes}
+                currentTime={videoState.currentTime}
+                totalDuration={videoState.totalDuration}
+                isPlaying={videoState.isPlaying}
+                onSeek={handleSeek}
+                activityRanges={activityRanges}
               />
               
               {/* Time display */}
               <div className="small text-muted mb-2">
-                <strong>Wall Time:</strong> {calculateRealWorldTime(videos, videoState.currentTime)} | <strong>Total:</strong> {formatTime(videoState.currentTime)} / {formatTime(videoState.totalDuration)} ({videoState.currentTime.toFixed(1)}s/{videoState.totalDuration.toFixed(1)}s) | <strong>Current:</strong> {formatTime(videoState.currentVideoTime)} / {formatTime(currentVideo?.duration || 0)} ({videoState.currentVideoTime.toFixed(1)}s/{(currentVideo?.duration || 0).toFixed(1)}s)
+                <strong>Wall Time:</strong> {calculateRealWorldDateTime(videos, videoState.currentTime).date} {calculateRealWorldTime(videos, videoState.currentTime)} | <strong>Total:</strong> {formatTime(videoState.currentTime)} / {formatTime(videoState.totalDuration)} ({videoState.currentTime.toFixed(1)}s/{videoState.totalDuration.toFixed(1)}s) | <strong>Current:</strong> {formatTime(videoState.currentVideoTime)} / {formatTime(currentVideo?.duration || 0)} ({videoState.currentVideoTime.toFixed(1)}s/{(currentVideo?.duration || 0).toFixed(1)}s) | <strong>Frame:</strong> {currentVideo ? getFrameIndex(videoState.currentVideoTime, currentVideo.frameRate) : 0} @ {currentVideo?.frameRate} fps
               </div>
             </div>
 
@@ -236,6 +1118,14 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
                     {videoState.isPlaying ? '⏸️' : '▶️'}
                   </Button>
                 </Col>
+                <Col xs="auto" className="d-flex gap-1">
+                  <Button variant="outline-light" size="sm" onClick={() => handleFrameStep(-1)} title="Previous frame (,)">
+                    ⏮️
+                  </Button>
+                  <Button variant="outline-light" size="sm" onClick={() => handleFrameStep(1)} title="Next frame (.)">
+                    ⏭️
+                  </Button>
+                </Col>
                 <Col xs="auto">
                   <Button
                     variant="outline-light"
@@ -265,12 +1155,12 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
               {/* Event buttons */}
               <Row className="mb-2">
                 <Col>
-                  <div className="d-flex">
+                  <div className="d-flex flex-wrap">
                     {eventTypes.map(eventType => (
                       <Button
                         key={eventType.id}
                         variant="outline-light"
-                        className="event-button flex-fill me-1"
+                        className={`event-button flex-fill me-1 ${openIntervalEventIds.includes(eventType.id) ? 'interval-open' : ''}`}
                         style={{ 
                           backgroundColor: eventType.color, 
                           borderColor: eventType.color, 
@@ -286,19 +1176,127 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
                         onClick={() => onEventMark(eventType.id)}
                         onContextMenu={(e) => handleContextMenu(e, eventType.id)}
                       >
-                        <div style={{ fontSize: '1.2em', lineHeight: '1' }}>{eventType.id}</div>
+                        <div style={{ fontSize: '1.2em', lineHeight: '1' }}>{eventType.hotkey || '–'}</div>
                         <div style={{ fontSize: '0.75em', marginTop: '2px', opacity: 0.9 }}>{eventType.name}</div>
-                        <div className="event-counter" style={{ fontSize: '0.7em', opacity: 0.8 }}>({eventType.count})</div>
+                        <div className="event-counter" style={{ fontSize: '0.7em', opacity: 0.8 }}>
+                          ({eventType.count}){eventType.kind === 'interval' && (openIntervalEventIds.includes(eventType.id) ? ' ⏺ open' : ' ⇥')}
+                        </div>
                       </Button>
                     ))}
+                    <Button
+                      variant="outline-secondary"
+                      className="event-button"
+                      onClick={onEditEventTypes}
+                      title="Add, remove, reorder event types and change their hotkeys"
+                    >
+                      ⚙️
+                    </Button>
                   </div>
                 </Col>
               </Row>
 
+              {/* Movement buttons (second key of a chord) */}
+              {chordMode && movements.length > 0 && (
+                <Row className="mb-2">
+                  <Col>
+                    <div className="small mb-1" style={{ minHeight: '1.5em' }}>
+                      {pendingEventType ? (
+                        <div className="chord-pending" style={{ borderColor: pendingEventType.color }}>
+                          ⏳ <strong style={{ color: pendingEventType.color }}>{pendingEventType.name}</strong> → press a movement key (Esc cancels)
+                          <div
+                            key={pendingChord?.startedAt}
+                            className="chord-progress"
+                            style={{ backgroundColor: pendingEventType.color, animationDuration: `${chordTimeoutMs}ms` }}
+                          />
+                        </div>
+                      ) : (
+                        <span className="text-muted">Chord mode: press an event key, then a movement key</span>
+                      )}
+                    </div>
+                    <div className="d-flex flex-wrap">
+                      {movements.map(movement => (
+                        <Button
+                          key={movement.id}
+                          variant="outline-light"
+                          size="sm"
+                          className="event-button flex-fill me-1"
+                          disabled={!pendingChord}
+                          style={{
+                            backgroundColor: movement.color,
+                            borderColor: movement.color,
+                            color: 'white',
+                            fontWeight: 'bold',
+                            textShadow: '0 1px 2px rgba(0,0,0,0.5)'
+                          }}
+                          onClick={() => onMovementMark(movement.id)}
+                        >
+                          {movement.hotkey && <span className="me-1">{movement.hotkey}</span>}
+                          <span style={{ fontSize: '0.85em', opacity: 0.9 }}>{movement.name}</span>
+                        </Button>
+                      ))}
+                    </div>
+                  </Col>
+                </Row>
+              )}
+
+              {/* Attributes of the last marked event */}
+              {lastMarkedTimestamp && lastMarkedEventType && quickAttributes.length > 0 && (
+                <div className="attribute-panel mb-2" style={{ borderColor: lastMarkedEventType.color }}>
+                  <small className="text-muted me-2">
+                    Last <strong style={{ color: lastMarkedEventType.color }}>{lastMarkedEventType.name}</strong> ({lastMarkedTimestamp.timeHHMMSS}):
+                  </small>
+                  {quickAttributes.map(attribute => {
+                    const value = lastMarkedTimestamp.attributes?.[attribute.id];
+                    return (
+                      <span key={attribute.id} className="me-3 d-inline-flex align-items-center gap-1">
+                        <small>{attribute.name}:</small>
+                        {attribute.type === 'enum' && attribute.options.map((option, index) => (
+                          <Button
+                            key={index}
+                            size="sm"
+                            variant={value === option.value ? 'primary' : 'outline-secondary'}
+                            className="py-0 px-1"
+                            onClick={() => onAttributeChange(lastMarkedTimestamp.id, attribute.id, option.value)}
+                            title={option.hotkey ? `Hotkey: ${option.hotkey}` : undefined}
+                          >
+                            {option.value}{option.hotkey && <small className="opacity-75"> [{option.hotkey}]</small>}
+                          </Button>
+                        ))}
+                        {attribute.type === 'number' && (
+                          <>
+                            <strong>{formatAttributeValue(value)}</strong>
+                            <Button
+                              size="sm"
+                              variant="outline-secondary"
+                              className="py-0 px-1"
+                              onClick={() => onAttributeChange(lastMarkedTimestamp.id, attribute.id, (typeof value === 'number' ? value : 0) + 1)}
+                              title={attribute.hotkey ? `Hotkey: ${attribute.hotkey}` : undefined}
+                            >
+                              +1{attribute.hotkey && <small className="opacity-75"> [{attribute.hotkey}]</small>}
+                            </Button>
+                          </>
+                        )}
+                        {attribute.type === 'boolean' && (
+                          <Button
+                            size="sm"
+                            variant={value === true ? 'primary' : 'outline-secondary'}
+                            className="py-0 px-1"
+                            onClick={() => onAttributeChange(lastMarkedTimestamp.id, attribute.id, value !== true)}
+                            title={attribute.hotkey ? `Hotkey: ${attribute.hotkey}` : undefined}
+                          >
+                            {formatAttributeValue(value === true)}{attribute.hotkey && <small className="opacity-75"> [{attribute.hotkey}]</small>}
+                          </Button>
+                        )}
+                      </span>
+                    );
+                  })}
+                </div>
+              )}
+
               {/* Help text */}
               <div className="help-text">
                 <small className="text-muted">
-                  Keys 1-5: Mark events | Right-click events to rename | Space: Play/pause | i/o: Speed +/- | j/l: Seek ±1s | Shift+j/l: Seek ±10s
+                  Event hotkeys: Mark events (interval events: start/stop) | Right-click events to rename | ⚙️: Edit event types | Space: Play/pause | i/o: Speed +/- | j/l: Seek ±1s | Shift+j/l: Seek ±10s | ,/.: Step one frame | Camera buttons: switch the view events are marked in
                 </small>
               </div>
             </div>
@@ -1,25 +1,57 @@
 import React, { useRef, useState } from 'react';
 import { Button, Row, Col, Form, Spinner, Alert } from 'react-bootstrap';
-import { VideoFile, VideoState, Timestamp } from '../types';
-import { generateId, getVideoColors, inferStartTime, getVideoDuration, calculateTotalDuration, parseTime, formatTime, calculateRealWorldTime, parseSessionData } from '../utils';
+import { VideoFile, VideoState, Timestamp, EventType, Movement, CountTemplate, SessionData, ClockAnchor, Camera, StartTimeSource, FilenamePattern, Trajectory } from '../types';
+import { generateId, createCamera, findCameraByLabel, matchFilenamePatterns, getVideoColors, detectFrameRate, snapFrameRate, inferStartTime, getVideoDuration, calculateTotalDuration, formatTime, recalculateTimestampTimes, recalculateTrajectoryTimes, getTimelineSegments, parseSessionData, parseIsoDateTime, getVideoStartEpoch, calculateVideoDateTime, fromEpochSeconds } from '../utils';
+import TemplateLibrary from './TemplateLibrary';
+import ClockAnchorEditor from './ClockAnchorEditor';
+import CameraList from './CameraList';
+import FilenamePatternEditor from './FilenamePatternEditor';
+import { readContainerMetadata } from '../mp4';
 
 interface VideoUploadProps {
   videos: VideoFile[];
   onVideosChange: (videos: VideoFile[]) => void;
   onVideoStateChange: React.Dispatch<React.SetStateAction<VideoState>>;
+  cameras: Camera[];
+  onCamerasChange: (cameras: Camera[]) => void;
   timestamps: Timestamp[];
   onTimestampsChange: (timestamps: Timestamp[]) => void;
+  trajectories: Trajectory[];
+  onTrajectoriesChange: (trajectories: Trajectory[]) => void;
   onLoadSession: (sessionData: any) => void;
-  expectedVideoFiles: {name: string; startTime: string; duration: number}[];
+  expectedVideoFiles: SessionData['videoFiles'];
+  eventTypes: EventType[];
+  movements: Movement[];
+  chordMode: boolean;
+  onApplyTemplate: (template: CountTemplate) => void;
+  onClockAnchorsChange: (videoId: string, clockAnchors: ClockAnchor[]) => void;
+  filenamePatterns: FilenamePattern[];
+  onFilenamePatternsChange: (filenamePatterns: FilenamePattern[]) => void;
+  onRelinkVideos: () => void;
 }
 
-const VideoUpload: React.FC<VideoUploadProps> = ({ videos, onVideosChange, onVideoStateChange, timestamps, onTimestampsChange, onLoadSession, expectedVideoFiles }) => {
+const START_TIME_SOURCE_LABELS: Record<StartTimeSource, string> = {
+  'gopro-gps': 'GoPro GPS time',
+  'dji': 'DJI camera time',
+  'quicktime': 'QuickTime creation date',
+  'filename': 'filename',
+  'container': 'MP4 creation time',
+  'file-date': 'file date',
+  'previous-video': 'end of the previous video',
+  'session': 'saved session',
+  'manual': 'entered manually'
+};
+
+const VideoUpload: React.FC<VideoUploadProps> = ({ videos, onVideosChange, onVideoStateChange, cameras, onCamerasChange, timestamps, onTimestampsChange, trajectories, onTrajectoriesChange, onLoadSession, expectedVideoFiles, eventTypes, movements, chordMode, onApplyTemplate, onClockAnchorsChange, filenamePatterns, onFilenamePatternsChange, onRelinkVideos }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const sessionInputRef = useRef<HTMLInputElement>(null);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string>('');
   const [draggedVideoId, setDraggedVideoId] = useState<string | null>(null);
   const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
+  const [expandedAnchorsVideoId, setExpandedAnchorsVideoId] = useState<string | null>(null);
+  const [uploadCameraId, setUploadCameraId] = useState<string>('');
+  const uploadCamera = cameras.find(c => c.id === uploadCameraId) || cameras[0];
 
   const handleAddVideo = () => {
     fileInputRef.current?.click();
@@ -70,6 +102,7 @@ const VideoUpload: React.FC<VideoUploadProps> = ({ videos, onVideosChange, onVid
     try {
       const colors = getVideoColors();
       const newVideos: VideoFile[] = [];
+      const newCameras: Camera[] = [];
 
       for (let i = 0; i < files.length; i++) {
         const file = files[i];
@@ -79,23 +112,48 @@ const VideoUpload: React.FC<VideoUploadProps> = ({ videos, onVideosChange, onVid
           throw new Error(`File ${file.name} is not a video file`);
         }
 
-        const duration = await getVideoDuration(file);
-        if (duration === 0) {
+        const browserDuration = await getVideoDuration(file);
+        if (browserDuration === 0) {
           throw new Error(`Could not load video ${file.name}`);
         }
-
-        // Calculate start time
-        let startTime: string;
-        if (videos.length === 0 && newVideos.length === 0) {
-          // First video - infer from filename or file date
-          startTime = inferStartTime(file.name, new Date(file.lastModified));
+        const expectedFile = expectedVideoFiles.find(f => f.name === file.name);
+        const metadata = await readContainerMetadata(file);
+
+        // Some recordings report no finite duration to the browser; their movie header still knows it
+        const duration = isFinite(browserDuration) || !metadata.duration ? browserDuration : metadata.duration;
+        const frameRate = expectedFile?.frameRate || (metadata.frameRate ? snapFrameRate(metadata.frameRate) : await detectFrameRate(file));
+
+        // Videos of a loaded session go back to their camera, new videos to the camera in their filename or the selected one
+        let matchedCamera = cameras.find(c => c.id === expectedFile?.cameraId);
+        const cameraLabel = matchFilenamePatterns(file.name, filenamePatterns)?.camera;
+        if (!matchedCamera && cameraLabel) {
+          matchedCamera = findCameraByLabel([...cameras, ...newCameras], cameraLabel);
+          if (!matchedCamera) {
+            matchedCamera = { ...createCamera([...cameras, ...newCameras]), name: `Camera ${cameraLabel}` };
+            newCameras.push(matchedCamera);
+          }
+        }
+        const camera = matchedCamera || uploadCamera;
+
+        // Calculate start date and time
+        const cameraVideos = [...videos, ...newVideos].filter(v => v.cameraId === camera.id);
+        const savedStart = expectedFile?.startDateTime ? parseIsoDateTime(expectedFile.startDateTime) : null;
+        const { source, ...inferred } = inferStartTime(file.name, new Date(file.lastModified), metadata, filenamePatterns);
+        let start: Pick<VideoFile, 'startDate' | 'startTime' | 'utcOffset' | 'startTimeSource'>;
+        if (savedStart) {
+          // Video of a loaded session - restore its saved start
+          start = { startDate: savedStart.date, startTime: savedStart.time, utcOffset: savedStart.utcOffset, startTimeSource: expectedFile?.startTimeSource || 'session' };
+        } else if (expectedFile) {
+          // Sessions saved before date-aware timestamps only know the time of day
+          start = { ...inferred, startTime: expectedFile.startTime, startTimeSource: 'session' };
+        } else if (source !== 'file-date' || cameraVideos.length === 0) {
+          // Time in the metadata or filename, or first video of the camera - infer from them or the file date
+          start = { ...inferred, startTimeSource: source };
         } else {
-          // Subsequent videos - calculate from previous video end time
-          const allVideos = [...videos, ...newVideos];
-          const lastVideo = allVideos[allVideos.length - 1];
-          const lastStartSeconds = parseTime(lastVideo.startTime);
-          const newStartSeconds = lastStartSeconds + lastVideo.duration;
-          startTime = formatTime(newStartSeconds);
+          // Subsequent videos without a recorded time - continue where the camera's latest video ends
+          const latestVideo = cameraVideos.reduce((latest, v) => getVideoStartEpoch(v) + v.duration > getVideoStartEpoch(latest) + latest.duration ? v : latest);
+          const latestEnd = calculateVideoDateTime({ ...latestVideo, syncOffset: 0 }, latestVideo.duration);
+          start = { startDate: latestEnd.date, startTime: latestEnd.time, utcOffset: latestVideo.utcOffset, startTimeSource: 'previous-video' };
         }
 
         const videoFile: VideoFile = {
@@ -103,7 +161,11 @@ const VideoUpload: React.FC<VideoUploadProps> = ({ videos, onVideosChange, onVid
           file,
           name: file.name,
           duration,
-          startTime,
+          ...start,
+          clockAnchors: expectedFile?.clockAnchors,
+          cameraId: camera.id,
+          syncOffset: camera.syncOffset,
+          frameRate,
           color: colors[(videos.length + newVideos.length) % colors.length],
           url: URL.createObjectURL(file)
         };
@@ -111,6 +173,9 @@ const VideoUpload: React.FC<VideoUploadProps> = ({ videos, onVideosChange, onVid
         newVideos.push(videoFile);
       }
 
+      if (newCameras.length > 0) {
+        onCamerasChange([...cameras, ...newCameras]);
+      }
       const updatedVideos = [...videos, ...newVideos];
       onVideosChange(updatedVideos);
 
@@ -136,12 +201,16 @@ const VideoUpload: React.FC<VideoUploadProps> = ({ videos, onVideosChange, onVid
   };
 
   const handleRemoveVideo = (videoId: string) => {
-    // Check if there are any annotations for this video
+    // Check if there are any annotations or trajectory points for this video
     const hasAnnotations = timestamps.some(t => t.videoId === videoId);
     if (hasAnnotations) {
       setError('Cannot remove video: annotations exist for this video. Please delete all annotations first.');
       return;
     }
+    if (trajectories.some(t => t.points.some(p => p.videoId === videoId))) {
+      setError('Cannot remove video: trajectories were tracked in this video. Please delete those trajectories first.');
+      return;
+    }
 
     const updatedVideos = videos.filter(v => v.id !== videoId);
     
@@ -151,22 +220,14 @@ const VideoUpload: React.FC<VideoUploadProps> = ({ videos, onVideosChange, onVid
       URL.revokeObjectURL(videoToRemove.url);
     }
 
-    // Recalculate start times for remaining videos
-    const recalculatedVideos = updatedVideos.map((video, index) => {
-      if (index === 0) {
-        return video; // Keep first video's start time
-      } else {
-        const prevVideo = updatedVideos[index - 1];
-        const prevStartSeconds = parseTime(prevVideo.startTime);
-        const newStartSeconds = prevStartSeconds + prevVideo.duration;
-        return {
-          ...video,
-          startTime: formatTime(newStartSeconds)
-        };
-      }
-    });
-
-    onVideosChange(recalculatedVideos);
+    // The remaining videos keep their start times, but the timeline may now start later
+    onVideosChange(updatedVideos);
+    if (timestamps.length > 0) {
+      onTimestampsChange(recalculateTimestampTimes(updatedVideos, timestamps));
+    }
+    if (trajectories.length > 0) {
+      onTrajectoriesChange(recalculateTrajectoryTimes(updatedVideos, trajectories));
+    }
 
     // Update video state
     onVideoStateChange({
@@ -176,51 +237,112 @@ const VideoUpload: React.FC<VideoUploadProps> = ({ videos, onVideosChange, onVid
       isPlaying: false,
       isMuted: true,
       playbackRate: 1.0,
-      totalDuration: calculateTotalDuration(recalculatedVideos)
+      totalDuration: calculateTotalDuration(updatedVideos)
     });
   };
 
-  const handleStartTimeChange = (videoId: string, newStartTime: string) => {
+  const handleStartChange = (videoId: string, changes: Partial<Pick<VideoFile, 'startDate' | 'startTime' | 'utcOffset'>>) => {
     const videoIndex = videos.findIndex(v => v.id === videoId);
     if (videoIndex === -1) return;
 
-    const updatedVideos = [...videos];
-    updatedVideos[videoIndex] = { ...updatedVideos[videoIndex], startTime: newStartTime };
-
-    // Recalculate start times for subsequent videos
-    for (let i = videoIndex + 1; i < updatedVideos.length; i++) {
-      const prevVideo = updatedVideos[i - 1];
-      const prevStartSeconds = parseTime(prevVideo.startTime);
-      const newStartSeconds = prevStartSeconds + prevVideo.duration;
-      updatedVideos[i] = {
-        ...updatedVideos[i],
-        startTime: formatTime(newStartSeconds)
-      };
+    const video = videos[videoIndex];
+    const { startDate = video.startDate, startTime = video.startTime, utcOffset = video.utcOffset } = changes;
+    if (startDate === video.startDate && startTime === video.startTime && utcOffset === video.utcOffset) return;
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(startDate)) {
+      setError(`Invalid start date "${startDate}". Please use the YYYY-MM-DD format.`);
+      return;
+    }
+    if (!/^\d{2}:\d{2}:\d{2}$/.test(startTime)) {
+      setError(`Invalid start time "${startTime}". Please use the HH:MM:SS format.`);
+      return;
     }
+    if (!/^[+-]\d{2}:\d{2}$/.test(utcOffset)) {
+      setError(`Invalid UTC offset "${utcOffset}". Please use the +HH:MM format.`);
+      return;
+    }
+
+    // Every video keeps its own start, so gaps and overlaps between videos are preserved
+    const updatedVideos = [...videos];
+    updatedVideos[videoIndex] = { ...video, startDate, startTime, utcOffset, startTimeSource: 'manual' };
 
     onVideosChange(updatedVideos);
+    onVideoStateChange((prev: VideoState) => ({ ...prev, totalDuration: calculateTotalDuration(updatedVideos) }));
 
-    // Update all existing timestamps with new real-world times
+    // Update all existing timestamps and trajectory points with their new timeline positions and real-world times
     if (timestamps.length > 0) {
-      const updatedTimestamps = timestamps.map(timestamp => ({
-        ...timestamp,
-        timeHHMMSS: calculateRealWorldTime(updatedVideos, timestamp.atSecondFirst)
-      }));
-      onTimestampsChange(updatedTimestamps);
+      onTimestampsChange(recalculateTimestampTimes(updatedVideos, timestamps));
+    }
+    if (trajectories.length > 0) {
+      onTrajectoriesChange(recalculateTrajectoryTimes(updatedVideos, trajectories));
     }
   };
 
-  const handleDragStart = (e: React.DragEvent, videoId: string) => {
-    // Check if there are any annotations for any of the videos
-    const hasAnnotations = timestamps.some(t => 
-      videos.some(v => v.id === t.videoId)
-    );
-    if (hasAnnotations) {
-      e.preventDefault();
-      setError('Cannot reorder videos: annotations exist. Please delete all annotations first.');
+  // Start dates and times of the loaded videos from the filename patterns; cameras are only assigned when videos are added
+  const handleApplyFilenamePatterns = (): number => {
+    let count = 0;
+    const updatedVideos = videos.map<VideoFile>(video => {
+      const match = matchFilenamePatterns(video.name, filenamePatterns);
+      if (!match) return video;
+      count++;
+      return { ...video, startDate: match.date || video.startDate, startTime: match.time, startTimeSource: 'filename' };
+    });
+    if (count === 0) return 0;
+
+    onVideosChange(updatedVideos);
+    onVideoStateChange((prev: VideoState) => ({ ...prev, totalDuration: calculateTotalDuration(updatedVideos) }));
+    if (timestamps.length > 0) {
+      onTimestampsChange(recalculateTimestampTimes(updatedVideos, timestamps));
+    }
+    if (trajectories.length > 0) {
+      onTrajectoriesChange(recalculateTrajectoryTimes(updatedVideos, trajectories));
+    }
+    return count;
+  };
+
+  const handleFrameRateChange = (videoId: string, value: string) => {
+    const frameRate = Number(value);
+    if (isNaN(frameRate) || frameRate <= 0 || frameRate > 1000) {
+      setError(`Invalid frame rate "${value}". Please enter the frames per second of the video.`);
       return;
     }
-    
+
+    const updatedVideos = videos.map(v => v.id === videoId ? { ...v, frameRate } : v);
+    onVideosChange(updatedVideos);
+
+    // Frame numbers of existing annotations and trajectory points follow the new frame rate
+    if (timestamps.length > 0) {
+      onTimestampsChange(recalculateTimestampTimes(updatedVideos, timestamps));
+    }
+    if (trajectories.length > 0) {
+      onTrajectoriesChange(recalculateTrajectoryTimes(updatedVideos, trajectories));
+    }
+  };
+
+  const handleCameraChange = (videoId: string, cameraId: string) => {
+    const camera = cameras.find(c => c.id === cameraId);
+    if (!camera) return;
+
+    const updatedVideos = videos.map(v => v.id === videoId ? { ...v, cameraId, syncOffset: camera.syncOffset } : v);
+    onVideosChange(updatedVideos);
+    onVideoStateChange((prev: VideoState) => ({ ...prev, totalDuration: calculateTotalDuration(updatedVideos) }));
+
+    // Annotations marked in this video now belong to its new camera
+    if (timestamps.length > 0) {
+      onTimestampsChange(recalculateTimestampTimes(updatedVideos, timestamps).map(t =>
+        t.videoId === videoId ? { ...t, cameraId: camera.id, cameraName: camera.name } : t
+      ));
+    }
+    // So do the trajectories tracked in it
+    if (trajectories.length > 0) {
+      onTrajectoriesChange(recalculateTrajectoryTimes(updatedVideos, trajectories).map(t =>
+        t.points.some(p => p.videoId === videoId) ? { ...t, cameraId: camera.id, cameraName: camera.name } : t
+      ));
+    }
+  };
+
+  const handleDragStart = (e: React.DragEvent, videoId: string) => {
+    // Annotations refer to their videos by id, so reordering the list never moves them
     setDraggedVideoId(videoId);
     e.dataTransfer.effectAllowed = 'move';
   };
@@ -247,22 +369,11 @@ const VideoUpload: React.FC<VideoUploadProps> = ({ videos, onVideosChange, onVid
       return;
     }
 
-    // Reorder videos
+    // Reorder the list; positions on the timeline come from the start times and do not change
     const updatedVideos = [...videos];
     const [draggedVideo] = updatedVideos.splice(dragIndex, 1);
     updatedVideos.splice(dropIndex, 0, draggedVideo);
 
-    // Recalculate start times for all videos after the first one
-    for (let i = 1; i < updatedVideos.length; i++) {
-      const prevVideo = updatedVideos[i - 1];
-      const prevStartSeconds = parseTime(prevVideo.startTime);
-      const newStartSeconds = prevStartSeconds + prevVideo.duration;
-      updatedVideos[i] = {
-        ...updatedVideos[i],
-        startTime: formatTime(newStartSeconds)
-      };
-    }
-
     onVideosChange(updatedVideos);
 
     // Update video state
@@ -286,9 +397,18 @@ const VideoUpload: React.FC<VideoUploadProps> = ({ videos, onVideosChange, onVid
   };
 
   const getVideoTimeRange = (video: VideoFile): string => {
-    const startSeconds = parseTime(video.startTime);
-    const endSeconds = startSeconds + video.duration;
-    return `${video.startTime} - ${formatTime(endSeconds)}`;
+    const end = fromEpochSeconds(getVideoStartEpoch(video) + video.duration, video.utcOffset);
+    return `${video.startDate} ${video.startTime} - ${end.date === video.startDate ? '' : `${end.date} `}${end.time} (UTC${video.utcOffset})`;
+  };
+
+  // Gap to (positive) or overlap with (negative) the videos of the same camera recorded before this one
+  const getPrecedingGap = (videoIndex: number): number | null => {
+    const segments = getTimelineSegments(videos).filter(s => videos[s.videoIndex].cameraId === videos[videoIndex].cameraId);
+    const position = segments.findIndex(s => s.videoIndex === videoIndex);
+    if (position <= 0) return null;
+
+    const precedingEnd = Math.max(...segments.slice(0, position).map(s => s.end));
+    return segments[position].start - precedingEnd;
   };
 
   return (
@@ -312,30 +432,61 @@ const VideoUpload: React.FC<VideoUploadProps> = ({ videos, onVideosChange, onVid
         />
       </div>
 
+      {/* Count template library */}
+      <TemplateLibrary
+        eventTypes={eventTypes}
+        movements={movements}
+        chordMode={chordMode}
+        filenamePatterns={filenamePatterns}
+        hasAnnotations={timestamps.length > 0}
+        onApplyTemplate={onApplyTemplate}
+      />
+
+      {/* Cameras filming in parallel */}
+      <CameraList
+        cameras={cameras}
+        videos={videos}
+        onCamerasChange={onCamerasChange}
+        onError={setError}
+      />
+
+      {/* Filename templates for start times and cameras */}
+      <FilenamePatternEditor
+        filenamePatterns={filenamePatterns}
+        onFilenamePatternsChange={onFilenamePatternsChange}
+        filenames={[...videos.map(v => v.name), ...expectedVideoFiles.map(f => f.name).filter(name => !videos.some(v => v.name === name))]}
+        onApplyToVideos={handleApplyFilenamePatterns}
+      />
+
       {/* Expected video files warning */}
       {expectedVideoFiles.length > 0 && (
         <Alert variant="warning" className="mb-4">
           <Alert.Heading>📋 Session Loaded - Please Add Required Videos</Alert.Heading>
           <p className="mb-2">
-            Please add the following video files in the exact order shown below:
+            Please add the following video files in any order, then link them to the session's videos. Renamed or re-encoded
+            files are suggested by filename, duration and size.
           </p>
-          <div className="bg-light p-3 rounded">
+          <div className="bg-light p-3 rounded mb-2">
             {expectedVideoFiles.map((file, index) => {
-              const isAdded = videos[index] && videos[index].name === file.name;
+              const isAdded = videos.some(v => v.name === file.name);
               return (
                 <div key={index} className={`d-flex align-items-center mb-2 ${isAdded ? 'text-success' : 'text-muted'}`}>
                   <span className="me-2">{isAdded ? '✅' : '⏳'}</span>
                   <strong>{index + 1}.</strong>
                   <span className="ms-2">{file.name}</span>
-                  <span className="ms-auto text-muted">({file.startTime})</span>
+                  <span className="ms-auto text-muted">({file.startTime}, {formatTime(file.duration)})</span>
                 </div>
               );
             })}
           </div>
-          <small className="text-muted">
-            {videos.length} of {expectedVideoFiles.length} videos added. 
-            This warning will disappear once all videos are added in the correct order.
-          </small>
+          <div className="d-flex align-items-center gap-2">
+            <Button size="sm" variant="primary" onClick={onRelinkVideos} disabled={videos.length === 0}>
+              🔗 Relink videos
+            </Button>
+            <small className="text-muted">
+              {expectedVideoFiles.length} session video(s) not linked yet. Annotations move to the added files once they are linked.
+            </small>
+          </div>
         </Alert>
       )}
 
@@ -345,33 +496,23 @@ const VideoUpload: React.FC<VideoUploadProps> = ({ videos, onVideosChange, onVid
         </Alert>
       )}
 
-      {/* Start time field */}
+      {/* Start time hint */}
       {videos.length > 0 && (
-        <Row className="align-items-center mb-3 p-3 bg-light rounded">
-          <Col xs="auto">
-            <Form.Label className="mb-1 fw-bold">Start Time:</Form.Label>
-          </Col>
-          <Col xs="auto">
-            <Form.Control
-              type="text"
-              size="sm"
-              value={videos[0].startTime}
-              onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleStartTimeChange(videos[0].id, e.target.value)}
-              placeholder="HH:MM:SS"
-              pattern="[0-9]{2}:[0-9]{2}:[0-9]{2}"
-              style={{ width: '120px' }}
-              title="Start time in HH:MM:SS format"
-            />
-          </Col>
-          <Col>
-            <small className="text-muted">
-              Set the real-world start time for the first video. Subsequent videos will automatically continue from where the previous one ends.
-            </small>
-          </Col>
-        </Row>
+        <div className="mb-3 p-3 bg-light rounded">
+          <small className="text-muted">
+            Every video has its own real-world start date, time (HH:MM:SS) and UTC offset, taken from the filename or file date when possible.
+            The timeline follows the wall clock: gaps between videos are shown in the seek bar and skipped during playback,
+            overlapping videos of one camera are played in order of their start time.
+          </small>
+        </div>
       )}
 
-      {/* Video list */}
+      {/* Video list; dragging only changes the list order, the timeline follows the start times */}
+      {videos.length > 1 && (
+        <small className="text-muted d-block mb-1">
+          Drag ⋮⋮ to reorder the list. The order is for display only: playback and the timeline follow each video's start time.
+        </small>
+      )}
       {videos.map((video, index) => (
         <Row 
           key={video.id} 
@@ -393,7 +534,7 @@ const VideoUpload: React.FC<VideoUploadProps> = ({ videos, onVideosChange, onVid
             <div 
               className="text-muted"
               style={{ fontSize: '1.2em', cursor: 'grab' }}
-              title="Drag to reorder"
+              title="Drag to reorder the list (display only; playback follows the start times)"
             >
               ⋮⋮
             </div>
@@ -403,10 +544,102 @@ const VideoUpload: React.FC<VideoUploadProps> = ({ videos, onVideosChange, onVid
               {video.name}
             </div>
             <small className="text-muted">
-              Duration: {formatTime(video.duration)} | Time range: {getVideoTimeRange(video)}
+              Duration: {formatTime(video.duration)} | Time range: {getVideoTimeRange(video)} | Start from:{' '}
+              {video.startTimeSource === 'file-date' ? (
+                <span className="text-warning" title="The file date is usually when the file was copied, not when it was recorded. Please check the start time.">
+                  ⚠️ {START_TIME_SOURCE_LABELS[video.startTimeSource]}
+                </span>
+              ) : (
+                START_TIME_SOURCE_LABELS[video.startTimeSource || 'session']
+              )}
             </small>
+            {(() => {
+              const gap = getPrecedingGap(index);
+              if (gap === null || Math.abs(gap) < 1) return null;
+              return (
+                <small className={`d-block ${gap > 0 ? 'text-muted' : 'text-warning'}`}>
+                  {gap > 0 ? `⏭️ Gap of ${formatTime(gap)} before this video` : `⚠️ Overlaps the previous video of this camera by ${formatTime(-gap)}`}
+                </small>
+              );
+            })()}
+          </Col>
+          <Col xs="auto" className="d-flex gap-1">
+            {cameras.length > 1 && (
+              <Form.Select
+                size="sm"
+                value={video.cameraId}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => handleCameraChange(video.id, e.target.value)}
+                draggable={false}
+                style={{ width: '130px' }}
+                title="Camera that recorded this video"
+              >
+                {cameras.map(camera => (
+                  <option key={camera.id} value={camera.id}>{camera.name}</option>
+                ))}
+              </Form.Select>
+            )}
+            <Form.Control
+              type="date"
+              size="sm"
+              value={video.startDate}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => e.target.value && handleStartChange(video.id, { startDate: e.target.value })}
+              draggable={false}
+              style={{ width: '140px' }}
+              title="Recording date of this video"
+            />
+            <Form.Control
+              key={video.startTime}
+              type="text"
+              size="sm"
+              defaultValue={video.startTime}
+              onBlur={(e: React.FocusEvent<HTMLInputElement>) => handleStartChange(video.id, { startTime: e.target.value })}
+              onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+                if (e.key === 'Enter') e.currentTarget.blur();
+              }}
+              draggable={false}
+              placeholder="HH:MM:SS"
+              style={{ width: '100px' }}
+              title="Real-world start time of this video in HH:MM:SS format"
+            />
+            <Form.Control
+              key={video.utcOffset}
+              type="text"
+              size="sm"
+              defaultValue={video.utcOffset}
+              onBlur={(e: React.FocusEvent<HTMLInputElement>) => handleStartChange(video.id, { utcOffset: e.target.value })}
+              onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+                if (e.key === 'Enter') e.currentTarget.blur();
+              }}
+              draggable={false}
+              placeholder="+HH:MM"
+              style={{ width: '75px' }}
+              title="UTC offset (time zone) of the recording, e.g. +02:00"
+            />
+            <Form.Control
+              key={video.frameRate}
+              type="number"
+              size="sm"
+              step={0.01}
+              defaultValue={video.frameRate}
+              onBlur={(e: React.FocusEvent<HTMLInputElement>) => Number(e.target.value) !== video.frameRate && handleFrameRateChange(video.id, e.target.value)}
+              onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+                if (e.key === 'Enter') e.currentTarget.blur();
+              }}
+              draggable={false}
+              style={{ width: '80px' }}
+              title="Frame rate (frames per second), detected when the video was added"
+            />
           </Col>
           <Col xs="auto">
+            <Button
+              variant={expandedAnchorsVideoId === video.id ? 'secondary' : 'outline-secondary'}
+              size="sm"
+              className="me-2"
+              onClick={() => setExpandedAnchorsVideoId(expandedAnchorsVideoId === video.id ? null : video.id)}
+              title="Clock anchors for drift correction"
+            >
+              🕒{(video.clockAnchors || []).length > 0 && <small> {(video.clockAnchors || []).length}</small>}
+            </Button>
             <Button
               variant="outline-danger"
               size="sm"
@@ -415,11 +648,20 @@ const VideoUpload: React.FC<VideoUploadProps> = ({ videos, onVideosChange, onVid
               Remove
             </Button>
           </Col>
+          {expandedAnchorsVideoId === video.id && (
+            <Col xs={12}>
+              <ClockAnchorEditor
+                video={video}
+                onClockAnchorsChange={(clockAnchors) => onClockAnchorsChange(video.id, clockAnchors)}
+                onError={setError}
+              />
+            </Col>
+          )}
         </Row>
       ))}
 
       {/* Add video button */}
-      <div className="mt-3 mb-3 d-flex justify-content-start">
+      <div className="mt-3 mb-3 d-flex justify-content-start align-items-center gap-2">
         <Button 
           variant="primary" 
           onClick={handleAddVideo}
@@ -447,6 +689,19 @@ const VideoUpload: React.FC<VideoUploadProps> = ({ videos, onVideosChange, onVid
           style={{ display: 'none' }}
           onChange={handleFileSelect}
         />
+        {cameras.length > 1 && (
+          <Form.Select
+            size="sm"
+            value={uploadCamera.id}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setUploadCameraId(e.target.value)}
+            style={{ width: 'auto' }}
+            title="Camera the added videos belong to"
+          >
+            {cameras.map(camera => (
+              <option key={camera.id} value={camera.id}>Add to {camera.name}</option>
+            ))}
+          </Form.Select>
+        )}
       </div>
     </div>
   );
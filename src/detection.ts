@@ -0,0 +1,83 @@
+import { LineCrossing, NormalizedPoint, VideoFile } from './types';
+import type { DetectorReply, DetectorRequest } from './detection.worker';
+
+// Frames are scanned downscaled: large enough to separate vehicles, small enough to keep up
+const SCAN_WIDTH = 160;
+
+export interface ScanOptions {
+  samplesPerSecond: number;
+  minBlobShare: number; // smallest moving blob followed, as a share of the frame area
+}
+
+// Wait for a media event of the scanning player; a failing video rejects
+const waitForPlayer = (player: HTMLVideoElement, eventName: 'loadeddata' | 'seeked'): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      player.removeEventListener(eventName, onEvent);
+      player.removeEventListener('error', onError);
+    };
+    const onEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error(player.error?.message || 'The video could not be decoded'));
+    };
+    player.addEventListener(eventName, onEvent);
+    player.addEventListener('error', onError);
+  });
+};
+
+// Send one request to the detector and wait for its reply
+const askDetector = (worker: Worker, request: DetectorRequest, transfer: Transferable[]): Promise<DetectorReply> => {
+  return new Promise((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<DetectorReply>) => resolve(event.data);
+    worker.onerror = (event: ErrorEvent) => reject(new Error(event.message || 'The detector stopped'));
+    worker.postMessage(request, transfer);
+  });
+};
+
+// Pre-scan a video for moving blobs crossing a count line. A hidden player seeks through the video at the
+// sampling rate and hands each frame to the detector worker; nothing leaves the browser. Aborting resolves
+// with the crossings found so far.
+export const scanLineCrossings = async (
+  video: VideoFile,
+  line: NormalizedPoint[],
+  options: ScanOptions,
+  onProgress: (share: number) => void,
+  signal: AbortSignal
+): Promise<LineCrossing[]> => {
+  const worker = new Worker(new URL('./detection.worker.ts', import.meta.url));
+  const player = document.createElement('video');
+  player.muted = true;
+  player.preload = 'auto';
+  const crossings: LineCrossing[] = [];
+
+  try {
+    player.src = video.url;
+    await waitForPlayer(player, 'loadeddata');
+
+    const height = Math.max(1, Math.round((SCAN_WIDTH * player.videoHeight) / player.videoWidth));
+    const duration = Number.isFinite(player.duration) ? player.duration : video.duration;
+    const start: DetectorRequest = { type: 'start', line, minBlobShare: options.minBlobShare };
+    worker.postMessage(start);
+
+    const step = 1 / options.samplesPerSecond;
+    for (let sample = 0; sample * step < duration && !signal.aborted; sample++) {
+      const time = sample * step;
+      player.currentTime = time;
+      await waitForPlayer(player, 'seeked');
+      const bitmap = await createImageBitmap(player, { resizeWidth: SCAN_WIDTH, resizeHeight: height, resizeQuality: 'low' });
+      const reply = await askDetector(worker, { type: 'frame', time, bitmap }, [bitmap]);
+      crossings.push(...reply.crossings);
+      onProgress(Math.min(1, time / duration));
+    }
+  } finally {
+    worker.terminate();
+    player.removeAttribute('src');
+    player.load();
+  }
+
+  return crossings;
+};
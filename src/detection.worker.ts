@@ -0,0 +1,212 @@
+import { LineCrossing, NormalizedPoint } from './types';
+
+// Line-crossing detection, run in a Web Worker on downscaled frames of a video. Moving blobs are found by
+// background subtraction, followed from frame to frame by their centroid and reported when they cross the line.
+
+export interface DetectorStart {
+  type: 'start';
+  line: NormalizedPoint[]; // the count line's two points
+  minBlobShare: number; // smallest blob, as a share of the frame area, that is followed
+}
+
+export interface DetectorFrame {
+  type: 'frame';
+  time: number; // seconds from the start of the video
+  bitmap: ImageBitmap; // transferred; closed once read
+}
+
+export type DetectorRequest = DetectorStart | DetectorFrame;
+
+// Sent for every frame, so the sender can wait before decoding the next one
+export interface DetectorReply {
+  time: number;
+  crossings: LineCrossing[];
+}
+
+// Luminance difference from the background that counts as foreground
+const DIFF_THRESHOLD = 30;
+// How fast the background follows the frames; slower where something moves, so vehicles do not fade into it
+const BACKGROUND_RATE = 0.05;
+const FOREGROUND_RATE = 0.005;
+// Largest centroid move between two frames, in frame widths/heights, that is still the same blob
+const MAX_MATCH_DISTANCE = 0.15;
+// A track not matched for this long (in video seconds) has left the frame
+const MAX_TRACK_AGE = 1;
+
+interface Track {
+  x: number;
+  y: number;
+  time: number;
+  counted: boolean; // each track is counted at its first crossing only
+}
+
+interface Blob {
+  x: number;
+  y: number;
+  area: number;
+}
+
+// The worker's global scope, typed through the DOM library this project compiles against
+const scope = globalThis as unknown as Worker;
+
+let line: NormalizedPoint[] = [];
+let minBlobShare = 0;
+let canvas: OffscreenCanvas | null = null;
+let background: Float32Array | null = null;
+let tracks: Track[] = [];
+let lastTime = -1;
+
+const cross = (ax: number, ay: number, bx: number, by: number): number => ax * by - ay * bx;
+
+// Where the move from one centroid to the next crosses the line: share of the move and the crossing point
+const intersectLine = (from: Track, to: Blob): { share: number; point: NormalizedPoint } | null => {
+  const [a, b] = line;
+  const moveX = to.x - from.x;
+  const moveY = to.y - from.y;
+  const lineX = b.x - a.x;
+  const lineY = b.y - a.y;
+  const denominator = cross(moveX, moveY, lineX, lineY);
+  if (denominator === 0) return null;
+
+  const share = cross(a.x - from.x, a.y - from.y, lineX, lineY) / denominator;
+  const along = cross(a.x - from.x, a.y - from.y, moveX, moveY) / denominator;
+  if (share < 0 || share > 1 || along < 0 || along > 1) return null;
+  return { share, point: { x: from.x + share * moveX, y: from.y + share * moveY } };
+};
+
+// Connected foreground regions (8-neighbourhood) of at least the minimum size
+const findBlobs = (foreground: Uint8Array, width: number, height: number): Blob[] => {
+  const minArea = Math.max(2, minBlobShare * width * height);
+  const visited = new Uint8Array(foreground.length);
+  const stack = new Int32Array(foreground.length);
+  const blobs: Blob[] = [];
+
+  for (let start = 0; start < foreground.length; start++) {
+    if (!foreground[start] || visited[start]) continue;
+
+    let size = 0;
+    let sumX = 0;
+    let sumY = 0;
+    let top = 0;
+    stack[top++] = start;
+    visited[start] = 1;
+    while (top > 0) {
+      const index = stack[--top];
+      const x = index % width;
+      const y = (index - x) / width;
+      size++;
+      sumX += x;
+      sumY += y;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const neighbour = ny * width + nx;
+          if (foreground[neighbour] && !visited[neighbour]) {
+            visited[neighbour] = 1;
+            stack[top++] = neighbour;
+          }
+        }
+      }
+    }
+
+    if (size >= minArea) {
+      blobs.push({ x: (sumX / size + 0.5) / width, y: (sumY / size + 0.5) / height, area: size });
+    }
+  }
+  return blobs;
+};
+
+// Compare a frame with the background, follow its blobs and return the line crossings since the previous frame
+const processFrame = (bitmap: ImageBitmap, time: number): LineCrossing[] => {
+  const { width, height } = bitmap;
+  if (!canvas || canvas.width !== width || canvas.height !== height) {
+    canvas = new OffscreenCanvas(width, height);
+    background = null;
+  }
+  const context = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D | null;
+  if (!context) return [];
+  context.drawImage(bitmap, 0, 0);
+  const pixels = context.getImageData(0, 0, width, height).data;
+
+  // Seeking back or skipping ahead breaks the tracks
+  if (time <= lastTime || time - lastTime > MAX_TRACK_AGE) tracks = [];
+  lastTime = time;
+
+  const luminance = new Float32Array(width * height);
+  for (let i = 0; i < luminance.length; i++) {
+    luminance[i] = (pixels[i * 4] * 299 + pixels[i * 4 + 1] * 587 + pixels[i * 4 + 2] * 114) / 1000;
+  }
+  if (!background) {
+    background = luminance;
+    return [];
+  }
+
+  const foreground = new Uint8Array(luminance.length);
+  for (let i = 0; i < luminance.length; i++) {
+    const difference = luminance[i] - background[i];
+    foreground[i] = Math.abs(difference) > DIFF_THRESHOLD ? 1 : 0;
+    background[i] += difference * (foreground[i] ? FOREGROUND_RATE : BACKGROUND_RATE);
+  }
+
+  const crossings: LineCrossing[] = [];
+  const matched = new Set<Track>();
+  const blobs = findBlobs(foreground, width, height).sort((a, b) => b.area - a.area);
+  const [a, b] = line;
+
+  blobs.forEach(blob => {
+    // Larger blobs pick their nearest unmatched track first
+    const track = tracks
+      .filter(t => !matched.has(t))
+      .map(t => ({ t, distance: Math.hypot(t.x - blob.x, t.y - blob.y) }))
+      .filter(({ distance }) => distance <= MAX_MATCH_DISTANCE)
+      .sort((first, second) => first.distance - second.distance)[0]?.t;
+
+    if (!track) {
+      const created = { x: blob.x, y: blob.y, time, counted: false };
+      tracks.push(created);
+      matched.add(created);
+      return;
+    }
+
+    const intersection = track.counted ? null : intersectLine(track, blob);
+    if (intersection) {
+      crossings.push({
+        time: track.time + intersection.share * (time - track.time),
+        point: intersection.point,
+        direction: cross(b.x - a.x, b.y - a.y, blob.x - a.x, blob.y - a.y) > 0 ? 1 : -1
+      });
+      track.counted = true;
+    }
+    track.x = blob.x;
+    track.y = blob.y;
+    track.time = time;
+    matched.add(track);
+  });
+
+  tracks = tracks.filter(t => time - t.time <= MAX_TRACK_AGE);
+  return crossings;
+};
+
+scope.onmessage = (event: MessageEvent<DetectorRequest>) => {
+  const request = event.data;
+  if (request.type === 'start') {
+    line = request.line;
+    minBlobShare = request.minBlobShare;
+    background = null;
+    tracks = [];
+    lastTime = -1;
+    return;
+  }
+
+  let crossings: LineCrossing[] = [];
+  try {
+    crossings = line.length === 2 ? processFrame(request.bitmap, request.time) : [];
+  } catch (error) {
+    console.error('Failed to process frame:', error);
+  }
+  request.bitmap.close();
+  const reply: DetectorReply = { time: request.time, crossings };
+  scope.postMessage(reply);
+};
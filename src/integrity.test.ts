@@ -0,0 +1,147 @@
+import { CandidateEvent, EventType, Movement, Timestamp, Trajectory, TrajectoryPoint, VideoFile } from './types';
+import { checkSessionIntegrity, repairSessionIntegrity } from './integrity';
+
+const CAR = { id: 1, name: 'Car', color: '#ff0000', count: 2, hotkey: '1', kind: 'point', attributes: [] } as EventType;
+const NORTH_LEFT = { id: 1, name: 'N-left', color: '#00ff00', hotkey: 'q' } as Movement;
+const NO_TRACKING = { trajectories: [], activitySegments: [], candidates: [] };
+
+const CAR_AT_10 = {
+  id: 'a',
+  eventId: 1,
+  eventName: 'Car',
+  atSecondFirst: 10,
+  atSecondCurrent: 10,
+  timeHHMMSS: '07:00:10',
+  videoId: 'v1',
+  videoName: 'north.mp4',
+  note: '',
+  movementId: 1,
+  movementName: 'N-left'
+} as Timestamp;
+
+const CAR_AT_20 = { ...CAR_AT_10, id: 'b', atSecondFirst: 20, atSecondCurrent: 20, timeHHMMSS: '07:00:20' } as Timestamp;
+
+describe('checkSessionIntegrity', () => {
+  it('finds nothing in a consistent session', () => {
+    expect(checkSessionIntegrity({ ...NO_TRACKING, eventTypes: [CAR], movements: [NORTH_LEFT], timestamps: [CAR_AT_10, CAR_AT_20] }, [])).toEqual([]);
+  });
+
+  it('reports duplicate ids, unknown references, stale names and wrong counts', () => {
+    const issues = checkSessionIntegrity({
+      ...NO_TRACKING,
+      eventTypes: [{ ...CAR, name: 'Passenger car', count: 3 }],
+      movements: [],
+      timestamps: [CAR_AT_10, { ...CAR_AT_20, id: 'a' }, { ...CAR_AT_20, id: 'c', eventId: 7, eventName: 'Bus', movementId: undefined }]
+    }, []);
+
+    expect(issues.map(issue => issue.type).sort()).toEqual([
+      'count-mismatch',
+      'duplicate-id',
+      'stale-name',
+      'stale-name',
+      'unknown-reference',
+      'unknown-reference',
+      'unknown-reference'
+    ]);
+  });
+
+  it('skips the video checks while no videos are loaded', () => {
+    const issues = checkSessionIntegrity({ ...NO_TRACKING, eventTypes: [CAR], movements: [NORTH_LEFT], timestamps: [{ ...CAR_AT_10, timeHHMMSS: '12:34:56' }, CAR_AT_20] }, []);
+
+    expect(issues).toEqual([]);
+  });
+});
+
+describe('repairSessionIntegrity', () => {
+  it('gives later duplicates a fresh id', () => {
+    const { timestamps } = repairSessionIntegrity({ ...NO_TRACKING, eventTypes: [CAR], movements: [NORTH_LEFT], timestamps: [CAR_AT_10, { ...CAR_AT_20, id: 'a' }] }, []);
+
+    expect(timestamps).toHaveLength(2);
+    expect(timestamps[0].id).toBe('a');
+    expect(timestamps[1].id).not.toBe('a');
+  });
+
+  it('recreates missing event types and movements under their recorded names', () => {
+    const open = { ...CAR_AT_20, eventId: 4, eventName: 'Queue', movementId: 3, movementName: 'S-through', endSecondFirst: null } as Timestamp;
+    const repaired = repairSessionIntegrity({ ...NO_TRACKING, eventTypes: [CAR], movements: [NORTH_LEFT], timestamps: [CAR_AT_10, open] }, []);
+
+    expect(repaired.eventTypes.find(e => e.id === 4)).toMatchObject({ name: 'Queue', kind: 'interval', count: 1 });
+    expect(repaired.movements.find(m => m.id === 3)).toMatchObject({ name: 'S-through' });
+    expect(checkSessionIntegrity(repaired, [])).toEqual([]);
+  });
+
+  it('refreshes stale names and counts without dropping annotations', () => {
+    const repaired = repairSessionIntegrity({
+      ...NO_TRACKING,
+      eventTypes: [{ ...CAR, name: 'Passenger car', count: 5 }],
+      movements: [{ ...NORTH_LEFT, name: 'North left' }],
+      timestamps: [CAR_AT_10, CAR_AT_20]
+    }, []);
+
+    expect(repaired.timestamps.map(t => [t.eventName, t.movementName])).toEqual([['Passenger car', 'North left'], ['Passenger car', 'North left']]);
+    expect(repaired.eventTypes[0].count).toBe(2);
+  });
+});
+
+describe('repairSessionIntegrity with loaded videos', () => {
+  const RENAMED_NORTH = {
+    id: 'v9',
+    file: {} as File,
+    name: 'north.mp4',
+    duration: 600,
+    startTime: '07:00:00',
+    startDate: '2024-05-01',
+    utcOffset: '+02:00',
+    frameRate: 25,
+    color: '#000000',
+    url: 'blob:v9'
+  } as VideoFile;
+  const SOUTH = { ...RENAMED_NORTH, id: 'v8', name: 'south.mp4', startTime: '06:59:00', url: 'blob:v8' } as VideoFile;
+
+  const TRACK = {
+    id: 'tr1',
+    number: 1,
+    eventId: 1,
+    eventName: 'Car',
+    cameraId: 'camera-1',
+    cameraName: 'North',
+    note: '',
+    points: [{ atSecondFirst: 12, atSecondCurrent: 12, frameIndex: 300, dateTime: '', videoId: 'v1', x: 0.5, y: 0.5 } as TrajectoryPoint]
+  } as Trajectory;
+  const CANDIDATE = { id: 'c1', videoId: 'v1', videoName: 'north.mp4', lineName: 'Stop line', time: 14, status: 'pending' } as CandidateEvent;
+
+  it('moves everything that referred to a missing video to the loaded video of the same name', () => {
+    const repaired = repairSessionIntegrity({
+      ...NO_TRACKING,
+      eventTypes: [CAR],
+      movements: [NORTH_LEFT],
+      timestamps: [CAR_AT_10, CAR_AT_20],
+      trajectories: [TRACK],
+      candidates: [CANDIDATE]
+    }, [SOUTH, RENAMED_NORTH]);
+
+    expect(repaired.timestamps.map(t => [t.videoId, t.atSecondCurrent, t.atSecondFirst, t.timeHHMMSS])).toEqual([
+      ['v9', 10, 70, '07:00:10'],
+      ['v9', 20, 80, '07:00:20']
+    ]);
+    expect(repaired.trajectories[0].points[0]).toMatchObject({ videoId: 'v9', atSecondFirst: 72 });
+    expect(repaired.candidates[0].videoId).toBe('v9');
+    expect(checkSessionIntegrity(repaired, [SOUTH, RENAMED_NORTH]).filter(issue => issue.type === 'orphan-video')).toEqual([]);
+  });
+
+  it('leaves references without a video of the same name as they are', () => {
+    const content = { ...NO_TRACKING, eventTypes: [CAR], movements: [NORTH_LEFT], timestamps: [CAR_AT_10, CAR_AT_20], trajectories: [TRACK] };
+    const repaired = repairSessionIntegrity(content, [SOUTH]);
+
+    expect(repaired.timestamps.map(t => [t.videoId, t.atSecondCurrent])).toEqual([['v1', 10], ['v1', 20]]);
+    expect(repaired.trajectories[0].points[0].videoId).toBe('v1');
+    expect(checkSessionIntegrity(repaired, [SOUTH]).filter(issue => issue.type === 'orphan-video')).toHaveLength(3);
+  });
+
+  it('does not guess between videos of the same name', () => {
+    const otherCamera = { ...CAR_AT_20, videoId: 'v2' } as Timestamp;
+    const repaired = repairSessionIntegrity({ ...NO_TRACKING, eventTypes: [CAR], movements: [NORTH_LEFT], timestamps: [CAR_AT_10, otherCamera] }, [RENAMED_NORTH]);
+
+    expect(repaired.timestamps.map(t => t.videoId)).toEqual(['v1', 'v2']);
+  });
+});
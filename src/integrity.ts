@@ -0,0 +1,190 @@
+import { ActivitySegment, CandidateEvent, EventType, Movement, Timestamp, Trajectory, VideoFile, IntegrityIssue, IntegrityIssueType } from './types';
+import { generateId, createEventType, createMovement, recalculateEventCounts, recalculateTimestampTimes, recalculateTrajectoryTimes } from './utils';
+
+interface SessionContent {
+  eventTypes: EventType[];
+  movements: Movement[];
+  timestamps: Timestamp[];
+  trajectories: Trajectory[];
+  activitySegments: ActivitySegment[];
+  candidates: CandidateEvent[];
+}
+
+export const INTEGRITY_ISSUE_LABELS: Record<IntegrityIssueType, string> = {
+  'duplicate-id': 'Duplicate ids',
+  'unknown-reference': 'Unknown event types / movements',
+  'orphan-video': 'Annotations of missing videos',
+  'stale-name': 'Stale names',
+  'time-out-of-sync': 'Real-world times out of sync',
+  'count-mismatch': 'Count mismatches'
+};
+
+// Check the session for inconsistencies; video checks are skipped while no videos are loaded
+export const checkSessionIntegrity = (
+  { eventTypes, movements, timestamps, trajectories, activitySegments, candidates }: SessionContent,
+  videos: VideoFile[]
+): IntegrityIssue[] => {
+  const issues: IntegrityIssue[] = [];
+  const label = (t: Timestamp) => `"${t.eventName}" at ${t.timeHHMMSS}`;
+
+  const seenIds = new Set<string>();
+  timestamps.forEach(t => {
+    if (seenIds.has(t.id)) {
+      issues.push({ type: 'duplicate-id', message: `${label(t)} shares its id ${t.id} with another annotation` });
+    }
+    seenIds.add(t.id);
+  });
+
+  timestamps.forEach(t => {
+    const eventType = eventTypes.find(e => e.id === t.eventId);
+    if (!eventType) {
+      issues.push({ type: 'unknown-reference', message: `${label(t)} refers to a missing event type (id ${t.eventId})` });
+    } else if (eventType.name !== t.eventName) {
+      issues.push({ type: 'stale-name', message: `${label(t)} should be named "${eventType.name}"` });
+    }
+
+    if (t.movementId !== undefined) {
+      const movement = movements.find(m => m.id === t.movementId);
+      if (!movement) {
+        issues.push({ type: 'unknown-reference', message: `${label(t)} refers to a missing movement (id ${t.movementId})` });
+      } else if (movement.name !== t.movementName) {
+        issues.push({ type: 'stale-name', message: `${label(t)} has movement "${t.movementName}" instead of "${movement.name}"` });
+      }
+    }
+  });
+
+  if (videos.length > 0) {
+    const isLoaded = (videoId: string) => videos.some(v => v.id === videoId);
+    timestamps.forEach(t => {
+      const isOrphan = !isLoaded(t.videoId) || (t.endVideoId !== undefined && !isLoaded(t.endVideoId));
+      if (isOrphan) {
+        issues.push({ type: 'orphan-video', message: `${label(t)} refers to a video that is not loaded (${t.videoName})` });
+      }
+
+      // Positions and wall times follow from the timestamp's own video and its start time
+      const [expected] = recalculateTimestampTimes(videos, [t]);
+      const isOutOfSync = expected.timeHHMMSS !== t.timeHHMMSS || expected.endTimeHHMMSS !== t.endTimeHHMMSS ||
+        expected.dateTime !== t.dateTime || expected.endDateTime !== t.endDateTime ||
+        Math.abs(expected.atSecondFirst - t.atSecondFirst) > 0.01 ||
+        (typeof t.endSecondFirst === 'number' && Math.abs((expected.endSecondFirst as number) - t.endSecondFirst) > 0.01);
+      if (!isOrphan && isOutOfSync) {
+        issues.push({ type: 'time-out-of-sync', message: `${label(t)} should be at ${expected.timeHHMMSS} according to the start time of ${t.videoName}` });
+      }
+    });
+
+    trajectories.forEach(t => {
+      if (t.points.some(p => !isLoaded(p.videoId))) {
+        issues.push({ type: 'orphan-video', message: `Trajectory #${t.number} has points in a video that is not loaded` });
+      }
+    });
+    activitySegments.forEach(s => {
+      if (!isLoaded(s.videoId)) {
+        issues.push({ type: 'orphan-video', message: `A reviewed stretch refers to a video that is not loaded (${s.videoName})` });
+      }
+    });
+    candidates.forEach(c => {
+      if (!isLoaded(c.videoId)) {
+        issues.push({ type: 'orphan-video', message: `A detector candidate on "${c.lineName}" refers to a video that is not loaded (${c.videoName})` });
+      }
+    });
+  }
+
+  eventTypes.forEach(e => {
+    const actualCount = timestamps.filter(t => t.eventId === e.id).length;
+    if (e.count !== actualCount) {
+      issues.push({ type: 'count-mismatch', message: `"${e.name}" has a count of ${e.count} but ${actualCount} annotation(s)` });
+    }
+  });
+
+  return issues;
+};
+
+// Loaded videos taking over the references to missing ones. Only a name match counts, and only when it is unambiguous:
+// one missing video with that name and one loaded video with it that nothing refers to yet. Other references stay reported.
+const findRenamedVideos = (references: { videoId: string; videoName: string }[], videos: VideoFile[]): Map<string, VideoFile> => {
+  const isReferenced = (video: VideoFile) => references.some(r => r.videoId === video.id);
+  const missingIds = new Map<string, string[]>();
+  references.forEach(({ videoId, videoName }) => {
+    const ids = missingIds.get(videoName) || [];
+    if (!videos.some(v => v.id === videoId) && !ids.includes(videoId)) {
+      missingIds.set(videoName, [...ids, videoId]);
+    }
+  });
+
+  const relinked = new Map<string, VideoFile>();
+  missingIds.forEach((ids, videoName) => {
+    const namesakes = videos.filter(v => v.name === videoName && !isReferenced(v));
+    if (ids.length === 1 && namesakes.length === 1) {
+      relinked.set(ids[0], namesakes[0]);
+    }
+  });
+  return relinked;
+};
+
+// Repair all detected inconsistencies without dropping any annotation
+export const repairSessionIntegrity = (
+  { eventTypes, movements, timestamps, trajectories, activitySegments, candidates }: SessionContent,
+  videos: VideoFile[]
+): SessionContent => {
+  let repairedEventTypes = [...eventTypes];
+  let repairedMovements = [...movements];
+
+  // Give later duplicates a fresh id
+  const seenIds = new Set<string>();
+  let repairedTimestamps = timestamps.map(t => {
+    const id = seenIds.has(t.id) ? generateId() : t.id;
+    seenIds.add(id);
+    return id === t.id ? t : { ...t, id };
+  });
+
+  // Recreate missing event types and movements under their recorded names
+  repairedTimestamps.forEach(t => {
+    if (!repairedEventTypes.some(e => e.id === t.eventId)) {
+      repairedEventTypes = [...repairedEventTypes, {
+        ...createEventType(repairedEventTypes),
+        id: t.eventId,
+        name: t.eventName || `Unnamed ${t.eventId}`,
+        kind: t.endSecondFirst !== undefined ? 'interval' : 'point'
+      }];
+    }
+    if (t.movementId !== undefined && !repairedMovements.some(m => m.id === t.movementId)) {
+      repairedMovements = [...repairedMovements, {
+        ...createMovement(repairedMovements),
+        id: t.movementId,
+        name: t.movementName || `Movement ${t.movementId}`
+      }];
+    }
+  });
+
+  // Trajectory points and interval ends record no video name and follow the other references to the same video
+  const relinked = findRenamedVideos([...repairedTimestamps, ...activitySegments, ...candidates], videos);
+  const relink = <T extends { videoId: string }>(item: T): T => {
+    const video = relinked.get(item.videoId);
+    return video ? { ...item, videoId: video.id } : item;
+  };
+  const relinkNamed = <T extends { videoId: string; videoName: string }>(item: T): T => {
+    const video = relinked.get(item.videoId);
+    return video ? { ...item, videoId: video.id, videoName: video.name } : item;
+  };
+
+  repairedTimestamps = repairedTimestamps.map(t => {
+    const eventType = repairedEventTypes.find(e => e.id === t.eventId)!;
+    const movement = repairedMovements.find(m => m.id === t.movementId);
+    const endVideo = t.endVideoId !== undefined ? relinked.get(t.endVideoId) : undefined;
+    return {
+      ...relinkNamed(t),
+      eventName: eventType.name,
+      ...(movement ? { movementName: movement.name } : {}),
+      ...(endVideo ? { endVideoId: endVideo.id } : {})
+    };
+  });
+
+  return {
+    eventTypes: recalculateEventCounts(repairedEventTypes, repairedTimestamps),
+    movements: repairedMovements,
+    timestamps: recalculateTimestampTimes(videos, repairedTimestamps),
+    trajectories: recalculateTrajectoryTimes(videos, trajectories.map(t => ({ ...t, points: t.points.map(relink) }))),
+    activitySegments: activitySegments.map(relinkNamed),
+    candidates: candidates.map(relinkNamed)
+  };
+};
@@ -0,0 +1,76 @@
+import { NormalizedPoint } from './types';
+import { isPointInPolygon } from './utils';
+
+// Frames are compared downscaled; small enough to sample several times a second
+const SAMPLE_WIDTH = 96;
+
+// Luminance change of a pixel that counts as motion rather than noise or compression artefacts
+const PIXEL_THRESHOLD = 25;
+
+export interface MotionDetector {
+  // Share (0-1) of the region's pixels that changed since the previous sample, or null without a previous sample
+  measure: (video: HTMLVideoElement, region?: NormalizedPoint[]) => number | null;
+  reset: () => void;
+}
+
+// Frame differencing on a small canvas, restricted to a region of the frame
+export const createMotionDetector = (): MotionDetector => {
+  const canvas = document.createElement('canvas');
+  let previous: Uint8ClampedArray | null = null;
+  let mask: boolean[] | null = null;
+  let maskKey = '';
+
+  const getMask = (width: number, height: number, region?: NormalizedPoint[]): boolean[] => {
+    const key = `${width}x${height}:${region ? region.map(p => `${p.x},${p.y}`).join(';') : 'all'}`;
+    if (!mask || key !== maskKey) {
+      mask = Array.from({ length: width * height }, (_, index) => !region || isPointInPolygon(
+        { x: ((index % width) + 0.5) / width, y: (Math.floor(index / width) + 0.5) / height },
+        region
+      ));
+      maskKey = key;
+    }
+    return mask;
+  };
+
+  const measure = (video: HTMLVideoElement, region?: NormalizedPoint[]): number | null => {
+    if (!video.videoWidth || !video.videoHeight || video.readyState < 2) return null;
+
+    const width = SAMPLE_WIDTH;
+    const height = Math.max(1, Math.round((SAMPLE_WIDTH * video.videoHeight) / video.videoWidth));
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+      previous = null;
+    }
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+
+    context.drawImage(video, 0, 0, width, height);
+    const pixels = context.getImageData(0, 0, width, height).data;
+    const luminance = new Uint8ClampedArray(width * height);
+    for (let i = 0; i < luminance.length; i++) {
+      luminance[i] = (pixels[i * 4] * 299 + pixels[i * 4 + 1] * 587 + pixels[i * 4 + 2] * 114) / 1000;
+    }
+
+    const last = previous;
+    previous = luminance;
+    if (!last) return null;
+
+    const regionMask = getMask(width, height, region);
+    let regionPixels = 0;
+    let changedPixels = 0;
+    for (let i = 0; i < luminance.length; i++) {
+      if (!regionMask[i]) continue;
+      regionPixels++;
+      if (Math.abs(luminance[i] - last[i]) > PIXEL_THRESHOLD) changedPixels++;
+    }
+    return regionPixels > 0 ? changedPixels / regionPixels : 0;
+  };
+
+  return {
+    measure,
+    reset: () => {
+      previous = null;
+    }
+  };
+};
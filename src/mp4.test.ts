@@ -0,0 +1,203 @@
+/**
+ * @jest-environment node
+ */
+import { readContainerMetadata } from './mp4';
+
+// MP4 and QuickTime times count seconds since 1904-01-01 UTC
+const MP4_EPOCH_OFFSET = 2082844800;
+const RECORDING_START = Date.UTC(2024, 4, 1, 7, 30, 0);
+
+const concat = (...parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+  parts.reduce((offset, part) => {
+    result.set(part, offset);
+    return offset + part.length;
+  }, 0);
+  return result;
+};
+
+const uint8 = (value: number): Uint8Array => new Uint8Array([value]);
+
+const uint16 = (value: number): Uint8Array => new Uint8Array([value >> 8, value & 0xff]);
+
+const uint32 = (value: number): Uint8Array => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return bytes;
+};
+
+const uint64 = (value: number): Uint8Array => concat(uint32(Math.floor(value / 0x100000000)), uint32(value % 0x100000000));
+
+const text = (value: string): Uint8Array => new Uint8Array(value.split('').map(c => c.charCodeAt(0)));
+
+const zeros = (length: number): Uint8Array => new Uint8Array(length);
+
+const box = (type: string, ...content: Uint8Array[]): Uint8Array => {
+  const payload = concat(...content);
+  return concat(uint32(payload.length + 8), text(type), payload);
+};
+
+// Box with version and flags before its content
+const fullBox = (type: string, version: number, ...content: Uint8Array[]): Uint8Array => box(type, uint8(version), zeros(3), ...content);
+
+const toMp4Time = (milliseconds: number): number => milliseconds / 1000 + MP4_EPOCH_OFFSET;
+
+// Movie header: version 0 with 32-bit times, version 1 with 64-bit times
+const mvhd = (creationTime: number, timescale: number, duration: number, version: 0 | 1 = 0): Uint8Array => version === 1
+  ? fullBox('mvhd', 1, uint64(creationTime), uint64(creationTime), uint32(timescale), uint64(duration), zeros(80))
+  : fullBox('mvhd', 0, uint32(creationTime), uint32(creationTime), uint32(timescale), uint32(duration), zeros(80));
+
+interface TrackOptions {
+  handlerType: string;
+  format: string;
+  creationTime?: number;
+  timescale: number;
+  sampleDeltas: [number, number][]; // stts entries: sample count and duration
+  sampleSize?: number;
+  chunkOffset?: number;
+}
+
+const trak = ({ handlerType, format, creationTime = 0, timescale, sampleDeltas, sampleSize, chunkOffset }: TrackOptions): Uint8Array => {
+  const totalDuration = sampleDeltas.reduce((sum, [count, delta]) => sum + count * delta, 0);
+  const sampleCount = sampleDeltas.reduce((sum, [count]) => sum + count, 0);
+  const stbl = box('stbl',
+    fullBox('stsd', 0, uint32(1), box(format, zeros(8))),
+    fullBox('stts', 0, uint32(sampleDeltas.length), ...sampleDeltas.map(([count, delta]) => concat(uint32(count), uint32(delta)))),
+    ...(sampleSize !== undefined ? [fullBox('stsz', 0, uint32(0), uint32(sampleCount), ...Array.from({ length: sampleCount }, () => uint32(sampleSize)))] : []),
+    ...(chunkOffset !== undefined ? [fullBox('stco', 0, uint32(1), uint32(chunkOffset))] : [])
+  );
+  return box('trak',
+    fullBox('tkhd', 0, uint32(creationTime), uint32(creationTime), uint32(1), zeros(72)),
+    box('mdia',
+      fullBox('mdhd', 0, uint32(0), uint32(0), uint32(timescale), uint32(totalDuration), zeros(4)),
+      fullBox('hdlr', 0, uint32(0), text(handlerType), zeros(12), text('Handler\0')),
+      box('minf', stbl)
+    )
+  );
+};
+
+// GPMF key-length-value item: key, type, struct size, repeat count, data padded to 4 bytes
+const gpmf = (key: string, type: string, data: Uint8Array): Uint8Array => {
+  const padding = (4 - (data.length % 4)) % 4;
+  return concat(text(key), type ? text(type) : uint8(0), uint8(1), uint16(data.length), data, zeros(padding));
+};
+
+// A file-like object that serves slices of the given bytes
+const createFile = (bytes: Uint8Array, name: string = 'test.mp4'): File => ({
+  name,
+  size: bytes.length,
+  slice: (start: number, end: number) => ({
+    arrayBuffer: async () => bytes.slice(start, end).buffer
+  })
+}) as unknown as File;
+
+const ftyp = box('ftyp', text('isom'), uint32(512), text('isomavc1'));
+
+describe('readContainerMetadata', () => {
+  it('reads the creation time and duration of the movie header', async () => {
+    const file = createFile(concat(ftyp, box('moov', mvhd(toMp4Time(RECORDING_START), 1000, 120500))));
+    const metadata = await readContainerMetadata(file);
+
+    expect(metadata.creationTime?.toISOString()).toBe('2024-05-01T07:30:00.000Z');
+    expect(metadata.duration).toBeCloseTo(120.5);
+  });
+
+  it('reads 64-bit times of version 1 movie headers', async () => {
+    const file = createFile(concat(ftyp, box('moov', mvhd(toMp4Time(RECORDING_START), 90000, 90000 * 60, 1))));
+    const metadata = await readContainerMetadata(file);
+
+    expect(metadata.creationTime?.toISOString()).toBe('2024-05-01T07:30:00.000Z');
+    expect(metadata.duration).toBeCloseTo(60);
+  });
+
+  it('falls back to the video track header when the movie header has no creation time', async () => {
+    const file = createFile(concat(ftyp, box('moov',
+      mvhd(0, 1000, 10000),
+      trak({ handlerType: 'vide', format: 'avc1', creationTime: toMp4Time(RECORDING_START), timescale: 30000, sampleDeltas: [[300, 1001]] })
+    )));
+    const metadata = await readContainerMetadata(file);
+
+    expect(metadata.creationTime?.toISOString()).toBe('2024-05-01T07:30:00.000Z');
+  });
+
+  it('derives the frame rate from the sample durations of the video track', async () => {
+    const file = createFile(concat(ftyp, box('moov',
+      mvhd(toMp4Time(RECORDING_START), 1000, 10000),
+      trak({ handlerType: 'soun', format: 'mp4a', timescale: 48000, sampleDeltas: [[470, 1024]] }),
+      trak({ handlerType: 'vide', format: 'avc1', timescale: 30000, sampleDeltas: [[299, 1001], [1, 2002]] })
+    )));
+    const metadata = await readContainerMetadata(file);
+
+    expect(metadata.frameRate).toBeCloseTo((300 * 30000) / (299 * 1001 + 2002), 6);
+  });
+
+  it('reads the GPS time of the first GoPro telemetry payload', async () => {
+    const payload = gpmf('DEVC', '', gpmf('STRM', '', concat(
+      gpmf('STNM', 'c', text('GPS (Lat., Long., Alt., 2D, 3D speed)')),
+      gpmf('GPSU', 'U', text('240501072959.750'))
+    )));
+    const mdat = box('mdat', payload);
+    const payloadOffset = ftyp.length + 8;
+    const file = createFile(concat(ftyp, mdat, box('moov',
+      mvhd(toMp4Time(RECORDING_START), 1000, 10000),
+      trak({ handlerType: 'meta', format: 'gpmd', timescale: 1000, sampleDeltas: [[1, 1001]], sampleSize: payload.length, chunkOffset: payloadOffset })
+    )));
+    const metadata = await readContainerMetadata(file);
+
+    expect(metadata.gpsTime?.toISOString()).toBe('2024-05-01T07:29:59.750Z');
+  });
+
+  it('reads the camera time of the first DJI caption as local time', async () => {
+    const caption = 'FrameCnt: 1, DiffTime: 33ms\n2024-05-01 09:29:58.123\n[iso: 100] [shutter: 1/500.0]';
+    const sample = concat(uint16(caption.length), text(caption));
+    const file = createFile(concat(ftyp, box('mdat', sample), box('moov',
+      mvhd(toMp4Time(RECORDING_START), 1000, 10000),
+      trak({ handlerType: 'sbtl', format: 'tx3g', timescale: 1000, sampleDeltas: [[1, 33]], sampleSize: sample.length, chunkOffset: ftyp.length + 8 })
+    )));
+    const metadata = await readContainerMetadata(file);
+
+    expect(metadata.djiTime).toBe('2024-05-01T09:29:58');
+  });
+
+  it('ignores captions of other cameras', async () => {
+    const caption = 'Chapter 1';
+    const sample = concat(uint16(caption.length), text(caption));
+    const file = createFile(concat(ftyp, box('mdat', sample), box('moov',
+      mvhd(toMp4Time(RECORDING_START), 1000, 10000),
+      trak({ handlerType: 'sbtl', format: 'tx3g', timescale: 1000, sampleDeltas: [[1, 1000]], sampleSize: sample.length, chunkOffset: ftyp.length + 8 })
+    )));
+    const metadata = await readContainerMetadata(file);
+
+    expect(metadata.djiTime).toBeUndefined();
+    expect(metadata.creationTime?.toISOString()).toBe('2024-05-01T07:30:00.000Z');
+  });
+
+  it('reads the movie header of DJI files as local time', async () => {
+    const withTelemetry = createFile(concat(ftyp, box('moov',
+      mvhd(toMp4Time(RECORDING_START), 1000, 10000),
+      trak({ handlerType: 'meta', format: 'djmd', timescale: 1000, sampleDeltas: [[10, 1000]] })
+    )));
+    const make = 'DJI';
+    const withMake = createFile(concat(ftyp, box('moov',
+      mvhd(toMp4Time(RECORDING_START), 1000, 10000),
+      box('udta', box('©mak', uint16(make.length), uint16(0x55c4), text(make)))
+    )));
+
+    expect((await readContainerMetadata(withTelemetry)).djiTime).toBe('2024-05-01T07:30:00');
+    expect((await readContainerMetadata(withMake)).djiTime).toBe('2024-05-01T07:30:00');
+  });
+
+  it('ignores implausible creation times', async () => {
+    const file = createFile(concat(ftyp, box('moov', mvhd(toMp4Time(Date.UTC(1970, 0, 1)), 1000, 10000))));
+    const metadata = await readContainerMetadata(file);
+
+    expect(metadata.creationTime).toBeUndefined();
+    expect(metadata.duration).toBeCloseTo(10);
+  });
+
+  it('gives an empty result for other formats', async () => {
+    const file = createFile(text('RIFF\0\0\0\0AVI LIST'), 'test.avi');
+
+    expect(await readContainerMetadata(file)).toEqual({});
+  });
+});
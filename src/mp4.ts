@@ -0,0 +1,317 @@
+import { ContainerMetadata } from './types';
+
+// MP4 and QuickTime times count seconds since 1904-01-01 UTC
+const MP4_EPOCH_OFFSET = 2082844800;
+
+// Top-level boxes that may open an MP4/MOV file; anything else is another format
+const TOP_LEVEL_TYPES = ['ftyp', 'moov', 'mdat', 'free', 'skip', 'wide', 'pnot'];
+
+// The movie box is read whole; a larger one is not plausible for a camera recording
+const MAX_MOVIE_BOX_SIZE = 64 * 1024 * 1024;
+const MAX_TELEMETRY_PAYLOAD_SIZE = 1024 * 1024;
+
+// Sample entry formats of DJI's own tracks: protobuf telemetry and debug data
+const DJI_TRACK_FORMATS = ['djmd', 'dbgi'];
+// User data text atoms naming the camera or the software that wrote the file
+const DJI_USER_DATA_TYPES = ['©mak', '©mdl', '©enc', '©too'];
+// Text tracks in which DJI drones embed their on-screen captions
+const CAPTION_FORMATS = ['tx3g', 'text'];
+
+interface Box {
+  type: string;
+  dataStart: number; // offset of the content after the header
+  end: number;
+}
+
+interface Track {
+  handlerType: string;
+  format: string; // sample entry format, e.g. avc1 or gpmd
+  creationTime?: Date;
+  frameRate?: number;
+  firstSampleOffset?: number;
+  firstSampleSize?: number;
+}
+
+const readType = (view: DataView, offset: number): string => {
+  return String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+};
+
+const readUint64 = (view: DataView, offset: number): number => {
+  return view.getUint32(offset) * 0x100000000 + view.getUint32(offset + 4);
+};
+
+const readText = (view: DataView, offset: number, length: number): string => {
+  return new TextDecoder().decode(new Uint8Array(view.buffer, view.byteOffset + offset, length)).replace(/\0+$/, '');
+};
+
+const readFileRange = async (file: Blob, start: number, end: number): Promise<DataView> => {
+  return new DataView(await file.slice(start, end).arrayBuffer());
+};
+
+// Boxes laid out one after another between two offsets
+const readBoxes = (view: DataView, start: number, end: number): Box[] => {
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    let headerSize = 8;
+    if (size === 1) {
+      if (offset + 16 > end) break;
+      size = readUint64(view, offset + 8);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) break;
+
+    boxes.push({ type: readType(view, offset + 4), dataStart: offset + headerSize, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+};
+
+const findBox = (view: DataView, parent: Box | undefined, path: string[]): Box | undefined => {
+  return path.reduce<Box | undefined>((box, type) => box && readBoxes(view, box.dataStart, box.end).find(b => b.type === type), parent);
+};
+
+// MP4 meta boxes carry a version and flags before their children, QuickTime ones do not
+const readMetaChildren = (view: DataView, meta: Box): Box[] => {
+  const isQuickTime = meta.dataStart + 8 <= meta.end && readType(view, meta.dataStart + 4) === 'hdlr';
+  return readBoxes(view, isQuickTime ? meta.dataStart : meta.dataStart + 4, meta.end);
+};
+
+// Creation time of an mvhd, tkhd or mdhd box; unset or implausible times are left out
+const readCreationTime = (view: DataView, box: Box): Date | undefined => {
+  const version = view.getUint8(box.dataStart);
+  const seconds = version === 1 ? readUint64(view, box.dataStart + 4) : view.getUint32(box.dataStart + 4);
+  return toRecordingDate(new Date((seconds - MP4_EPOCH_OFFSET) * 1000));
+};
+
+const toRecordingDate = (date: Date): Date | undefined => {
+  const time = date.getTime();
+  return time > Date.UTC(2000, 0, 1) && time < Date.now() + 86400 * 1000 ? date : undefined;
+};
+
+// Timescale and duration of an mvhd or mdhd box
+const readTimescale = (view: DataView, box: Box): { timescale: number; duration: number } => {
+  const version = view.getUint8(box.dataStart);
+  return version === 1
+    ? { timescale: view.getUint32(box.dataStart + 20), duration: readUint64(view, box.dataStart + 24) }
+    : { timescale: view.getUint32(box.dataStart + 12), duration: view.getUint32(box.dataStart + 16) };
+};
+
+const readTrack = (view: DataView, trak: Box): Track => {
+  const tkhd = findBox(view, trak, ['tkhd']);
+  const mdhd = findBox(view, trak, ['mdia', 'mdhd']);
+  const hdlr = findBox(view, trak, ['mdia', 'hdlr']);
+  const stbl = findBox(view, trak, ['mdia', 'minf', 'stbl']);
+  const stsd = findBox(view, stbl, ['stsd']);
+  const stts = findBox(view, stbl, ['stts']);
+  const stsz = findBox(view, stbl, ['stsz']);
+  const stco = findBox(view, stbl, ['stco']);
+  const co64 = findBox(view, stbl, ['co64']);
+
+  const track: Track = {
+    handlerType: hdlr ? readType(view, hdlr.dataStart + 8) : '',
+    format: stsd && stsd.dataStart + 16 <= stsd.end ? readType(view, stsd.dataStart + 12) : '',
+    creationTime: tkhd ? readCreationTime(view, tkhd) : undefined
+  };
+
+  // Frame rate from the sample count and total sample duration
+  if (mdhd && stts) {
+    const { timescale } = readTimescale(view, mdhd);
+    const entryCount = view.getUint32(stts.dataStart + 4);
+    let sampleCount = 0;
+    let duration = 0;
+    for (let i = 0; i < entryCount && stts.dataStart + 16 + i * 8 <= stts.end; i++) {
+      const count = view.getUint32(stts.dataStart + 8 + i * 8);
+      sampleCount += count;
+      duration += count * view.getUint32(stts.dataStart + 12 + i * 8);
+    }
+    if (sampleCount > 1 && duration > 0 && timescale > 0) {
+      track.frameRate = (sampleCount * timescale) / duration;
+    }
+  }
+
+  // Location of the first sample, for reading telemetry payloads
+  if (stsz && stsz.dataStart + 12 <= stsz.end) {
+    const sampleSize = view.getUint32(stsz.dataStart + 4);
+    const hasSizes = stsz.dataStart + 16 <= stsz.end;
+    track.firstSampleSize = sampleSize || (hasSizes ? view.getUint32(stsz.dataStart + 12) : undefined);
+  }
+  if (stco && stco.dataStart + 12 <= stco.end && view.getUint32(stco.dataStart + 4) > 0) {
+    track.firstSampleOffset = view.getUint32(stco.dataStart + 8);
+  } else if (co64 && co64.dataStart + 16 <= co64.end && view.getUint32(co64.dataStart + 4) > 0) {
+    track.firstSampleOffset = readUint64(view, co64.dataStart + 8);
+  }
+
+  return track;
+};
+
+// Normalise a QuickTime date like 2024-05-01T07:30:00+0200 to ISO-8601 with a UTC offset
+const normaliseCreationDate = (value: string): string | undefined => {
+  const match = value.trim().match(/^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2})(?:\.\d+)?(Z|[+-]\d{2}):?(\d{2})?$/);
+  if (!match) return undefined;
+  return match[2] === 'Z' ? `${match[1]}Z` : `${match[1]}${match[2]}:${match[3] || '00'}`;
+};
+
+// QuickTime user data text: 2-byte length and 2-byte language before the text
+const readUserDataText = (view: DataView, udta: Box | undefined, type: string): string | undefined => {
+  const box = findBox(view, udta, [type]);
+  if (!box || box.dataStart + 4 > box.end) return undefined;
+  const length = Math.min(view.getUint16(box.dataStart), box.end - box.dataStart - 4);
+  return readText(view, box.dataStart + 4, length);
+};
+
+// Creation date with UTC offset from the metadata keys (iPhones and many action cameras) or the ©day atom
+const readCreationDate = (view: DataView, moov: Box): string | undefined => {
+  const udta = findBox(view, moov, ['udta']);
+  const metas = [findBox(view, moov, ['meta']), findBox(view, udta, ['meta'])].filter((meta): meta is Box => !!meta);
+
+  for (const meta of metas) {
+    const children = readMetaChildren(view, meta);
+    const keys = children.find(b => b.type === 'keys');
+    const ilst = children.find(b => b.type === 'ilst');
+    if (!ilst) continue;
+
+    // QuickTime metadata items refer to their key by its 1-based index
+    const keyNames: string[] = [];
+    if (keys) {
+      readBoxes(view, keys.dataStart + 8, keys.end).forEach(key => keyNames.push(readText(view, key.dataStart, key.end - key.dataStart)));
+    }
+
+    for (const item of readBoxes(view, ilst.dataStart, ilst.end)) {
+      const keyName = keyNames[view.getUint32(item.dataStart - 4) - 1];
+      if (keyName !== 'com.apple.quicktime.creationdate' && item.type !== '©day') continue;
+      const data = readBoxes(view, item.dataStart, item.end).find(b => b.type === 'data');
+      const value = data && normaliseCreationDate(readText(view, data.dataStart + 8, data.end - data.dataStart - 8));
+      if (value) return value;
+    }
+  }
+
+  const day = readUserDataText(view, udta, '©day');
+  return day ? normaliseCreationDate(day) : undefined;
+};
+
+const isDjiRecording = (view: DataView, moov: Box, tracks: Track[]): boolean => {
+  const udta = findBox(view, moov, ['udta']);
+  return tracks.some(t => DJI_TRACK_FORMATS.includes(t.format)) ||
+    DJI_USER_DATA_TYPES.some(type => /^DJI/i.test(readUserDataText(view, udta, type) || ''));
+};
+
+// Camera-local time of the first DJI caption, e.g. "FrameCnt: 1, DiffTime: 33ms\n2024-05-01 07:30:00.123\n[iso: 100] ...".
+// Older drones write "SrtCnt : 1" and dots in the date. Captions of other cameras are ignored.
+const readDjiCaptionTime = async (file: File, track: Track): Promise<string | undefined> => {
+  if (track.firstSampleOffset === undefined || !track.firstSampleSize) return undefined;
+
+  // Text samples: 2-byte length before the text
+  const sample = await readFileRange(file, track.firstSampleOffset, track.firstSampleOffset + Math.min(track.firstSampleSize, MAX_TELEMETRY_PAYLOAD_SIZE));
+  if (sample.byteLength < 2) return undefined;
+  const caption = readText(sample, 2, Math.min(sample.getUint16(0), sample.byteLength - 2));
+  if (!/FrameCnt|SrtCnt|DiffTime/.test(caption)) return undefined;
+
+  const match = caption.match(/(\d{4})[-.](\d{2})[-.](\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}` : undefined;
+};
+
+// GPMF telemetry is key-length-value: 4-char key, type, struct size and repeat count, padded to 4 bytes
+const findGpmfText = (view: DataView, start: number, end: number, key: string): string | undefined => {
+  let offset = start;
+  while (offset + 8 <= end) {
+    const type = view.getUint8(offset + 4);
+    const length = view.getUint8(offset + 5) * view.getUint16(offset + 6);
+    const dataEnd = offset + 8 + length;
+    if (dataEnd > end) return undefined;
+
+    if (type === 0) {
+      const value = findGpmfText(view, offset + 8, dataEnd, key);
+      if (value) return value;
+    } else if (readType(view, offset) === key && type === 'U'.charCodeAt(0)) {
+      return readText(view, offset + 8, length);
+    }
+    offset = dataEnd + ((4 - (length % 4)) % 4);
+  }
+  return undefined;
+};
+
+// UTC time of the first GoPro telemetry payload; GPSU is the GPS time as yymmddhhmmss.sss
+const readGoProGpsTime = async (file: File, track: Track): Promise<Date | undefined> => {
+  if (track.firstSampleOffset === undefined || !track.firstSampleSize) return undefined;
+
+  const payload = await readFileRange(file, track.firstSampleOffset, track.firstSampleOffset + Math.min(track.firstSampleSize, MAX_TELEMETRY_PAYLOAD_SIZE));
+  const gpsTime = findGpmfText(payload, 0, payload.byteLength, 'GPSU');
+  const match = gpsTime?.match(/^(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\.\d+)?/);
+  if (!match) return undefined;
+
+  const [year, month, day, hours, minutes, seconds] = match.slice(1, 7).map(Number);
+  const milliseconds = Math.round(Number(match[7] || 0) * 1000);
+  return toRecordingDate(new Date(Date.UTC(2000 + year, month - 1, day, hours, minutes, seconds, milliseconds)));
+};
+
+// Find and read the movie box, which holds all metadata; it may sit before or after the media data
+const readMovieBox = async (file: File): Promise<DataView | null> => {
+  let offset = 0;
+  while (offset + 8 <= file.size) {
+    const header = await readFileRange(file, offset, Math.min(file.size, offset + 16));
+    const type = readType(header, 4);
+    let size = header.getUint32(0);
+    if (size === 1 && header.byteLength >= 16) {
+      size = readUint64(header, 8);
+    } else if (size === 0) {
+      size = file.size - offset;
+    }
+
+    if (size < 8 || (offset === 0 && !TOP_LEVEL_TYPES.includes(type))) return null;
+    if (type === 'moov') {
+      return size <= MAX_MOVIE_BOX_SIZE ? readFileRange(file, offset, offset + size) : null;
+    }
+    offset += size;
+  }
+  return null;
+};
+
+// Recording metadata of an MP4/MOV file; other formats and unreadable files give an empty result
+export const readContainerMetadata = async (file: File): Promise<ContainerMetadata> => {
+  try {
+    const view = await readMovieBox(file);
+    if (!view) return {};
+
+    const moov = readBoxes(view, 0, view.byteLength)[0];
+    const metadata: ContainerMetadata = {};
+
+    const mvhd = findBox(view, moov, ['mvhd']);
+    if (mvhd) {
+      const { timescale, duration } = readTimescale(view, mvhd);
+      metadata.creationTime = readCreationTime(view, mvhd);
+      if (timescale > 0 && duration > 0) metadata.duration = duration / timescale;
+    }
+
+    const tracks = readBoxes(view, moov.dataStart, moov.end).filter(b => b.type === 'trak').map(trak => readTrack(view, trak));
+    const videoTrack = tracks.find(t => t.handlerType === 'vide');
+    if (videoTrack) {
+      metadata.creationTime = metadata.creationTime || videoTrack.creationTime;
+      metadata.frameRate = videoTrack.frameRate;
+    }
+
+    metadata.creationDate = readCreationDate(view, moov);
+
+    const telemetryTrack = tracks.find(t => t.format === 'gpmd');
+    if (telemetryTrack) {
+      metadata.gpsTime = await readGoProGpsTime(file, telemetryTrack);
+    }
+
+    // DJI cameras write their local clock time into the movie header; their captions, if recorded, time the first frame
+    const captionTrack = tracks.find(t => CAPTION_FORMATS.includes(t.format));
+    const captionTime = captionTrack ? await readDjiCaptionTime(file, captionTrack) : undefined;
+    if (captionTime) {
+      metadata.djiTime = captionTime;
+    } else if (metadata.creationTime && isDjiRecording(view, moov, tracks)) {
+      metadata.djiTime = metadata.creationTime.toISOString().slice(0, 19);
+    }
+
+    return metadata;
+  } catch (error) {
+    console.error(`Failed to read the metadata of ${file.name}:`, error);
+    return {};
+  }
+};
@@ -0,0 +1,138 @@
+import { Timestamp, VideoFile } from './types';
+import { SessionVideo, getVideoMatchScore, suggestVideoLinks, relinkSessionVideos, restoreSessionVideo } from './relink';
+
+const MB = 1024 * 1024;
+
+const SAVED_CLIP: SessionVideo = { name: 'clip.mp4', duration: 600, startTime: '07:30:00', cameraId: 'camera-1' };
+
+const LOADED_CLIP = {
+  id: 'a',
+  file: { size: 0 } as File,
+  name: 'clip.mp4',
+  duration: 600,
+  startTime: '00:00:00',
+  startDate: '2024-05-01',
+  utcOffset: '+00:00',
+  cameraId: 'camera-1',
+  frameRate: 30,
+  color: '#000000',
+  url: 'blob:a'
+} as VideoFile;
+
+const ofSize = (bytes: number) => ({ size: bytes } as File);
+
+describe('getVideoMatchScore', () => {
+  it('scores the same file fully', () => {
+    const saved = { ...SAVED_CLIP, name: 'GX010123.MP4', size: 400 * MB };
+
+    expect(getVideoMatchScore(saved, { ...LOADED_CLIP, name: 'GX010123.MP4', file: ofSize(400 * MB) })).toBeCloseTo(1);
+  });
+
+  it('ignores case, separators and the extension of renamed files', () => {
+    const score = getVideoMatchScore({ ...SAVED_CLIP, name: 'Cam1_0730.MP4' }, { ...LOADED_CLIP, name: 'cam1-0730.mov' });
+
+    expect(score).toBeGreaterThan(0.95);
+  });
+
+  it('tells recordings of one camera apart by the digits of their names', () => {
+    const saved = { ...SAVED_CLIP, name: '20240501_073000.mp4' };
+    const renamed = getVideoMatchScore(saved, { ...LOADED_CLIP, name: 'north_20240501_073000.mp4' });
+    const nextRecording = getVideoMatchScore(saved, { ...LOADED_CLIP, name: '20240501_074000.mp4' });
+
+    expect(renamed).toBeGreaterThan(nextRecording);
+    expect(nextRecording).toBeLessThan(0.85);
+  });
+
+  it('prefers the file with the saved duration', () => {
+    const almostSame = getVideoMatchScore(SAVED_CLIP, { ...LOADED_CLIP, duration: 600.5 });
+
+    expect(almostSame).toBeGreaterThan(getVideoMatchScore(SAVED_CLIP, { ...LOADED_CLIP, duration: 540 }));
+    expect(almostSame).toBeCloseTo(1);
+  });
+
+  it('uses the file size when the session saved it', () => {
+    const saved = { ...SAVED_CLIP, size: 400 * MB };
+
+    expect(getVideoMatchScore(saved, { ...LOADED_CLIP, file: ofSize(400 * MB) }))
+      .toBeGreaterThan(getVideoMatchScore(saved, { ...LOADED_CLIP, file: ofSize(100 * MB) }));
+  });
+});
+
+describe('suggestVideoLinks', () => {
+  const FIRST_RECORDING = { ...LOADED_CLIP, name: 'cam1_0730.mp4' };
+  const SECOND_RECORDING = { ...LOADED_CLIP, id: 'b', name: 'cam1_0740.mp4' };
+
+  it('links every session video to its best file, one to one', () => {
+    const sessionVideos = [{ ...SAVED_CLIP, name: 'cam1_0730.mp4' }, { ...SAVED_CLIP, name: 'cam1_0740.mp4' }];
+
+    expect(suggestVideoLinks(sessionVideos, [SECOND_RECORDING, FIRST_RECORDING])).toEqual(['a', 'b']);
+  });
+
+  it('leaves session videos without a plausible file unlinked', () => {
+    const sessionVideos = [{ ...SAVED_CLIP, name: 'cam1_0730.mp4' }, { ...SAVED_CLIP, name: 'x.mp4', duration: 30 }];
+    const holiday = { ...LOADED_CLIP, id: 'b', name: 'holiday.mp4', duration: 3600 };
+
+    expect(suggestVideoLinks(sessionVideos, [FIRST_RECORDING, holiday])).toEqual(['a', null]);
+  });
+
+  it('gives a file to the session video it matches best, even if another one lists first', () => {
+    const sessionVideos = [{ ...SAVED_CLIP, name: 'clip_a.mp4' }, SAVED_CLIP];
+
+    expect(suggestVideoLinks(sessionVideos, [LOADED_CLIP])).toEqual([null, 'a']);
+  });
+
+  it('breaks ties by the order of the session videos and then of the files', () => {
+    const sessionVideos = [{ ...SAVED_CLIP, name: 'cam_a.mp4' }, { ...SAVED_CLIP, name: 'cam_b.mp4' }];
+    const cameraC = { ...LOADED_CLIP, id: 'c', name: 'cam_c.mp4' };
+    const cameraD = { ...LOADED_CLIP, id: 'd', name: 'cam_d.mp4' };
+
+    expect(suggestVideoLinks(sessionVideos, [cameraC])).toEqual(['c', null]);
+    expect(suggestVideoLinks(sessionVideos, [cameraC, cameraD])).toEqual(['c', 'd']);
+  });
+});
+
+describe('restoreSessionVideo', () => {
+  it('gives the file the saved start, clock and camera', () => {
+    const saved = { ...SAVED_CLIP, startDateTime: '2024-05-01T07:30:00+02:00', frameRate: 25 };
+    const cameras = [{ id: 'camera-1', name: 'North', color: '#0d6efd', syncOffset: 1.5, overlays: [], speedTraps: [] }];
+    const restored = restoreSessionVideo({ ...LOADED_CLIP, name: 'clip_renamed.mp4' }, saved, cameras);
+
+    expect(restored).toMatchObject({
+      id: 'a',
+      name: 'clip_renamed.mp4',
+      startDate: '2024-05-01',
+      startTime: '07:30:00',
+      utcOffset: '+02:00',
+      startTimeSource: 'session',
+      frameRate: 25,
+      cameraId: 'camera-1',
+      syncOffset: 1.5
+    });
+  });
+});
+
+describe('relinkSessionVideos', () => {
+  it('moves references by saved id, and by name for sessions saved without ids', () => {
+    const links = [
+      { sessionVideo: { ...SAVED_CLIP, id: 'old-1', name: 'first.mp4' }, video: { ...LOADED_CLIP, id: 'new-1', name: 'first_renamed.mp4' } },
+      { sessionVideo: { ...SAVED_CLIP, name: 'second.mp4' }, video: { ...LOADED_CLIP, id: 'new-2', name: 'second.mp4' } }
+    ];
+    const mark = { id: 't', eventId: 1, eventName: 'Car', atSecondFirst: 0, atSecondCurrent: 0, timeHHMMSS: '07:30:00', note: '' } as Timestamp;
+    const relinked = relinkSessionVideos({
+      timestamps: [
+        { ...mark, id: 't1', videoId: 'old-1', videoName: 'first.mp4' },
+        { ...mark, id: 't2', videoId: 'old-2', videoName: 'second.mp4' },
+        { ...mark, id: 't3', videoId: 'other', videoName: 'other.mp4' }
+      ],
+      trajectories: [],
+      activitySegments: [],
+      candidates: []
+    }, links);
+
+    expect(relinked.timestamps.map(t => [t.videoId, t.videoName])).toEqual([
+      ['new-1', 'first_renamed.mp4'],
+      ['new-2', 'second.mp4'],
+      ['other', 'other.mp4']
+    ]);
+  });
+});
@@ -0,0 +1,127 @@
+import { ActivitySegment, Camera, CandidateEvent, SessionData, Timestamp, Trajectory, VideoFile } from './types';
+import { parseIsoDateTime } from './utils';
+
+export type SessionVideo = SessionData['videoFiles'][number];
+
+// Added file linked to a video of the loaded session
+export interface VideoLink {
+  sessionVideo: SessionVideo;
+  video: VideoFile;
+}
+
+interface LinkedContent {
+  timestamps: Timestamp[];
+  trajectories: Trajectory[];
+  activitySegments: ActivitySegment[];
+  candidates: CandidateEvent[];
+}
+
+// Suggestions scoring lower than this are left for manual assignment
+const MIN_SUGGESTION_SCORE = 0.5;
+// Durations differing by more than this (in seconds) may shift the annotations of a relinked video
+export const DURATION_SHIFT_SECONDS = 1;
+
+// Filename without extension, case and separators, so "Cam1_0730.MP4" and "cam1-0730.mov" compare equal
+const normalizeName = (name: string): string => name.replace(/\.[^.]*$/, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const getEditDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// How well an added file matches a video of the session (0-1): mostly by name and duration, a little by size.
+// Re-encoded files keep their duration, renamed files their duration and size.
+export const getVideoMatchScore = (sessionVideo: SessionVideo, video: VideoFile): number => {
+  const a = normalizeName(sessionVideo.name);
+  const b = normalizeName(video.name);
+  const similarity = 1 - getEditDistance(a, b) / Math.max(a.length, b.length, 1);
+  // Recordings of one camera often differ only in the digits of their start time, which must not pass as a rename
+  const digitsA = a.replace(/\D/g, '');
+  const digitsB = b.replace(/\D/g, '');
+  const digitsConflict = digitsA.indexOf(digitsB) === -1 && digitsB.indexOf(digitsA) === -1;
+  const nameScore = sessionVideo.name === video.name ? 1 : 0.95 * similarity * (digitsConflict ? 0.5 : 1);
+
+  const durationDifference = Math.abs(sessionVideo.duration - video.duration);
+  const durationScore = durationDifference <= DURATION_SHIFT_SECONDS ? 1 : Math.max(0, 1 - durationDifference / Math.max(10, sessionVideo.duration * 0.05));
+
+  if (!sessionVideo.size) return 0.55 * nameScore + 0.45 * durationScore;
+  const sizeScore = Math.min(sessionVideo.size, video.file.size) / Math.max(sessionVideo.size, video.file.size, 1);
+  return 0.5 * nameScore + 0.4 * durationScore + 0.1 * sizeScore;
+};
+
+// Best one-to-one assignment of added files to session videos, by descending score; video ids by session video
+export const suggestVideoLinks = (sessionVideos: SessionVideo[], videos: VideoFile[]): (string | null)[] => {
+  const pairs = sessionVideos.reduce((result, sessionVideo, index) => [
+    ...result,
+    ...videos.map(video => ({ index, videoId: video.id, score: getVideoMatchScore(sessionVideo, video) }))
+  ], [] as { index: number; videoId: string; score: number }[]).sort((a, b) => b.score - a.score);
+
+  const links: (string | null)[] = sessionVideos.map(() => null);
+  pairs.forEach(pair => {
+    if (pair.score >= MIN_SUGGESTION_SCORE && links[pair.index] === null && !links.includes(pair.videoId)) {
+      links[pair.index] = pair.videoId;
+    }
+  });
+  return links;
+};
+
+// Give an added file the camera, start and clock of the session video it was linked to
+export const restoreSessionVideo = (video: VideoFile, sessionVideo: SessionVideo, cameras: Camera[]): VideoFile => {
+  const camera = cameras.find(c => c.id === sessionVideo.cameraId);
+  const savedStart = sessionVideo.startDateTime ? parseIsoDateTime(sessionVideo.startDateTime) : null;
+  return {
+    ...video,
+    ...(savedStart
+      ? { startDate: savedStart.date, startTime: savedStart.time, utcOffset: savedStart.utcOffset }
+      : { startTime: sessionVideo.startTime }),
+    startTimeSource: sessionVideo.startTimeSource || 'session',
+    clockAnchors: sessionVideo.clockAnchors,
+    frameRate: sessionVideo.frameRate || video.frameRate,
+    ...(camera ? { cameraId: camera.id, syncOffset: camera.syncOffset } : {})
+  };
+};
+
+// The link a reference to a session video belongs to: by the saved video id, or by name for sessions saved without ids
+const findLink = (links: VideoLink[], videoId: string, videoName?: string): VideoLink | undefined => {
+  return links.find(l => l.sessionVideo.id ? l.sessionVideo.id === videoId : videoName !== undefined && l.sessionVideo.name === videoName);
+};
+
+// Point everything that referred to the session videos at the linked files; times are left to be recalculated
+export const relinkSessionVideos = ({ timestamps, trajectories, activitySegments, candidates }: LinkedContent, links: VideoLink[]): LinkedContent => ({
+  timestamps: timestamps.map(t => {
+    const link = findLink(links, t.videoId, t.videoName);
+    const endLink = t.endVideoId !== undefined ? findLink(links, t.endVideoId) || (t.endVideoId === t.videoId ? link : undefined) : undefined;
+    return {
+      ...t,
+      ...(link ? { videoId: link.video.id, videoName: link.video.name } : {}),
+      ...(endLink ? { endVideoId: endLink.video.id } : {})
+    };
+  }),
+  trajectories: trajectories.map(t => ({
+    ...t,
+    points: t.points.map(p => {
+      const link = findLink(links, p.videoId);
+      return link ? { ...p, videoId: link.video.id } : p;
+    })
+  })),
+  activitySegments: activitySegments.map(s => {
+    const link = findLink(links, s.videoId, s.videoName);
+    return link ? { ...s, videoId: link.video.id, videoName: link.video.name } : s;
+  }),
+  candidates: candidates.map(c => {
+    const link = findLink(links, c.videoId, c.videoName);
+    return link ? { ...c, videoId: link.video.id, videoName: link.video.name } : c;
+  })
+});
+
+// Annotations referring to a session video, to show what a link moves and what a duration change may shift
+export const getSessionVideoTimestamps = (timestamps: Timestamp[], sessionVideo: SessionVideo): Timestamp[] => {
+  return timestamps.filter(t => sessionVideo.id ? t.videoId === sessionVideo.id : t.videoName === sessionVideo.name);
+};
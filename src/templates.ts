@@ -0,0 +1,143 @@
+import { CountTemplate, EventType, Movement, FilenamePattern } from './types';
+import { generateId, getVideoColors, downloadFile } from './utils';
+
+const STORAGE_KEY = 'countTemplates';
+
+const colors = getVideoColors();
+
+// Standard survey layouts that are always available
+export const BUILT_IN_TEMPLATES: CountTemplate[] = [
+  {
+    id: 'builtin-tmc-4-leg',
+    name: '4-leg intersection TMC',
+    builtIn: true,
+    chordMode: true,
+    eventTypes: [
+      { id: 1, name: 'Car', color: colors[2], hotkey: '1', kind: 'point', attributes: [] },
+      {
+        id: 2, name: 'Truck', color: colors[0], hotkey: '2', kind: 'point',
+        attributes: [{ id: 'axles', name: 'Axles', type: 'number', options: [], hotkey: 'k' }]
+      },
+      { id: 3, name: 'Bus', color: colors[1], hotkey: '3', kind: 'point', attributes: [] },
+      { id: 4, name: 'Bike', color: colors[3], hotkey: '4', kind: 'point', attributes: [] }
+    ],
+    movements: [
+      { id: 1, name: 'N-left', color: colors[0], hotkey: 'q' },
+      { id: 2, name: 'N-through', color: colors[0], hotkey: 'w' },
+      { id: 3, name: 'N-right', color: colors[0], hotkey: 'e' },
+      { id: 4, name: 'E-left', color: colors[1], hotkey: 'f' },
+      { id: 5, name: 'E-through', color: colors[1], hotkey: 'g' },
+      { id: 6, name: 'E-right', color: colors[1], hotkey: 'h' },
+      { id: 7, name: 'S-left', color: colors[2], hotkey: 'z' },
+      { id: 8, name: 'S-through', color: colors[2], hotkey: 'x' },
+      { id: 9, name: 'S-right', color: colors[2], hotkey: 'c' },
+      { id: 10, name: 'W-left', color: colors[3], hotkey: 'v' },
+      { id: 11, name: 'W-through', color: colors[3], hotkey: 'b' },
+      { id: 12, name: 'W-right', color: colors[3], hotkey: 'm' }
+    ]
+  },
+  {
+    id: 'builtin-roundabout-entry',
+    name: 'Roundabout entry',
+    builtIn: true,
+    chordMode: false,
+    eventTypes: [
+      { id: 1, name: 'Entering', color: colors[1], hotkey: '1', kind: 'point', attributes: [] },
+      { id: 2, name: 'Circulating', color: colors[2], hotkey: '2', kind: 'point', attributes: [] },
+      { id: 3, name: 'Exiting', color: colors[4], hotkey: '3', kind: 'point', attributes: [] },
+      { id: 4, name: 'Heavy vehicle entering', color: colors[0], hotkey: '4', kind: 'point', attributes: [] },
+      { id: 5, name: 'Queue on entry', color: colors[3], hotkey: '5', kind: 'interval', attributes: [] }
+    ],
+    movements: []
+  },
+  {
+    id: 'builtin-pedestrian-crossing',
+    name: 'Pedestrian crossing',
+    builtIn: true,
+    chordMode: false,
+    eventTypes: [
+      {
+        id: 1, name: 'Pedestrian', color: colors[2], hotkey: '1', kind: 'point',
+        attributes: [
+          {
+            id: 'direction', name: 'Direction', type: 'enum', hotkey: '',
+            options: [{ value: 'A→B', hotkey: 'z' }, { value: 'B→A', hotkey: 'x' }]
+          },
+          { id: 'group-size', name: 'Group size', type: 'number', options: [], hotkey: 'g' }
+        ]
+      },
+      { id: 2, name: 'Cyclist crossing', color: colors[3], hotkey: '2', kind: 'point', attributes: [] },
+      { id: 3, name: 'Vehicle yielding', color: colors[1], hotkey: '3', kind: 'point', attributes: [] },
+      { id: 4, name: 'Vehicle not yielding', color: colors[0], hotkey: '4', kind: 'point', attributes: [] },
+      { id: 5, name: 'Pedestrians waiting', color: colors[4], hotkey: '5', kind: 'interval', attributes: [] }
+    ],
+    movements: []
+  }
+];
+
+// Load the user's templates from the browser
+export const loadUserTemplates = (): CountTemplate[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.error('Failed to load count templates:', error);
+    return [];
+  }
+};
+
+// Save the user's templates to the browser
+export const saveUserTemplates = (templates: CountTemplate[]): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates.filter(t => !t.builtIn)));
+};
+
+// Create a template from the current event setup and filename patterns
+export const createTemplate = (name: string, eventTypes: EventType[], movements: Movement[], chordMode: boolean, filenamePatterns: FilenamePattern[]): CountTemplate => ({
+  id: generateId(),
+  name,
+  eventTypes: eventTypes.map(({ count, ...eventType }) => eventType),
+  movements,
+  chordMode,
+  filenamePatterns
+});
+
+// Event types of a template, ready to be used in a new session
+export const getTemplateEventTypes = (template: CountTemplate): EventType[] => {
+  return template.eventTypes.map(eventType => ({ ...eventType, count: 0 }));
+};
+
+// Export a template to a JSON file
+export const exportTemplate = (template: CountTemplate): void => {
+  const { builtIn, ...data } = template;
+  const filename = `count_template_${template.name.replace(/[^a-z0-9]+/gi, '_').toLowerCase()}.json`;
+  downloadFile(JSON.stringify(data, null, 2), filename, 'application/json;charset=utf-8;');
+};
+
+// Parse and validate one or more templates from JSON; imported templates get new ids
+export const parseTemplateData = (jsonString: string): CountTemplate[] | null => {
+  try {
+    const data = JSON.parse(jsonString);
+    const templates = Array.isArray(data) ? data : [data];
+
+    if (templates.length === 0 || templates.some(t => !t.name || !Array.isArray(t.eventTypes))) {
+      throw new Error('Invalid count template format');
+    }
+
+    return templates.map((t: CountTemplate) => ({
+      id: generateId(),
+      name: t.name,
+      eventTypes: t.eventTypes.map(e => ({
+        ...e,
+        hotkey: e.hotkey ?? '',
+        kind: e.kind ?? 'point',
+        attributes: e.attributes ?? []
+      })),
+      movements: t.movements ?? [],
+      chordMode: t.chordMode ?? false,
+      filenamePatterns: t.filenamePatterns ?? []
+    }));
+  } catch (error) {
+    console.error('Failed to parse count template:', error);
+    return null;
+  }
+};
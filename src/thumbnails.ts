@@ -0,0 +1,203 @@
+import { EventType, Timestamp } from './types';
+import { downloadFile } from './utils';
+
+// Snapshots are kept in the browser's IndexedDB, keyed by timestamp id, so session files stay small
+const DB_NAME = 'trafficCountThumbnails';
+const STORE_NAME = 'thumbnails';
+
+const THUMBNAIL_WIDTH = 160;
+const THUMBNAIL_QUALITY = 0.6;
+// A hidden player that has not shown the frame by then gives up, e.g. on a revoked URL or a stalled decoder
+const CAPTURE_TIMEOUT_MS = 5000;
+
+const CONTACT_SHEET_COLUMNS = 5;
+const CONTACT_SHEET_PAGE_SIZE = 100;
+const CELL_WIDTH = 240;
+const CELL_IMAGE_HEIGHT = 135;
+const CELL_LABEL_HEIGHT = 40;
+const HEADER_HEIGHT = 40;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Run one transaction on the thumbnail store and wait for it to complete
+const withStore = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => T): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const result = action(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(result);
+    };
+    transaction.onerror = () => {
+      db.close();
+      reject(transaction.error);
+    };
+  });
+};
+
+// Small JPEG of the frame a video currently shows, or null if it has no frame yet
+export const captureThumbnail = (video: HTMLVideoElement): string | null => {
+  if (!video.videoWidth || !video.videoHeight || video.readyState < 2) return null;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_WIDTH;
+  canvas.height = Math.round((THUMBNAIL_WIDTH * video.videoHeight) / video.videoWidth);
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+
+  context.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', THUMBNAIL_QUALITY);
+};
+
+// Snapshot of the frame at a given time of a video file, decoded by a hidden player so the visible one keeps playing.
+// Used when an event's time is not the frame on screen (reaction-time offsets, chord timeouts, speed crossings).
+export const captureThumbnailAt = (url: string, videoTime: number): Promise<string | null> => {
+  return new Promise(resolve => {
+    const player = document.createElement('video');
+    player.muted = true;
+    player.preload = 'auto';
+    const finish = (dataUrl: string | null) => {
+      window.clearTimeout(timeout);
+      player.onloadeddata = null;
+      player.onseeked = null;
+      player.onerror = null;
+      player.removeAttribute('src');
+      player.load();
+      resolve(dataUrl);
+    };
+    player.onloadeddata = () => {
+      player.currentTime = videoTime;
+    };
+    player.onseeked = () => finish(captureThumbnail(player));
+    player.onerror = () => finish(null);
+    const timeout = window.setTimeout(() => finish(null), CAPTURE_TIMEOUT_MS);
+    player.src = url;
+  });
+};
+
+export const saveThumbnail = (timestampId: string, dataUrl: string): Promise<void> => {
+  return withStore('readwrite', store => {
+    store.put(dataUrl, timestampId);
+  });
+};
+
+// Thumbnails stored for the given timestamps; missing ones are left out
+export const loadThumbnails = async (timestampIds: string[]): Promise<Record<string, string>> => {
+  const thumbnails: Record<string, string> = {};
+  await withStore('readonly', store => {
+    timestampIds.forEach(id => {
+      const request = store.get(id);
+      request.onsuccess = () => {
+        if (typeof request.result === 'string') thumbnails[id] = request.result;
+      };
+    });
+  });
+  return thumbnails;
+};
+
+export const deleteThumbnails = (timestampIds: string[]): Promise<void> => {
+  return withStore('readwrite', store => {
+    timestampIds.forEach(id => store.delete(id));
+  });
+};
+
+// Remove all stored thumbnails except those of the given timestamps, e.g. of sessions that are no longer open
+export const pruneThumbnails = (keptTimestampIds: string[]): Promise<void> => {
+  const kept = new Set(keptTimestampIds);
+  return withStore('readwrite', store => {
+    const request = store.getAllKeys();
+    request.onsuccess = () => {
+      request.result.filter(key => !kept.has(`${key}`)).forEach(key => store.delete(key));
+    };
+  });
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement | null> => {
+  return new Promise(resolve => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => resolve(null);
+    image.src = src;
+  });
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement): Promise<Blob | null> => {
+  return new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.85));
+};
+
+// Draw one page of the contact sheet: a grid of snapshots labelled with event number, name and time
+const drawContactSheetPage = async (
+  timestamps: Timestamp[],
+  firstNumber: number,
+  thumbnails: Record<string, string>,
+  eventTypes: EventType[],
+  title: string
+): Promise<HTMLCanvasElement> => {
+  const rows = Math.ceil(timestamps.length / CONTACT_SHEET_COLUMNS);
+  const canvas = document.createElement('canvas');
+  canvas.width = CONTACT_SHEET_COLUMNS * CELL_WIDTH;
+  canvas.height = HEADER_HEIGHT + rows * (CELL_IMAGE_HEIGHT + CELL_LABEL_HEIGHT);
+  const context = canvas.getContext('2d') as CanvasRenderingContext2D;
+
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.fillStyle = '#212529';
+  context.font = 'bold 18px sans-serif';
+  context.fillText(title, 10, 26);
+
+  const images = await Promise.all(timestamps.map(t => thumbnails[t.id] ? loadImage(thumbnails[t.id]) : Promise.resolve(null)));
+
+  timestamps.forEach((t, index) => {
+    const x = (index % CONTACT_SHEET_COLUMNS) * CELL_WIDTH;
+    const y = HEADER_HEIGHT + Math.floor(index / CONTACT_SHEET_COLUMNS) * (CELL_IMAGE_HEIGHT + CELL_LABEL_HEIGHT);
+    const image = images[index];
+
+    context.fillStyle = '#dee2e6';
+    context.fillRect(x + 4, y + 4, CELL_WIDTH - 8, CELL_IMAGE_HEIGHT - 4);
+    if (image) {
+      const scale = Math.min((CELL_WIDTH - 8) / image.width, (CELL_IMAGE_HEIGHT - 4) / image.height);
+      const width = image.width * scale;
+      const height = image.height * scale;
+      context.drawImage(image, x + 4 + (CELL_WIDTH - 8 - width) / 2, y + 4 + (CELL_IMAGE_HEIGHT - 4 - height) / 2, width, height);
+    } else {
+      context.fillStyle = '#6c757d';
+      context.font = '12px sans-serif';
+      context.fillText('No snapshot', x + CELL_WIDTH / 2 - 34, y + CELL_IMAGE_HEIGHT / 2);
+    }
+
+    context.fillStyle = eventTypes.find(e => e.id === t.eventId)?.color || '#6c757d';
+    context.fillRect(x + 4, y + CELL_IMAGE_HEIGHT + 2, 4, CELL_LABEL_HEIGHT - 8);
+    context.fillStyle = '#212529';
+    context.font = 'bold 13px sans-serif';
+    context.fillText(`#${firstNumber + index} ${t.eventName}${t.movementName ? ` · ${t.movementName}` : ''}`, x + 12, y + CELL_IMAGE_HEIGHT + 16, CELL_WIDTH - 16);
+    context.font = '12px sans-serif';
+    context.fillText(`${t.dateTime ? t.dateTime.slice(0, 10) : ''} ${t.timeHHMMSS}${t.cameraName ? ` · ${t.cameraName}` : ''}`, x + 12, y + CELL_IMAGE_HEIGHT + 31, CELL_WIDTH - 16);
+  });
+
+  return canvas;
+};
+
+// Export image grids of the event snapshots with their number, name and time, one file per 100 events
+export const exportContactSheet = async (timestamps: Timestamp[], thumbnails: Record<string, string>, eventTypes: EventType[]): Promise<void> => {
+  const date = new Date().toISOString().split('T')[0];
+  const pageCount = Math.ceil(timestamps.length / CONTACT_SHEET_PAGE_SIZE);
+
+  for (let page = 0; page < pageCount; page++) {
+    const first = page * CONTACT_SHEET_PAGE_SIZE;
+    const pageTimestamps = timestamps.slice(first, first + CONTACT_SHEET_PAGE_SIZE);
+    const title = `Events ${first + 1}-${first + pageTimestamps.length} of ${timestamps.length}${pageCount > 1 ? ` (page ${page + 1}/${pageCount})` : ''}`;
+    const canvas = await drawContactSheetPage(pageTimestamps, first + 1, thumbnails, eventTypes, title);
+    const blob = await canvasToBlob(canvas);
+    if (blob) {
+      downloadFile(blob, `contact_sheet_${date}${pageCount > 1 ? `_${page + 1}` : ''}.jpg`, 'image/jpeg');
+    }
+  }
+};
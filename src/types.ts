@@ -4,27 +4,246 @@ export interface VideoFile {
   name: string;
   duration: number;
   startTime: string; // HH:MM:SS format
+  startDate: string; // YYYY-MM-DD format
+  utcOffset: string; // e.g. +02:00
+  clockAnchors?: ClockAnchor[]; // readings of the camera clock used to correct drift
+  cameraId: string;
+  syncOffset?: number; // seconds, copied from the video's camera
+  frameRate: number; // frames per second, detected on load
+  startTimeSource?: StartTimeSource;
   color: string;
   url: string;
 }
 
+// Where the start date and time of a video came from
+export type StartTimeSource = 'gopro-gps' | 'dji' | 'quicktime' | 'filename' | 'container' | 'file-date' | 'previous-video' | 'session' | 'manual';
+
+// Recording details read from the MP4/MOV box structure of a video file
+export interface ContainerMetadata {
+  creationTime?: Date; // mvhd (or video tkhd) creation_time, UTC by the specification
+  creationDate?: string; // QuickTime creation date (com.apple.quicktime.creationdate or ©day), with its UTC offset
+  gpsTime?: Date; // GoPro GPMF GPSU time of the first telemetry payload, UTC
+  djiTime?: string; // DJI camera clock (first caption, else the movie header) as local YYYY-MM-DDTHH:MM:SS without UTC offset
+  duration?: number; // seconds
+  frameRate?: number; // frames per second of the video track
+}
+
+// A camera view; its videos form one track on the shared wall-clock timeline
+export interface Camera {
+  id: string;
+  name: string;
+  color: string;
+  syncOffset: number; // seconds added to the wall-clock times of the camera's videos
+  overlays: OverlayShape[]; // count lines, zones and labels drawn over the camera's videos
+  speedTraps: SpeedTrap[];
+}
+
+// Two count lines of a camera a known distance apart, for spot-speed measurements
+export interface SpeedTrap {
+  id: string;
+  name: string;
+  entryLineId: string;
+  exitLineId: string;
+  distance: number; // metres between the lines
+}
+
+// Spot speed of a vehicle between the lines of a speed trap; the timestamp itself is the entry crossing
+export interface SpeedMeasurement {
+  speedTrapId: string;
+  speedTrapName: string;
+  distance: number; // metres
+  exitVideoId: string;
+  exitSecondCurrent: number; // seconds from start of the exit video
+  exitFrameIndex: number;
+  travelTime: number; // seconds between the crossings
+  speedKmh: number;
+}
+
+// Position on the video frame, from 0 to 1 of its width and height
+export interface NormalizedPoint {
+  x: number;
+  y: number;
+}
+
+export type OverlayKind = 'line' | 'zone' | 'label';
+
+// Count line (2 points), zone (polygon) or text label drawn over the video frame
+export interface OverlayShape {
+  id: string;
+  kind: OverlayKind;
+  name: string;
+  color: string;
+  points: NormalizedPoint[];
+  eventTypeIds: number[]; // event types counted at this line or zone
+}
+
+// "At video second X the real clock read Y", e.g. read off the burned-in OSD
+export interface ClockAnchor {
+  id: string;
+  videoSecond: number;
+  clockTime: string; // HH:MM:SS format
+}
+
+export type EventKind = 'point' | 'interval';
+
+export type AttributeType = 'enum' | 'number' | 'boolean' | 'text';
+
+export type AttributeValue = string | number | boolean;
+
+export interface AttributeOption {
+  value: string;
+  hotkey: string; // sets this value on the last marked event
+}
+
+// Structured field recorded per event (e.g. occupancy, axle count)
+export interface AttributeDefinition {
+  id: string;
+  name: string;
+  type: AttributeType;
+  options: AttributeOption[]; // enum attributes only
+  hotkey: string; // boolean: toggles the value, number: increments the value
+}
+
 export interface EventType {
   id: number;
   name: string;
   color: string;
   count: number;
+  hotkey: string; // key combination, e.g. "1", "q" or "Shift+q"
+  kind: EventKind; // interval events are started and stopped by pressing the hotkey twice
+  attributes: AttributeDefinition[];
+  reactionTime?: number; // seconds the key press lags the event; subtracted when marking
+  reactionTimeScaled?: boolean; // multiply the reaction time by the playback speed
+}
+
+// Second annotation dimension (e.g. N-left, N-through), combined with an event type via a key chord
+export interface Movement {
+  id: number;
+  name: string;
+  color: string;
+  hotkey: string;
+}
+
+// Event key pressed in chord mode, waiting for the movement key
+export interface PendingChord {
+  eventId: number;
+  position: Pick<VideoState, 'currentTime' | 'currentVideoIndex' | 'currentVideoTime' | 'playbackRate'>;
+  startedAt: number; // Date.now() when the event key was pressed
+  point?: NormalizedPoint; // set when the event was marked by clicking on the video
+}
+
+// Reusable survey layout: event types (without counts), movements and chord mode
+export interface CountTemplate {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+  eventTypes: Omit<EventType, 'count'>[];
+  movements: Movement[];
+  chordMode: boolean;
+  filenamePatterns?: FilenamePattern[];
+}
+
+// Filename template with tokens such as {YYYY}{MM}{DD}{hh}{mm}{ss} and {cam}, for reading start times and cameras
+export interface FilenamePattern {
+  id: string;
+  template: string;
 }
 
 export interface Timestamp {
   id: string;
   eventId: number;
   eventName: string;
-  atSecondFirst: number; // seconds from start of first video
+  atSecondFirst: number; // seconds from the start of the wall-clock timeline (earliest video start)
   atSecondCurrent: number; // seconds from start of current video
+  frameIndex?: number; // frame of its video at atSecondCurrent
+  rawSecondCurrent?: number; // video time of the key press, before reaction-time compensation
+  rawPlaybackRate?: number; // playback speed at the key press
   timeHHMMSS: string; // HH:MM:SS format
+  dateTime: string; // ISO-8601 with UTC offset, e.g. 2024-05-01T23:59:58+02:00
   videoId: string;
   videoName: string;
+  cameraId?: string; // camera view the event was marked in
+  cameraName?: string;
+  point?: NormalizedPoint; // where the event was clicked on the video frame
+  zoneId?: string; // drawn zone containing the point
+  zoneName?: string;
+  speed?: SpeedMeasurement; // spot speed measured from this entry crossing
+  candidateId?: string; // detector candidate this event was confirmed from
   note: string;
+  movementId?: number;
+  movementName?: string;
+  attributes?: Record<string, AttributeValue>; // keyed by attribute id
+  // Interval events only; endSecondFirst is null while the interval is still open
+  endSecondFirst?: number | null;
+  endSecondCurrent?: number;
+  endFrameIndex?: number;
+  rawEndSecondCurrent?: number;
+  rawEndPlaybackRate?: number;
+  endTimeHHMMSS?: string;
+  endDateTime?: string;
+  endVideoId?: string;
+}
+
+// Position of a tracked vehicle in one frame
+export interface TrajectoryPoint {
+  atSecondFirst: number; // seconds from the start of the wall-clock timeline
+  atSecondCurrent: number; // seconds from start of its video
+  frameIndex: number;
+  dateTime: string; // ISO-8601 with UTC offset
+  videoId: string;
+  x: number; // position on the video frame, from 0 to 1
+  y: number;
+}
+
+// Stretch of a video reviewed with motion-triggered fast-forward; idle stretches were played fast
+export interface ActivitySegment {
+  videoId: string;
+  videoName: string; // finds the video again in a reloaded session
+  start: number; // seconds from the start of the video
+  end: number;
+  active: boolean; // motion in the region, played at normal speed
+}
+
+// Moving blob crossing a count line, found by the detector in a pre-scanned video
+export interface LineCrossing {
+  time: number; // seconds from the start of the video
+  point: NormalizedPoint; // where the blob crossed the line
+  direction: 1 | -1; // side the blob moved to: 1 is right of the line, looking from its first point to its second
+}
+
+export type CandidateStatus = 'pending' | 'confirmed' | 'rejected';
+
+// Line crossing waiting for the annotator's decision in the review queue
+export interface CandidateEvent extends LineCrossing {
+  id: string;
+  videoId: string;
+  videoName: string; // finds the video again in a reloaded session
+  cameraId: string;
+  lineId: string;
+  lineName: string;
+  suggestedEventId: number | null; // first point event type linked to the line
+  status: CandidateStatus;
+  eventId?: number; // class confirmed by the annotator; reclassified if it differs from the suggestion
+  timestampId?: string; // event created on confirmation
+}
+
+// Path of one vehicle, clicked frame by frame in tracking mode
+export interface Trajectory {
+  id: string;
+  number: number; // shown as #1, #2, ...
+  eventId: number; // vehicle class
+  eventName: string;
+  cameraId: string;
+  cameraName: string;
+  note: string;
+  points: TrajectoryPoint[]; // sorted by time
+}
+
+export type IntegrityIssueType = 'duplicate-id' | 'unknown-reference' | 'orphan-video' | 'stale-name' | 'time-out-of-sync' | 'count-mismatch';
+
+export interface IntegrityIssue {
+  type: IntegrityIssueType;
+  message: string;
 }
 
 export interface VideoState {
@@ -42,13 +261,28 @@ export interface SessionData {
   exportDate: string;
   darkMode: boolean;
   eventTypes: EventType[];
+  movements: Movement[];
+  chordMode: boolean;
+  chordTimeoutMs: number;
   timestamps: Timestamp[];
   leftPanelWidth: number;
   seekSeconds: number;
   seekSecondsShift: number;
   videoFiles: {
+    id?: string; // referred to by the annotations; missing in sessions saved before relinking
     name: string;
+    size?: number; // bytes, recognises renamed files
     startTime: string;
+    startDateTime?: string; // ISO-8601 with UTC offset
     duration: number;
+    clockAnchors?: ClockAnchor[];
+    cameraId?: string;
+    frameRate?: number;
+    startTimeSource?: StartTimeSource;
   }[];
+  cameras?: Camera[];
+  trajectories?: Trajectory[];
+  filenamePatterns?: FilenamePattern[];
+  activitySegments?: ActivitySegment[];
+  candidates?: CandidateEvent[];
 }
@@ -0,0 +1,289 @@
+import { AttributeDefinition, ClockAnchor, EventType, FilenamePattern, PendingChord, SpeedMeasurement, SpeedTrap, Timestamp, VideoFile } from './types';
+import {
+  applyReactionTimes,
+  calculatePercentile,
+  calculateSpotSpeed,
+  calculateVideoDateTime,
+  compileFilenamePattern,
+  createTimestampsCsv,
+  getClockCorrection,
+  getReactionOffset,
+  inferStartTime,
+  matchFilenamePatterns,
+  toEpochSeconds
+} from './utils';
+
+const NORTH_CAMERA = {
+  id: 'v1',
+  file: {} as File,
+  name: 'north.mp4',
+  duration: 3600,
+  startTime: '07:00:00',
+  startDate: '2024-05-01',
+  utcOffset: '+02:00',
+  color: '#000000',
+  url: 'blob:v1'
+} as VideoFile;
+
+const START = toEpochSeconds('2024-05-01', '07:00:00', '+02:00');
+
+const withAnchors = (...anchors: [number, string][]): VideoFile => ({
+  ...NORTH_CAMERA,
+  clockAnchors: anchors.map(([videoSecond, clockTime], index): ClockAnchor => ({ id: `anchor-${index}`, videoSecond, clockTime }))
+});
+
+describe('getClockCorrection', () => {
+  it('is not applied without anchors', () => {
+    expect(getClockCorrection(NORTH_CAMERA)).toBeNull();
+    expect(calculateVideoDateTime(NORTH_CAMERA, 90).time).toBe('07:01:30');
+  });
+
+  it('shifts the whole video by a single reading', () => {
+    const video = withAnchors([600, '07:10:05']);
+
+    expect(getClockCorrection(video)!.slope).toBe(1);
+    expect(calculateVideoDateTime(video, 0).time).toBe('07:00:05');
+    expect(calculateVideoDateTime(video, 1800).time).toBe('07:30:05');
+  });
+
+  it('corrects a constant drift between two readings', () => {
+    const video = withAnchors([0, '07:00:00'], [3600, '08:00:36']);
+
+    expect(getClockCorrection(video)!.slope).toBeCloseTo(1.01);
+    expect(calculateVideoDateTime(video, 1800).time).toBe('07:30:18');
+  });
+
+  it('fits a least-squares line through noisy readings', () => {
+    const correction = getClockCorrection(withAnchors([0, '07:00:00'], [1800, '07:30:20'], [3600, '08:00:36']))!;
+
+    expect(correction.slope).toBeCloseTo(1.01);
+    expect(correction.intercept - START).toBeCloseTo(2 / 3);
+  });
+
+  it('reads anchors after midnight as the next day', () => {
+    const video = withAnchors([1200, '00:10:02']);
+    const lateVideo = { ...video, startTime: '23:50:00' };
+
+    expect(calculateVideoDateTime(lateVideo, 1200)).toMatchObject({ date: '2024-05-02', time: '00:10:02' });
+    expect(calculateVideoDateTime(lateVideo, 0)).toMatchObject({ date: '2024-05-01', time: '23:50:02' });
+  });
+});
+
+const CAR = { id: 1, name: 'Car', color: '#ff0000', count: 0, hotkey: '1', kind: 'point', attributes: [], reactionTime: 0.5 } as EventType;
+const QUEUE = { ...CAR, id: 2, name: 'Queue', kind: 'interval', reactionTime: 0.4, reactionTimeScaled: true } as EventType;
+
+const CAR_MARK = {
+  id: 'a',
+  eventId: 1,
+  eventName: 'Car',
+  atSecondFirst: 9.5,
+  atSecondCurrent: 9.5,
+  timeHHMMSS: '07:00:09',
+  videoId: 'v1',
+  videoName: 'north.mp4',
+  note: '',
+  rawSecondCurrent: 10,
+  rawPlaybackRate: 2
+} as Timestamp;
+
+describe('getReactionOffset', () => {
+  it('scales the reaction time with the playback speed only when asked to', () => {
+    expect(getReactionOffset(CAR, 2)).toBe(0.5);
+    expect(getReactionOffset(QUEUE, 2)).toBeCloseTo(0.8);
+    expect(getReactionOffset(undefined, 2)).toBe(0);
+  });
+});
+
+describe('applyReactionTimes', () => {
+  it('recomputes marks from their raw key presses', () => {
+    const [mark] = applyReactionTimes([NORTH_CAMERA], [CAR_MARK], [{ ...CAR, reactionTime: 1 }]);
+
+    expect(mark.atSecondCurrent).toBe(9);
+    expect(mark.atSecondFirst).toBe(9);
+    expect(mark.timeHHMMSS).toBe('07:00:09');
+    expect(mark.rawSecondCurrent).toBe(10);
+  });
+
+  it('takes older marks as key presses at normal speed', () => {
+    const older = { ...CAR_MARK, eventId: 2, rawSecondCurrent: undefined, rawPlaybackRate: undefined } as Timestamp;
+    const [mark] = applyReactionTimes([NORTH_CAMERA], [older], [QUEUE]);
+
+    expect(mark).toMatchObject({ rawSecondCurrent: 9.5, rawPlaybackRate: 1 });
+    expect(mark.atSecondCurrent).toBeCloseTo(9.1);
+  });
+
+  it('compensates both ends of an interval and never goes before the video start', () => {
+    const interval = {
+      ...CAR_MARK,
+      eventId: 2,
+      rawSecondCurrent: 0.2,
+      endSecondFirst: 30,
+      endSecondCurrent: 30,
+      endVideoId: 'v1',
+      rawEndSecondCurrent: 31,
+      rawEndPlaybackRate: 0.5
+    } as Timestamp;
+    const [mark] = applyReactionTimes([NORTH_CAMERA], [interval], [QUEUE]);
+
+    expect(mark.atSecondCurrent).toBe(0);
+    expect(mark.endSecondCurrent).toBeCloseTo(30.8);
+    expect(mark.endSecondFirst).toBeCloseTo(30.8);
+  });
+
+  it('keeps confirmed detector candidates on their crossing frame', () => {
+    const confirmed = { ...CAR_MARK, candidateId: 'candidate-1' } as Timestamp;
+
+    expect(applyReactionTimes([NORTH_CAMERA], [confirmed], [CAR])[0]).toMatchObject({ atSecondCurrent: 9.5, candidateId: 'candidate-1' });
+  });
+});
+
+const SPEED_TRAP: SpeedTrap = { id: 'trap-1', name: 'North approach', entryLineId: 'line-1', exitLineId: 'line-2', distance: 20 };
+const TRAP_VIDEOS = [
+  { ...NORTH_CAMERA, frameRate: 25 },
+  { ...NORTH_CAMERA, id: 'v2', name: 'north-2.mp4', startTime: '08:00:00', frameRate: 25 }
+] as VideoFile[];
+
+const ENTRY: PendingChord['position'] = { currentTime: 3590.02, currentVideoIndex: 0, currentVideoTime: 3590.02, playbackRate: 1 };
+
+describe('calculateSpotSpeed', () => {
+  it('times crossings within one video by their frames', () => {
+    const exit = { ...ENTRY, currentTime: 3590.82, currentVideoTime: 3590.82 };
+
+    expect(calculateSpotSpeed(TRAP_VIDEOS, ENTRY, exit, SPEED_TRAP)).toMatchObject({
+      speedTrapId: 'trap-1',
+      exitVideoId: 'v1',
+      exitFrameIndex: 89770,
+      travelTime: 0.8,
+      speedKmh: 90
+    });
+  });
+
+  it('times crossings in different videos on the timeline', () => {
+    const exit = { ...ENTRY, currentTime: 3601.02, currentVideoIndex: 1, currentVideoTime: 1.02 };
+    const speed = calculateSpotSpeed(TRAP_VIDEOS, ENTRY, exit, SPEED_TRAP)!;
+
+    expect(speed.exitVideoId).toBe('v2');
+    expect(speed.travelTime).toBeCloseTo(11);
+  });
+
+  it('accepts the lines crossed in reverse order', () => {
+    const exit = { ...ENTRY, currentTime: 3589.22, currentVideoTime: 3589.22 };
+
+    expect(calculateSpotSpeed(TRAP_VIDEOS, ENTRY, exit, SPEED_TRAP)!.speedKmh).toBeCloseTo(90);
+  });
+
+  it('measures nothing without travel time or distance', () => {
+    const sameFrame = { ...ENTRY, currentTime: 3590.03, currentVideoTime: 3590.03 };
+
+    expect(calculateSpotSpeed(TRAP_VIDEOS, ENTRY, sameFrame, SPEED_TRAP)).toBeNull();
+    expect(calculateSpotSpeed(TRAP_VIDEOS, ENTRY, { ...ENTRY, currentTime: 3591, currentVideoTime: 3591 }, { ...SPEED_TRAP, distance: 0 })).toBeNull();
+  });
+
+  it('is not moved by reaction times applied afterwards', () => {
+    const speed = { speedTrapId: 'trap-1', travelTime: 0.8, speedKmh: 90 } as SpeedMeasurement;
+    const measured = { ...CAR_MARK, speed };
+
+    expect(applyReactionTimes([NORTH_CAMERA], [measured], [CAR])[0]).toMatchObject({ atSecondCurrent: 9.5, speed });
+  });
+});
+
+describe('calculatePercentile', () => {
+  it('interpolates between neighbouring values', () => {
+    expect(calculatePercentile([50, 30, 40, 10, 20], 0.5)).toBe(30);
+    expect(calculatePercentile([10, 20, 30, 40, 50], 0.85)).toBeCloseTo(44);
+    expect(calculatePercentile([], 0.85)).toBe(0);
+  });
+});
+
+const NVR_EXPORT: FilenamePattern = { id: 'nvr', template: 'ch{cam}_{YYYY}{MM}{DD}{hh}{mm}{ss}' };
+const DASHED_TIME: FilenamePattern = { id: 'dashed', template: '{hh}-{mm}-{ss}' };
+const DATE_UNDERSCORE_TIME: FilenamePattern = { id: 'date-time', template: '{YYYY}{MM}{DD}_{hh}{mm}{ss}' };
+
+describe('compileFilenamePattern', () => {
+  it('requires hours and minutes', () => {
+    expect(compileFilenamePattern('{YYYY}{MM}{DD}')).toBeNull();
+    expect(compileFilenamePattern('{hh}{mm}')).not.toBeNull();
+  });
+
+  it('rejects unknown tokens', () => {
+    expect(compileFilenamePattern('{hh}{mm}{foo}')).toBeNull();
+  });
+
+  it('matches other characters literally', () => {
+    const dotted = [{ id: 'dotted', template: 'cam1.{hh}{mm}' }];
+
+    expect(matchFilenamePatterns('cam1.2024.mp4', dotted)?.time).toBe('20:24:00');
+    expect(matchFilenamePatterns('cam1x2024.mp4', dotted)).toBeNull();
+  });
+});
+
+describe('matchFilenamePatterns', () => {
+  it('reads the date, time and camera label of an NVR export', () => {
+    expect(matchFilenamePatterns('CH02_20240501073015.mp4', [NVR_EXPORT])).toEqual({ pattern: NVR_EXPORT, date: '2024-05-01', time: '07:30:15', camera: '02' });
+  });
+
+  it('expands two-digit years and defaults the seconds', () => {
+    const match = matchFilenamePatterns('rec_240501_0730.mov', [{ id: 'short', template: 'rec_{YY}{MM}{DD}_{hh}{mm}' }]);
+
+    expect(match?.date).toBe('2024-05-01');
+    expect(match?.time).toBe('07:30:00');
+  });
+
+  it('leaves the date out when the pattern has none', () => {
+    expect(matchFilenamePatterns('07-30-15.mp4', [DASHED_TIME])?.date).toBeUndefined();
+  });
+
+  it('tries the patterns in list order', () => {
+    expect(matchFilenamePatterns('20240501_073015.mp4', [DASHED_TIME, DATE_UNDERSCORE_TIME])?.pattern).toBe(DATE_UNDERSCORE_TIME);
+    expect(matchFilenamePatterns('07-30-15_20240501_073015.mp4', [DASHED_TIME, DATE_UNDERSCORE_TIME])?.pattern).toBe(DASHED_TIME);
+  });
+
+  it('skips patterns whose date or time is out of range', () => {
+    const dayFirst: FilenamePattern = { id: 'day-first', template: '{DD}{MM}{YYYY}{hh}{mm}' };
+    const match = matchFilenamePatterns('010520240730.mp4', [{ id: 'year-first', template: '{YYYY}{MM}{DD}{hh}{mm}' }, dayFirst]);
+
+    expect(match).toMatchObject({ pattern: dayFirst, date: '2024-05-01', time: '07:30:00' });
+    expect(matchFilenamePatterns('2561.mp4', [{ id: 'time', template: '{hh}{mm}' }])).toBeNull();
+  });
+
+  it('returns null without a matching pattern', () => {
+    expect(matchFilenamePatterns('video.mp4', [DASHED_TIME])).toBeNull();
+    expect(matchFilenamePatterns('07-30-15.mp4', [])).toBeNull();
+  });
+});
+
+describe('inferStartTime', () => {
+  it('takes the DJI camera time as local time before the movie header', () => {
+    const start = inferStartTime('DJI_0001.MP4', undefined, { djiTime: '2024-05-01T07:30:00', creationTime: new Date(Date.UTC(2024, 4, 1, 7, 30)) });
+
+    expect(start).toMatchObject({ startDate: '2024-05-01', startTime: '07:30:00', source: 'dji' });
+  });
+});
+
+describe('createTimestampsCsv', () => {
+  const SIZE = { id: 'size', name: 'size, class', type: 'text', options: [], hotkey: '' } as AttributeDefinition;
+  const LABELLED = { ...CAR, attributes: [SIZE] } as EventType;
+
+  it('quotes text fields and doubles the quotes inside', () => {
+    const mark = {
+      ...CAR_MARK,
+      eventName: 'Car, "small"',
+      note: 'line one\nline "two"',
+      dateTime: '2024-05-01T07:00:09+02:00',
+      attributes: { size: 'L, "XL"' }
+    } as Timestamp;
+    const [header, ...rows] = createTimestampsCsv([mark], [LABELLED]).split(/\n(?=\d)/);
+
+    expect(header.endsWith(',"attr_size, class"')).toBe(true);
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toContain('1,"Car, ""small""",9.5,9.5,07:00:09,"v1","north.mp4","line one\nline ""two""",');
+    expect(rows[0].endsWith(',"L, ""XL"""')).toBe(true);
+  });
+
+  it('writes missing text as empty quoted fields', () => {
+    const csv = createTimestampsCsv([{ ...CAR_MARK, dateTime: '' } as Timestamp], [LABELLED]);
+
+    expect(csv.split('\n')[1].endsWith(',""')).toBe(true);
+    expect(csv.split('\n')[1]).toContain(',"north.mp4","",,"",');
+  });
+});
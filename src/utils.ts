@@ -1,4 +1,4 @@
-import { VideoFile, EventType, Timestamp, SessionData } from './types';
+import { VideoFile, EventType, Movement, Timestamp, SessionData, AttributeDefinition, AttributeValue, Camera, VideoState, NormalizedPoint, OverlayShape, Trajectory, TrajectoryPoint, PendingChord, SpeedTrap, SpeedMeasurement, ContainerMetadata, StartTimeSource, FilenamePattern, ActivitySegment, CandidateEvent } from './types';
 
 // Convert seconds to HH:MM:SS format
 export const formatTime = (seconds: number): string => {
@@ -16,6 +16,52 @@ export const parseTime = (timeStr: string): number => {
   return parts[0] * 3600 + parts[1] * 60 + parts[2];
 };
 
+// Format seconds since midnight as a time of day, rolling over at midnight
+export const formatTimeOfDay = (seconds: number): string => {
+  return formatTime(((seconds % 86400) + 86400) % 86400);
+};
+
+// Current UTC offset of the browser for a date, e.g. "+02:00"
+export const getLocalUtcOffset = (date: Date = new Date()): string => {
+  const minutes = -date.getTimezoneOffset();
+  const sign = minutes < 0 ? '-' : '+';
+  const hours = Math.floor(Math.abs(minutes) / 60).toString().padStart(2, '0');
+  return `${sign}${hours}:${(Math.abs(minutes) % 60).toString().padStart(2, '0')}`;
+};
+
+// Local calendar date of a Date as YYYY-MM-DD
+export const formatLocalDate = (date: Date): string => {
+  return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`;
+};
+
+// Convert a UTC offset like "+02:00" to seconds
+export const parseUtcOffset = (utcOffset: string): number => {
+  const match = utcOffset.match(/^([+-])(\d{2}):(\d{2})$/);
+  if (!match) return 0;
+  return (match[1] === '-' ? -1 : 1) * (Number(match[2]) * 3600 + Number(match[3]) * 60);
+};
+
+// Convert a local date, time and UTC offset to seconds since the Unix epoch
+export const toEpochSeconds = (date: string, time: string, utcOffset: string): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day) / 1000 + parseTime(time) - parseUtcOffset(utcOffset);
+};
+
+// Convert seconds since the Unix epoch to a local date, time and ISO-8601 datetime in the given UTC offset
+export const fromEpochSeconds = (epochSeconds: number, utcOffset: string): { date: string; time: string; iso: string } => {
+  const local = new Date(Math.floor(epochSeconds + parseUtcOffset(utcOffset)) * 1000);
+  const date = `${local.getUTCFullYear()}-${(local.getUTCMonth() + 1).toString().padStart(2, '0')}-${local.getUTCDate().toString().padStart(2, '0')}`;
+  const time = formatTime(local.getUTCHours() * 3600 + local.getUTCMinutes() * 60 + local.getUTCSeconds());
+  return { date, time, iso: `${date}T${time}${utcOffset}` };
+};
+
+// Split an ISO-8601 datetime with UTC offset (e.g. 2024-05-01T23:59:58+02:00) into its parts
+export const parseIsoDateTime = (iso: string): { date: string; time: string; utcOffset: string } | null => {
+  const match = iso.match(/^(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2}:\d{2})(?:\.\d+)?(Z|[+-]\d{2}:\d{2})$/);
+  if (!match) return null;
+  return { date: match[1], time: match[2], utcOffset: match[3] === 'Z' ? '+00:00' : match[3] };
+};
+
 // Generate a unique ID
 export const generateId = (): string => {
   return Math.random().toString(36).substr(2, 9);
@@ -35,75 +81,794 @@ export const getVideoColors = (): string[] => [
   '#1F2937'  // Dark Gray
 ];
 
-// Parse start time from filename or use fallback
-export const inferStartTime = (filename: string, fileDate?: Date): string => {
+// Shortcuts used by the app itself, which cannot be bound to event types
+export const RESERVED_HOTKEYS: string[] = [
+  'Space', 'u', 'Shift+u', 's', 'Shift+s', 'a', 'Shift+a', 'r', 'Shift+r', 'y', 'Shift+y',
+  'n', 'Shift+n', '?', 'i', 'o', 'j', 'Shift+j', 'l', 'Shift+l',
+  'ArrowLeft', 'Shift+ArrowLeft', 'ArrowRight', 'Shift+ArrowRight', ',', '.', 'Backspace', 'Escape'
+];
+
+// Check whether a hotkey can be bound; returns an error message or an empty string
+export const getHotkeyConflict = (hotkey: string, bindings: { name: string; hotkey: string }[]): string => {
+  if (RESERVED_HOTKEYS.includes(hotkey)) {
+    return `"${hotkey}" is already used by an application shortcut. Please choose another key.`;
+  }
+  const conflict = bindings.find(b => b.hotkey === hotkey);
+  if (conflict) {
+    return `"${hotkey}" is already bound to "${conflict.name}". Please choose another key.`;
+  }
+  return '';
+};
+
+// Build a normalized key combination string (e.g. "Ctrl+Shift+k") from a keyboard event
+export const getHotkeyFromEvent = (event: { key: string; ctrlKey: boolean; altKey: boolean; metaKey: boolean; shiftKey: boolean }): string => {
+  if (['Control', 'Alt', 'Shift', 'Meta'].includes(event.key)) return '';
+
+  const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+  const parts: string[] = [];
+  if (event.ctrlKey) parts.push('Ctrl');
+  if (event.altKey) parts.push('Alt');
+  if (event.metaKey) parts.push('Meta');
+  // Shifted symbols already produce their own character (e.g. "!"), so Shift is only kept for letters and named keys
+  if (event.shiftKey && (event.key.length > 1 || key !== key.toUpperCase())) parts.push('Shift');
+  parts.push(key === ' ' ? 'Space' : key);
+
+  return parts.join('+');
+};
+
+// Create the default set of event types (bound to keys 1-5)
+export const createDefaultEventTypes = (): EventType[] => {
+  const colors = getVideoColors();
+  return Array.from({ length: 5 }, (_, i) => ({
+    id: i + 1,
+    name: `Unnamed ${i + 1}`,
+    color: colors[i],
+    count: 0,
+    hotkey: `${i + 1}`,
+    kind: 'point',
+    attributes: []
+  }));
+};
+
+// Create a new event type with the next free id and an unused color
+export const createEventType = (eventTypes: EventType[]): EventType => {
+  const colors = getVideoColors();
+  const id = eventTypes.reduce((max, e) => Math.max(max, e.id), 0) + 1;
+  const usedHotkeys = eventTypes.map(e => e.hotkey);
+  const freeDigit = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '0'].find(key => !usedHotkeys.includes(key));
+  return {
+    id,
+    name: `Unnamed ${id}`,
+    color: colors[(id - 1) % colors.length],
+    count: 0,
+    hotkey: freeDigit || '',
+    kind: 'point',
+    attributes: []
+  };
+};
+
+// Recompute the per-type counts from the annotations
+export const recalculateEventCounts = (eventTypes: EventType[], timestamps: Timestamp[]): EventType[] => {
+  return eventTypes.map(e => ({ ...e, count: timestamps.filter(t => t.eventId === e.id).length }));
+};
+
+// Create a new movement with the next free id
+export const createMovement = (movements: Movement[]): Movement => {
+  const colors = getVideoColors();
+  const id = movements.reduce((max, m) => Math.max(max, m.id), 0) + 1;
+  return {
+    id,
+    name: `Movement ${id}`,
+    color: colors[(id - 1) % colors.length],
+    hotkey: ''
+  };
+};
+
+// Create a new attribute definition for an event type
+export const createAttribute = (attributes: AttributeDefinition[]): AttributeDefinition => ({
+  id: generateId(),
+  name: `Attribute ${attributes.length + 1}`,
+  type: 'enum',
+  options: [],
+  hotkey: ''
+});
+
+// All hotkeys of the attributes of one event type, labelled for conflict messages
+export const getAttributeHotkeys = (eventType: EventType): { name: string; hotkey: string }[] => {
+  return eventType.attributes.reduce((bindings, attribute) => [
+    ...bindings,
+    ...(attribute.hotkey ? [{ name: `${eventType.name}: ${attribute.name}`, hotkey: attribute.hotkey }] : []),
+    ...attribute.options
+      .filter(option => option.hotkey)
+      .map(option => ({ name: `${eventType.name}: ${attribute.name} = ${option.value}`, hotkey: option.hotkey }))
+  ], [] as { name: string; hotkey: string }[]);
+};
+
+// Value an attribute hotkey sets on an event, undefined if the hotkey does not belong to the attribute
+export const getAttributeHotkeyValue = (attribute: AttributeDefinition, hotkey: string, currentValue: AttributeValue | undefined): AttributeValue | undefined => {
+  if (attribute.type === 'enum') {
+    return attribute.options.find(o => o.hotkey && o.hotkey === hotkey)?.value;
+  }
+  if (!attribute.hotkey || attribute.hotkey !== hotkey) return undefined;
+  if (attribute.type === 'boolean') return currentValue !== true;
+  if (attribute.type === 'number') return (typeof currentValue === 'number' ? currentValue : 0) + 1;
+  return undefined;
+};
+
+// Display an attribute value, '-' if not set
+export const formatAttributeValue = (value: AttributeValue | undefined): string => {
+  if (value === undefined || value === '') return '-';
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  return `${value}`;
+};
+
+// Total time covered by a set of intervals within a range, counting overlapping intervals once
+export const calculateIntervalCoverage = (intervals: [number, number][], rangeStart: number, rangeEnd: number): number => {
+  const clipped = intervals
+    .map(([start, end]) => [Math.max(start, rangeStart), Math.min(end, rangeEnd)] as [number, number])
+    .filter(([start, end]) => end > start)
+    .sort((a, b) => a[0] - b[0]);
+
+  let total = 0;
+  let currentEnd = -Infinity;
+  clipped.forEach(([start, end]) => {
+    if (end <= currentEnd) return;
+    total += end - Math.max(start, currentEnd);
+    currentEnd = end;
+  });
+
+  return total;
+};
+
+// Parse the start time from a filename, if it contains one
+export const parseStartTimeFromFilename = (filename: string): { date?: string; time: string } | null => {
   // Try to parse YYYYMMDD_HHMMSS pattern
   const dateTimeMatch = filename.match(/(\d{8})_(\d{6})/);
   if (dateTimeMatch) {
-    const timeStr = dateTimeMatch[2];
+    const [dateStr, timeStr] = [dateTimeMatch[1], dateTimeMatch[2]];
     const hours = timeStr.substr(0, 2);
     const minutes = timeStr.substr(2, 2);
     const seconds = timeStr.substr(4, 2);
-    return `${hours}:${minutes}:${seconds}`;
+    return {
+      date: `${dateStr.substr(0, 4)}-${dateStr.substr(4, 2)}-${dateStr.substr(6, 2)}`,
+      time: `${hours}:${minutes}:${seconds}`
+    };
   }
   
   // Try to parse HH-MM-SS or HH_MM_SS pattern
   const timeMatch = filename.match(/(\d{2})[-_](\d{2})[-_](\d{2})/);
   if (timeMatch) {
-    return `${timeMatch[1]}:${timeMatch[2]}:${timeMatch[3]}`;
+    return { time: `${timeMatch[1]}:${timeMatch[2]}:${timeMatch[3]}` };
+  }
+
+  return null;
+};
+
+// Tokens of filename patterns and the text they match
+export const FILENAME_PATTERN_TOKENS: Record<string, string> = {
+  YYYY: '\\d{4}',
+  YY: '\\d{2}',
+  MM: '\\d{2}',
+  DD: '\\d{2}',
+  hh: '\\d{2}',
+  mm: '\\d{2}',
+  ss: '\\d{2}',
+  cam: '[A-Za-z0-9]+',
+  '*': '.*?'
+};
+
+// Regular expression and token order of a filename pattern, or null if it has unknown tokens or no hour and minute
+export const compileFilenamePattern = (template: string): { regex: RegExp; tokens: string[] } | null => {
+  const tokens: string[] = [];
+  let source = '';
+  const parts = template.split(/(\{[^}]*\})/);
+  for (const part of parts) {
+    const token = part.match(/^\{(.*)\}$/)?.[1];
+    if (token === undefined) {
+      source += part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    } else if (Object.prototype.hasOwnProperty.call(FILENAME_PATTERN_TOKENS, token)) {
+      tokens.push(token);
+      source += `(${FILENAME_PATTERN_TOKENS[token]})`;
+    } else {
+      return null;
+    }
+  }
+
+  if (!tokens.includes('hh') || !tokens.includes('mm')) return null;
+  return { regex: new RegExp(source, 'i'), tokens };
+};
+
+// Start date, time and camera label read from a filename with the first matching pattern
+export const matchFilenamePatterns = (
+  filename: string,
+  patterns: FilenamePattern[]
+): { pattern: FilenamePattern; date?: string; time: string; camera?: string } | null => {
+  for (const pattern of patterns) {
+    const compiled = compileFilenamePattern(pattern.template);
+    const match = compiled && filename.match(compiled.regex);
+    if (!compiled || !match) continue;
+
+    const values: Record<string, string> = {};
+    compiled.tokens.forEach((token, index) => {
+      values[token] = match[index + 1];
+    });
+    const year = values.YYYY || (values.YY && `20${values.YY}`);
+    const seconds = values.ss || '00';
+    if (Number(values.hh) > 23 || Number(values.mm) > 59 || Number(seconds) > 59) continue;
+    if (values.MM && (Number(values.MM) < 1 || Number(values.MM) > 12)) continue;
+    if (values.DD && (Number(values.DD) < 1 || Number(values.DD) > 31)) continue;
+
+    return {
+      pattern,
+      date: year && values.MM && values.DD ? `${year}-${values.MM}-${values.DD}` : undefined,
+      time: `${values.hh}:${values.mm}:${seconds}`,
+      camera: values.cam
+    };
+  }
+  return null;
+};
+
+// Camera named after a label from a filename; numbers compare by value, so "01" matches "Camera 1" and "ch1"
+export const findCameraByLabel = (cameras: Camera[], label: string): Camera | undefined => {
+  const number = /^\d+$/.test(label) ? Number(label) : null;
+  return cameras.find(c => {
+    if (c.name.toLowerCase() === label.toLowerCase()) return true;
+    const nameNumber = c.name.match(/(\d+)\s*$/);
+    return number !== null && nameNumber !== null && Number(nameNumber[1]) === number;
+  });
+};
+
+// Local date, time and UTC offset of the browser for a moment
+const toLocalStart = (date: Date): { startDate: string; startTime: string; utcOffset: string } => ({
+  startDate: formatLocalDate(date),
+  startTime: formatTime(date.getHours() * 3600 + date.getMinutes() * 60 + date.getSeconds()),
+  utcOffset: getLocalUtcOffset(date)
+});
+
+// Infer the start date, time and UTC offset of a video from its filename patterns, container metadata, filename or file date.
+// The user's patterns come first; GPS time, DJI camera time and QuickTime creation dates are most reliable; the file date is usually the copy time.
+export const inferStartTime = (
+  filename: string,
+  fileDate?: Date,
+  metadata: ContainerMetadata = {},
+  filenamePatterns: FilenamePattern[] = []
+): { startDate: string; startTime: string; utcOffset: string; source: StartTimeSource } => {
+  const date = fileDate || new Date();
+  const patternMatch = matchFilenamePatterns(filename, filenamePatterns);
+  if (patternMatch) {
+    return {
+      startDate: patternMatch.date || formatLocalDate(date),
+      startTime: patternMatch.time,
+      utcOffset: getLocalUtcOffset(date),
+      source: 'filename'
+    };
+  }
+
+  if (metadata.gpsTime) {
+    return { ...toLocalStart(metadata.gpsTime), source: 'gopro-gps' };
+  }
+
+  // DJI times are the camera's local clock; the UTC offset is the browser's at that time
+  if (metadata.djiTime) {
+    const [startDate, startTime] = metadata.djiTime.split('T');
+    return { startDate, startTime, utcOffset: getLocalUtcOffset(new Date(metadata.djiTime)), source: 'dji' };
+  }
+
+  const creationDate = metadata.creationDate ? parseIsoDateTime(metadata.creationDate) : null;
+  if (creationDate) {
+    return { startDate: creationDate.date, startTime: creationDate.time, utcOffset: creationDate.utcOffset, source: 'quicktime' };
+  }
+
+  const filenameTime = parseStartTimeFromFilename(filename);
+  if (filenameTime) {
+    return {
+      startDate: filenameTime.date || formatLocalDate(date),
+      startTime: filenameTime.time,
+      utcOffset: getLocalUtcOffset(date),
+      source: 'filename'
+    };
+  }
+
+  // Creation time of the movie header, stored in UTC
+  if (metadata.creationTime) {
+    return { ...toLocalStart(metadata.creationTime), source: 'container' };
   }
   
   // Fallback to file modification time if available
   if (fileDate) {
-    return formatTime(fileDate.getHours() * 3600 + fileDate.getMinutes() * 60 + fileDate.getSeconds());
+    return { ...toLocalStart(fileDate), source: 'file-date' };
   }
   
-  // Default fallback
-  return '00:00:00';
+  // Default fallback, to be entered by hand
+  return { startDate: formatLocalDate(date), startTime: '00:00:00', utcOffset: getLocalUtcOffset(date), source: 'manual' };
 };
 
-// Calculate total duration across all videos
-export const calculateTotalDuration = (videos: VideoFile[]): number => {
-  return videos.reduce((total, video) => total + video.duration, 0);
+// Start of a video in seconds since the Unix epoch
+export const getVideoStartEpoch = (video: VideoFile): number => {
+  return toEpochSeconds(video.startDate, video.startTime, video.utcOffset);
 };
 
-// Find which video contains a specific time
-export const findVideoAtTime = (videos: VideoFile[], totalSeconds: number): { videoIndex: number; videoTime: number } => {
-  let accumulatedTime = 0;
-  
-  for (let i = 0; i < videos.length; i++) {
-    if (totalSeconds <= accumulatedTime + videos[i].duration) {
-      return {
-        videoIndex: i,
-        videoTime: totalSeconds - accumulatedTime
-      };
+// Linear fit (least squares) of the camera's clock readings against video time, or null without anchors.
+// The real time at video second v is intercept + slope * v; a single anchor only corrects the offset.
+export const getClockCorrection = (video: VideoFile): { intercept: number; slope: number } | null => {
+  const anchors = video.clockAnchors || [];
+  if (anchors.length === 0) return null;
+
+  const start = getVideoStartEpoch(video);
+  const points = anchors.map(anchor => {
+    // Readings belong to the day closest to the nominal time, so anchors after midnight work
+    const reading = toEpochSeconds(video.startDate, anchor.clockTime, video.utcOffset);
+    const nominal = start + anchor.videoSecond;
+    return { x: anchor.videoSecond, y: reading + Math.round((nominal - reading) / 86400) * 86400 };
+  });
+
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  const varianceX = points.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+  const slope = varianceX > 0
+    ? points.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0) / varianceX
+    : 1;
+
+  return { intercept: meanY - slope * meanX, slope };
+};
+
+// Real-world date and time of a position within a video, corrected for clock drift and camera sync offset
+export const calculateVideoDateTime = (video: VideoFile, videoTime: number): { date: string; time: string; iso: string } => {
+  const correction = getClockCorrection(video);
+  const epochSeconds = correction
+    ? correction.intercept + correction.slope * videoTime
+    : getVideoStartEpoch(video) + videoTime;
+  return fromEpochSeconds(epochSeconds + (video.syncOffset || 0), video.utcOffset);
+};
+
+// Start of a video on the shared wall-clock timeline, including its camera's sync offset
+export const getVideoTimelineEpoch = (video: VideoFile): number => {
+  return getVideoStartEpoch(video) + (video.syncOffset || 0);
+};
+
+// The timeline starts at the earliest video start (seconds since the Unix epoch)
+export const getTimelineOrigin = (videos: VideoFile[]): number => {
+  return videos.length > 0 ? Math.min(...videos.map(getVideoTimelineEpoch)) : 0;
+};
+
+// Position of a video's start on the timeline
+export const getVideoOffset = (videos: VideoFile[], videoIndex: number): number => {
+  return getVideoTimelineEpoch(videos[videoIndex]) - getTimelineOrigin(videos);
+};
+
+// Videos placed on the wall-clock timeline, ordered by start time
+export const getTimelineSegments = (videos: VideoFile[]): { videoIndex: number; start: number; end: number }[] => {
+  const origin = getTimelineOrigin(videos);
+  return videos
+    .map((video, videoIndex) => {
+      const start = getVideoTimelineEpoch(video) - origin;
+      return { videoIndex, start, end: start + video.duration };
+    })
+    .sort((a, b) => a.start - b.start || a.videoIndex - b.videoIndex);
+};
+
+// Stretches of the timeline not covered by any video
+export const getTimelineGaps = (videos: VideoFile[]): { start: number; end: number }[] => {
+  const gaps: { start: number; end: number }[] = [];
+  let coveredUntil = 0;
+  getTimelineSegments(videos).forEach(segment => {
+    if (segment.start > coveredUntil) {
+      gaps.push({ start: coveredUntil, end: segment.start });
+    }
+    coveredUntil = Math.max(coveredUntil, segment.end);
+  });
+  return gaps;
+};
+
+// Stretches of the timeline covered by more than one video of the same camera
+export const getTimelineOverlaps = (videos: VideoFile[]): { start: number; end: number }[] => {
+  const overlaps: { start: number; end: number }[] = [];
+  const coveredUntil: { [cameraId: string]: number } = {};
+  getTimelineSegments(videos).forEach(segment => {
+    const cameraId = videos[segment.videoIndex].cameraId;
+    const cameraCoveredUntil = coveredUntil[cameraId] || 0;
+    if (segment.start < cameraCoveredUntil) {
+      overlaps.push({ start: segment.start, end: Math.min(cameraCoveredUntil, segment.end) });
     }
-    accumulatedTime += videos[i].duration;
+    coveredUntil[cameraId] = Math.max(cameraCoveredUntil, segment.end);
+  });
+  return overlaps;
+};
+
+// Record a reviewed stretch of a video; it replaces what earlier reviews recorded there, and touching
+// stretches of the same kind are merged
+export const addActivitySegment = (segments: ActivitySegment[], segment: ActivitySegment): ActivitySegment[] => {
+  const others = segments.reduce((result, s) => {
+    if (s.videoId !== segment.videoId || s.end <= segment.start || s.start >= segment.end) return [...result, s];
+    return [
+      ...result,
+      ...(s.start < segment.start ? [{ ...s, end: segment.start }] : []),
+      ...(s.end > segment.end ? [{ ...s, start: segment.end }] : [])
+    ];
+  }, [] as ActivitySegment[]);
+
+  const before = others.find(s => s.videoId === segment.videoId && s.active === segment.active && Math.abs(s.end - segment.start) < 0.001);
+  const after = others.find(s => s.videoId === segment.videoId && s.active === segment.active && Math.abs(s.start - segment.end) < 0.001);
+  const merged = { ...segment, start: before ? before.start : segment.start, end: after ? after.end : segment.end };
+  return [...others.filter(s => s !== before && s !== after), merged];
+};
+
+// Reviewed stretches placed on the timeline, ordered by time; videos are found by name in reloaded sessions
+export const getActivityRanges = (videos: VideoFile[], segments: ActivitySegment[]): { start: number; end: number; active: boolean }[] => {
+  return segments.reduce((ranges, segment) => {
+    const videoIndex = videos.findIndex(v => v.id === segment.videoId);
+    const index = videoIndex !== -1 ? videoIndex : videos.findIndex(v => v.name === segment.videoName);
+    if (index === -1) return ranges;
+    const offset = getVideoOffset(videos, index);
+    return [...ranges, { start: offset + segment.start, end: offset + segment.end, active: segment.active }];
+  }, [] as { start: number; end: number; active: boolean }[]).sort((a, b) => a.start - b.start);
+};
+
+// Detector candidates closer than this (in video seconds) to an already decided one are the same crossing
+const CANDIDATE_DUPLICATE_SECONDS = 0.5;
+
+// Replace the pending candidates of a rescanned video and line; decisions already taken are kept
+export const mergeCandidates = (candidates: CandidateEvent[], videoId: string, lineId: string, found: CandidateEvent[]): CandidateEvent[] => {
+  const decided = candidates.filter(c => c.videoId === videoId && c.lineId === lineId && c.status !== 'pending');
+  const kept = candidates.filter(c => c.videoId !== videoId || c.lineId !== lineId || c.status !== 'pending');
+  const added = found.filter(c => !decided.some(d => Math.abs(d.time - c.time) < CANDIDATE_DUPLICATE_SECONDS));
+  return [...kept, ...added];
+};
+
+// Position of a candidate on the timeline, or null if its video is not loaded; videos are found by name in reloaded sessions
+export const getCandidatePosition = (videos: VideoFile[], candidate: CandidateEvent): { videoIndex: number; currentTime: number } | null => {
+  const videoIndex = videos.findIndex(v => v.id === candidate.videoId);
+  const index = videoIndex !== -1 ? videoIndex : videos.findIndex(v => v.name === candidate.videoName);
+  if (index === -1) return null;
+  return { videoIndex: index, currentTime: getVideoOffset(videos, index) + candidate.time };
+};
+
+// Detector precision per count line: the share of decided candidates the annotator confirmed
+export const getCandidateReport = (candidates: CandidateEvent[]): {
+  lineId: string;
+  lineName: string;
+  detected: number;
+  confirmed: number;
+  reclassified: number;
+  rejected: number;
+  pending: number;
+  precision: number | null; // null until a candidate is decided
+}[] => {
+  const lineIds = candidates.map(c => c.lineId).filter((id, index, ids) => ids.indexOf(id) === index);
+  return lineIds.map(lineId => {
+    const lineCandidates = candidates.filter(c => c.lineId === lineId);
+    const confirmed = lineCandidates.filter(c => c.status === 'confirmed');
+    const rejected = lineCandidates.filter(c => c.status === 'rejected').length;
+    return {
+      lineId,
+      lineName: lineCandidates[lineCandidates.length - 1].lineName,
+      detected: lineCandidates.length,
+      confirmed: confirmed.length,
+      reclassified: confirmed.filter(c => c.suggestedEventId !== null && c.eventId !== c.suggestedEventId).length,
+      rejected,
+      pending: lineCandidates.filter(c => c.status === 'pending').length,
+      precision: confirmed.length + rejected > 0 ? confirmed.length / (confirmed.length + rejected) : null
+    };
+  });
+};
+
+// Calculate total duration of the timeline, from the first video start to the last video end
+export const calculateTotalDuration = (videos: VideoFile[]): number => {
+  return getTimelineSegments(videos).reduce((end, segment) => Math.max(end, segment.end), 0);
+};
+
+// Find which video contains a specific time; times in a gap resolve to the start of the next video.
+// Where videos overlap, the preferred (currently playing) video is kept, then videos of the same camera.
+export const findVideoAtTime = (videos: VideoFile[], totalSeconds: number, preferredIndex?: number): { videoIndex: number; videoTime: number } => {
+  const segments = getTimelineSegments(videos);
+  if (segments.length === 0) {
+    return { videoIndex: 0, videoTime: 0 };
   }
-  
-  // If time is beyond all videos, return last video
+
+  const preferred = segments.find(s => s.videoIndex === preferredIndex);
+  if (preferred && totalSeconds >= preferred.start && totalSeconds < preferred.end) {
+    return { videoIndex: preferred.videoIndex, videoTime: totalSeconds - preferred.start };
+  }
+
+  const preferredCameraId = preferred ? videos[preferred.videoIndex].cameraId : undefined;
+  const coveringSegments = segments.filter(s => totalSeconds >= s.start && totalSeconds < s.end);
+  const covering = coveringSegments.find(s => videos[s.videoIndex].cameraId === preferredCameraId) || coveringSegments[0];
+  if (covering) {
+    return { videoIndex: covering.videoIndex, videoTime: totalSeconds - covering.start };
+  }
+
+  const next = segments.find(s => s.start > totalSeconds);
+  if (next) {
+    return { videoIndex: next.videoIndex, videoTime: 0 };
+  }
+
+  // If time is beyond all videos, return the end of the last video
+  const last = segments.reduce((latest, s) => s.end > latest.end ? s : latest);
   return {
-    videoIndex: Math.max(0, videos.length - 1),
-    videoTime: videos.length > 0 ? videos[videos.length - 1].duration : 0
+    videoIndex: last.videoIndex,
+    videoTime: videos[last.videoIndex].duration
   };
 };
 
+// Find where playback continues after the end of a video, skipping any gap; null at the end of the timeline
+export const findNextVideo = (videos: VideoFile[], videoIndex: number): { videoIndex: number; videoTime: number } | null => {
+  const video = videos[videoIndex];
+  if (!video) return null;
+
+  const next = findVideoAtTime(videos, getVideoOffset(videos, videoIndex) + video.duration, videoIndex);
+  return next.videoIndex !== videoIndex ? next : null;
+};
+
+// Find the video of one camera that covers a specific time, or null if that camera has no video then
+export const findCameraVideoAtTime = (videos: VideoFile[], cameraId: string, totalSeconds: number): { videoIndex: number; videoTime: number } | null => {
+  const covering = getTimelineSegments(videos).find(s =>
+    videos[s.videoIndex].cameraId === cameraId && totalSeconds >= s.start && totalSeconds < s.end
+  );
+  return covering ? { videoIndex: covering.videoIndex, videoTime: totalSeconds - covering.start } : null;
+};
+
+// Create a new camera with the next free number
+export const createCamera = (cameras: Camera[]): Camera => {
+  const colors = getVideoColors();
+  return {
+    id: generateId(),
+    name: `Camera ${cameras.length + 1}`,
+    color: colors[cameras.length % colors.length],
+    syncOffset: 0,
+    overlays: [],
+    speedTraps: []
+  };
+};
+
+// Whether a point lies inside a polygon (ray casting)
+export const isPointInPolygon = (point: NormalizedPoint, polygon: NormalizedPoint[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// The drawn zone containing a point on the video frame; the last drawn zone wins where zones overlap
+export const findZoneAtPoint = (overlays: OverlayShape[], point: NormalizedPoint): OverlayShape | undefined => {
+  return overlays.filter(s => s.kind === 'zone' && isPointInPolygon(point, s.points)).pop();
+};
+
 // Calculate absolute time from video start time and offset
 export const calculateAbsoluteTime = (startTime: string, offsetSeconds: number): string => {
   const startSeconds = parseTime(startTime);
   const totalSeconds = startSeconds + offsetSeconds;
-  return formatTime(totalSeconds);
+  return formatTimeOfDay(totalSeconds);
 };
 
-// Calculate real-world time based on first video's start time and current position
+// Calculate real-world date and time of a position on the timeline; gaps use the UTC offset of the earliest video
+export const calculateRealWorldDateTime = (videos: VideoFile[], currentTimeSeconds: number): { date: string; time: string; iso: string } => {
+  // Within a video, its own (drift-corrected) clock applies
+  const { videoIndex, videoTime } = findVideoAtTime(videos, currentTimeSeconds);
+  if (videos[videoIndex] && Math.abs(getVideoOffset(videos, videoIndex) + videoTime - currentTimeSeconds) < 0.001) {
+    return calculateVideoDateTime(videos[videoIndex], videoTime);
+  }
+
+  const origin = getTimelineOrigin(videos);
+  const firstVideo = videos.find(video => getVideoTimelineEpoch(video) === origin);
+  return fromEpochSeconds(origin + currentTimeSeconds, firstVideo?.utcOffset || '+00:00');
+};
+
+// Calculate real-world time of a position on the timeline
 export const calculateRealWorldTime = (videos: VideoFile[], currentTimeSeconds: number): string => {
   if (videos.length === 0) return '00:00:00';
   
-  const firstVideoStartTime = videos[0].startTime;
-  const startSeconds = parseTime(firstVideoStartTime);
-  const realWorldSeconds = startSeconds + currentTimeSeconds;
-  
-  return formatTime(realWorldSeconds);
+  return calculateRealWorldDateTime(videos, currentTimeSeconds).time;
+};
+
+// Recompute timeline positions and wall times of timestamps from their own videos, e.g. after a start time changed
+export const recalculateTimestampTimes = (videos: VideoFile[], timestamps: Timestamp[]): Timestamp[] => {
+  return timestamps.map(timestamp => {
+    const videoIndex = videos.findIndex(v => v.id === timestamp.videoId);
+    if (videoIndex === -1) return timestamp;
+
+    const start = calculateVideoDateTime(videos[videoIndex], timestamp.atSecondCurrent);
+    const updated: Timestamp = {
+      ...timestamp,
+      atSecondFirst: getVideoOffset(videos, videoIndex) + timestamp.atSecondCurrent,
+      frameIndex: getFrameIndex(timestamp.atSecondCurrent, videos[videoIndex].frameRate),
+      timeHHMMSS: start.time,
+      dateTime: start.iso
+    };
+
+    const endVideoIndex = videos.findIndex(v => v.id === timestamp.endVideoId);
+    if (typeof timestamp.endSecondFirst === 'number' && endVideoIndex !== -1) {
+      const endSecondCurrent = timestamp.endSecondCurrent ?? 0;
+      const end = calculateVideoDateTime(videos[endVideoIndex], endSecondCurrent);
+      updated.endSecondFirst = getVideoOffset(videos, endVideoIndex) + endSecondCurrent;
+      updated.endTimeHHMMSS = end.time;
+      updated.endDateTime = end.iso;
+      updated.endFrameIndex = getFrameIndex(endSecondCurrent, videos[endVideoIndex].frameRate);
+    }
+
+    return updated;
+  }).sort((a, b) => a.atSecondFirst - b.atSecondFirst);
+};
+
+// Frame rate assumed when it cannot be detected
+export const DEFAULT_FRAME_RATE = 30;
+
+// Nominal frame rates that measured rates are snapped to
+const COMMON_FRAME_RATES = [23.976, 24, 25, 29.97, 30, 48, 50, 59.94, 60, 100, 119.88, 120];
+
+// Nominal frame rate closest to a measured one, or the measured rate rounded to 0.01 fps
+export const snapFrameRate = (measured: number): number => {
+  const nominal = COMMON_FRAME_RATES.find(rate => Math.abs(rate - measured) / rate < 0.03);
+  return nominal ?? Math.round(measured * 100) / 100;
+};
+
+// Index of the frame shown at a time within a video (frame 0 starts at 0s)
+export const getFrameIndex = (videoTime: number, frameRate: number): number => {
+  return Math.max(0, Math.floor(videoTime * frameRate + 1e-6));
+};
+
+// Time of the middle of a frame; seeking there shows exactly that frame regardless of rounding
+export const getFrameTime = (frameIndex: number, frameRate: number): number => {
+  return (Math.max(0, frameIndex) + 0.5) / frameRate;
+};
+
+// Timeline position after stepping a number of frames from the current position
+export const getFrameStepTime = (videos: VideoFile[], videoState: VideoState, frames: number): number => {
+  const video = videos[videoState.currentVideoIndex];
+  if (!video) return videoState.currentTime;
+
+  const frameIndex = getFrameIndex(videoState.currentVideoTime, video.frameRate) + frames;
+  const videoStart = videoState.currentTime - videoState.currentVideoTime;
+  return Math.max(0, Math.min(videoState.totalDuration, videoStart + getFrameTime(frameIndex, video.frameRate)));
+};
+
+// Detect the frame rate of a video by playing a few frames; falls back to the default where unsupported
+export const detectFrameRate = (file: File): Promise<number> => {
+  return new Promise((resolve) => {
+    const video = document.createElement('video');
+    if (!('requestVideoFrameCallback' in video)) {
+      resolve(DEFAULT_FRAME_RATE);
+      return;
+    }
+
+    const mediaTimes: number[] = [];
+    let done = false;
+    const finish = () => {
+      if (done) return;
+      done = true;
+      clearTimeout(timeout);
+      video.pause();
+      window.URL.revokeObjectURL(video.src);
+
+      // Dropped frames only make gaps longer, so the shortest step between frames is one frame
+      const steps = mediaTimes.slice(1).map((time, index) => time - mediaTimes[index]).filter(step => step > 0);
+      if (steps.length === 0) {
+        resolve(DEFAULT_FRAME_RATE);
+        return;
+      }
+      resolve(snapFrameRate(1 / Math.min(...steps)));
+    };
+
+    const handleFrame = (now: number, metadata: VideoFrameCallbackMetadata) => {
+      mediaTimes.push(metadata.mediaTime);
+      if (mediaTimes.length >= 12) {
+        finish();
+      } else {
+        video.requestVideoFrameCallback(handleFrame);
+      }
+    };
+
+    const timeout = setTimeout(finish, 3000);
+    video.muted = true;
+    video.onerror = finish;
+    video.requestVideoFrameCallback(handleFrame);
+    video.src = URL.createObjectURL(file);
+    video.play().catch(finish);
+  });
+};
+
+// Video seconds to subtract from a key press of an event type at a playback speed
+export const getReactionOffset = (eventType: EventType | undefined, playbackRate: number): number => {
+  if (!eventType?.reactionTime) return 0;
+  return eventType.reactionTime * (eventType.reactionTimeScaled ? playbackRate : 1);
+};
+
+// Apply the current reaction times of the event types to existing annotations, starting from their raw key press times.
+// Annotations made before reaction-time compensation are taken as raw key presses at normal speed.
+export const applyReactionTimes = (videos: VideoFile[], timestamps: Timestamp[], eventTypes: EventType[]): Timestamp[] => {
+  return recalculateTimestampTimes(videos, timestamps.map(t => {
+    // Speed measurements and confirmed detector candidates are set on the crossing frames and are not compensated
+    if (t.speed || t.candidateId) return t;
+
+    const eventType = eventTypes.find(e => e.id === t.eventId);
+    const rawSecondCurrent = t.rawSecondCurrent ?? t.atSecondCurrent;
+    const rawPlaybackRate = t.rawPlaybackRate ?? 1;
+    const updated: Timestamp = {
+      ...t,
+      rawSecondCurrent,
+      rawPlaybackRate,
+      atSecondCurrent: Math.max(0, rawSecondCurrent - getReactionOffset(eventType, rawPlaybackRate))
+    };
+
+    if (typeof t.endSecondFirst === 'number') {
+      const rawEndSecondCurrent = t.rawEndSecondCurrent ?? t.endSecondCurrent ?? 0;
+      const rawEndPlaybackRate = t.rawEndPlaybackRate ?? 1;
+      updated.rawEndSecondCurrent = rawEndSecondCurrent;
+      updated.rawEndPlaybackRate = rawEndPlaybackRate;
+      updated.endSecondCurrent = Math.max(0, rawEndSecondCurrent - getReactionOffset(eventType, rawEndPlaybackRate));
+    }
+
+    return updated;
+  }));
+};
+
+// Spot speed between crossing the entry line at one position and the exit line at another. Within one
+// video the travel time is counted in frames, so it is exact to a frame whatever the browser's time resolution.
+export const calculateSpotSpeed = (
+  videos: VideoFile[],
+  entry: PendingChord['position'],
+  exit: PendingChord['position'],
+  speedTrap: SpeedTrap
+): SpeedMeasurement | null => {
+  const entryVideo = videos[entry.currentVideoIndex];
+  const exitVideo = videos[exit.currentVideoIndex];
+  if (!entryVideo || !exitVideo) return null;
+
+  const exitFrameIndex = getFrameIndex(exit.currentVideoTime, exitVideo.frameRate);
+  const travelTime = Math.abs(entryVideo.id === exitVideo.id
+    ? (exitFrameIndex - getFrameIndex(entry.currentVideoTime, entryVideo.frameRate)) / entryVideo.frameRate
+    : exit.currentTime - entry.currentTime);
+  if (travelTime <= 0 || speedTrap.distance <= 0) return null;
+
+  return {
+    speedTrapId: speedTrap.id,
+    speedTrapName: speedTrap.name,
+    distance: speedTrap.distance,
+    exitVideoId: exitVideo.id,
+    exitSecondCurrent: exit.currentVideoTime,
+    exitFrameIndex,
+    travelTime,
+    speedKmh: (speedTrap.distance / travelTime) * 3.6
+  };
+};
+
+// Value below which the given share (0-1) of the values lie, interpolated between neighbours
+export const calculatePercentile = (values: number[], share: number): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * share;
+  const lower = Math.floor(position);
+  const upper = Math.min(sorted.length - 1, lower + 1);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+// Point of a trajectory at a position within a video
+export const createTrajectoryPoint = (videos: VideoFile[], videoIndex: number, videoTime: number, point: NormalizedPoint): TrajectoryPoint => {
+  const video = videos[videoIndex];
+  return {
+    atSecondFirst: getVideoOffset(videos, videoIndex) + videoTime,
+    atSecondCurrent: videoTime,
+    frameIndex: getFrameIndex(videoTime, video.frameRate),
+    dateTime: calculateVideoDateTime(video, videoTime).iso,
+    videoId: video.id,
+    x: point.x,
+    y: point.y
+  };
+};
+
+// Recompute timeline positions and wall times of trajectory points from their videos
+export const recalculateTrajectoryTimes = (videos: VideoFile[], trajectories: Trajectory[]): Trajectory[] => {
+  return trajectories.map(trajectory => ({
+    ...trajectory,
+    points: trajectory.points.map(p => {
+      const videoIndex = videos.findIndex(v => v.id === p.videoId);
+      return videoIndex === -1 ? p : createTrajectoryPoint(videos, videoIndex, p.atSecondCurrent, p);
+    }).sort((a, b) => a.atSecondFirst - b.atSecondFirst)
+  }));
 };
 
 // Get video duration from file
@@ -126,8 +891,36 @@ export const getVideoDuration = (file: File): Promise<number> => {
   });
 };
 
-// Export timestamps to CSV
-export const exportToCSV = (timestamps: any[]): void => {
+// Trigger a browser download of text or binary content
+export const downloadFile = (content: string | Blob, filename: string, type: string): void => {
+  const blob = content instanceof Blob ? content : new Blob([content], { type });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Quoted CSV text field; quotes inside are doubled so notes and names may contain commas, quotes and line breaks
+const toCsvText = (value: string): string => `"${value.replace(/"/g, '""')}"`;
+
+// CSV of the timestamps, one row per event with one column per attribute name
+export const createTimestampsCsv = (timestamps: Timestamp[], eventTypes: EventType[]): string => {
+  // One column per attribute name; event types sharing a name share the column
+  const attributeNames = eventTypes.reduce((names, eventType) => [
+    ...names,
+    ...eventType.attributes.map(a => a.name).filter(name => !names.includes(name))
+  ], [] as string[]);
+  const getAttributeValue = (t: Timestamp, name: string): string => {
+    const attribute = eventTypes.find(e => e.id === t.eventId)?.attributes.find(a => a.name === name);
+    const value = attribute ? t.attributes?.[attribute.id] : undefined;
+    return value === undefined ? '' : `${value}`;
+  };
+
   const headers = [
     'event_index',
     'event_name', 
@@ -136,58 +929,169 @@ export const exportToCSV = (timestamps: any[]): void => {
     'time_HH:MM:SS',
     'video_id',
     'video_name',
-    'note'
+    'note',
+    'movement_id',
+    'movement_name',
+    'end_second_first',
+    'end_time_HH:MM:SS',
+    'duration_seconds',
+    'datetime',
+    'end_datetime',
+    'camera_id',
+    'camera_name',
+    'frame_index',
+    'end_frame_index',
+    'raw_second_current',
+    'raw_playback_rate',
+    'x',
+    'y',
+    'zone_name',
+    'speed_kmh',
+    'speed_travel_seconds',
+    'speed_distance_m',
+    'speed_trap_name',
+    ...attributeNames.map(name => toCsvText(`attr_${name}`))
   ];
   
-  const csvContent = [
+  return [
     headers.join(','),
     ...timestamps.map(t => [
       t.eventId,
-      `"${t.eventName}"`,
+      toCsvText(t.eventName),
       t.atSecondFirst,
       t.atSecondCurrent,
       t.timeHHMMSS,
-      `"${t.videoId}"`,
-      `"${t.videoName}"`,
-      `"${t.note}"`
+      toCsvText(t.videoId),
+      toCsvText(t.videoName),
+      toCsvText(t.note),
+      t.movementId ?? '',
+      toCsvText(t.movementName ?? ''),
+      t.endSecondFirst ?? '',
+      t.endTimeHHMMSS ?? '',
+      typeof t.endSecondFirst === 'number' ? t.endSecondFirst - t.atSecondFirst : '',
+      t.dateTime,
+      t.endDateTime ?? '',
+      toCsvText(t.cameraId ?? ''),
+      toCsvText(t.cameraName ?? ''),
+      t.frameIndex ?? '',
+      t.endFrameIndex ?? '',
+      t.rawSecondCurrent ?? '',
+      t.rawPlaybackRate ?? '',
+      t.point ? t.point.x.toFixed(4) : '',
+      t.point ? t.point.y.toFixed(4) : '',
+      toCsvText(t.zoneName ?? ''),
+      t.speed ? t.speed.speedKmh.toFixed(1) : '',
+      t.speed ? t.speed.travelTime.toFixed(3) : '',
+      t.speed?.distance ?? '',
+      toCsvText(t.speed?.speedTrapName ?? ''),
+      ...attributeNames.map(name => toCsvText(getAttributeValue(t, name)))
     ].join(','))
   ].join('\n');
-  
-  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-  const link = document.createElement('a');
-  const url = URL.createObjectURL(blob);
-  link.setAttribute('href', url);
-  link.setAttribute('download', `traffic_count_${new Date().toISOString().split('T')[0]}.csv`);
-  link.style.visibility = 'hidden';
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
+};
+
+// Export timestamps to CSV
+export const exportToCSV = (timestamps: Timestamp[], eventTypes: EventType[]): void => {
+  downloadFile(createTimestampsCsv(timestamps, eventTypes), `traffic_count_${new Date().toISOString().split('T')[0]}.csv`, 'text/csv;charset=utf-8;');
+};
+
+// Export trajectories to CSV, one row per tracked point
+export const exportTrajectoriesToCSV = (trajectories: Trajectory[]): void => {
+  const headers = [
+    'trajectory_id',
+    'event_index',
+    'event_name',
+    'camera_id',
+    'camera_name',
+    'point_index',
+    'at_second_first',
+    'at_second_current',
+    'frame_index',
+    'datetime',
+    'video_id',
+    'x',
+    'y',
+    'note'
+  ];
+
+  const csvContent = [
+    headers.join(','),
+    ...trajectories.reduce((rows, t) => [
+      ...rows,
+      ...t.points.map((p, index) => [
+        t.number,
+        t.eventId,
+        toCsvText(t.eventName),
+        toCsvText(t.cameraId),
+        toCsvText(t.cameraName),
+        index,
+        p.atSecondFirst,
+        p.atSecondCurrent,
+        p.frameIndex,
+        p.dateTime,
+        toCsvText(p.videoId),
+        p.x.toFixed(4),
+        p.y.toFixed(4),
+        toCsvText(t.note)
+      ].join(','))
+    ], [] as string[])
+  ].join('\n');
+
+  downloadFile(csvContent, `trajectories_${new Date().toISOString().split('T')[0]}.csv`, 'text/csv;charset=utf-8;');
+};
+
+// Export trajectories to a JSON file
+export const exportTrajectoriesToJSON = (trajectories: Trajectory[]): void => {
+  const content = JSON.stringify({ exportDate: new Date().toISOString(), trajectories }, null, 2);
+  downloadFile(content, `trajectories_${new Date().toISOString().split('T')[0]}.json`, 'application/json;charset=utf-8;');
 };
 
 // Create session data object from current app state
 export const createSessionData = (
   darkMode: boolean,
   eventTypes: EventType[],
+  movements: Movement[],
+  chordMode: boolean,
+  chordTimeoutMs: number,
   timestamps: Timestamp[],
   leftPanelWidth: number,
   seekSeconds: number,
   seekSecondsShift: number,
-  videos: VideoFile[]
+  videos: VideoFile[],
+  cameras: Camera[],
+  trajectories: Trajectory[],
+  filenamePatterns: FilenamePattern[],
+  activitySegments: ActivitySegment[],
+  candidates: CandidateEvent[]
 ): SessionData => {
   return {
     version: '1.0.0',
     exportDate: new Date().toISOString(),
     darkMode,
     eventTypes,
+    movements,
+    chordMode,
+    chordTimeoutMs,
     timestamps,
     leftPanelWidth,
     seekSeconds,
     seekSecondsShift,
     videoFiles: videos.map(video => ({
+      id: video.id,
       name: video.name,
+      size: video.file.size,
       startTime: video.startTime,
-      duration: video.duration
-    }))
+      startDateTime: fromEpochSeconds(getVideoStartEpoch(video), video.utcOffset).iso,
+      duration: video.duration,
+      clockAnchors: video.clockAnchors,
+      cameraId: video.cameraId,
+      frameRate: video.frameRate,
+      startTimeSource: video.startTimeSource
+    })),
+    cameras,
+    trajectories,
+    filenamePatterns,
+    activitySegments,
+    candidates
   };
 };
 
@@ -196,17 +1100,7 @@ export const exportSessionData = (sessionData: SessionData, customFilename?: str
   const defaultFilename = `traffic_count_session_${new Date().toISOString().split('T')[0]}.json`;
   const filename = customFilename || defaultFilename;
   
-  const jsonContent = JSON.stringify(sessionData, null, 2);
-  const blob = new Blob([jsonContent], { type: 'application/json;charset=utf-8;' });
-  const link = document.createElement('a');
-  const url = URL.createObjectURL(blob);
-  link.setAttribute('href', url);
-  link.setAttribute('download', filename);
-  link.style.visibility = 'hidden';
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
+  downloadFile(JSON.stringify(sessionData, null, 2), filename, 'application/json;charset=utf-8;');
 };
 
 // Parse and validate session data from JSON
@@ -218,6 +1112,31 @@ export const parseSessionData = (jsonString: string): SessionData | null => {
     if (!data.version || !data.exportDate || !Array.isArray(data.eventTypes) || !Array.isArray(data.timestamps)) {
       throw new Error('Invalid session data format');
     }
+
+    // Sessions saved before configurable hotkeys used the event id as key
+    data.eventTypes = data.eventTypes.map((e: EventType) => ({
+      ...e,
+      hotkey: e.hotkey ?? (e.id <= 9 ? `${e.id}` : ''),
+      kind: e.kind ?? 'point',
+      attributes: e.attributes ?? []
+    }));
+
+    // Sessions saved before date-aware timestamps have no datetimes; the integrity check restores them
+    data.timestamps = data.timestamps.map((t: Timestamp) => ({ ...t, dateTime: t.dateTime ?? '' }));
+
+    // Sessions saved before multi-camera playback filmed with a single camera
+    if (!Array.isArray(data.cameras) || data.cameras.length === 0) {
+      data.cameras = [createCamera([])];
+    }
+    data.cameras = data.cameras.map((c: Camera) => ({ ...c, overlays: c.overlays ?? [], speedTraps: c.speedTraps ?? [] }));
+    data.trajectories = data.trajectories ?? [];
+    data.filenamePatterns = data.filenamePatterns ?? [];
+    data.activitySegments = data.activitySegments ?? [];
+    data.candidates = data.candidates ?? [];
+    data.videoFiles = (data.videoFiles || []).map((f: SessionData['videoFiles'][number]) => ({
+      ...f,
+      cameraId: data.cameras.some((c: Camera) => c.id === f.cameraId) ? f.cameraId : data.cameras[0].id
+    }));
     
     return data as SessionData;
   } catch (error) {